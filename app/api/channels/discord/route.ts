@@ -0,0 +1,31 @@
+// app/api/channels/discord/route.ts
+// Discord interactions endpoint for the /weather slash command.
+import { NextRequest, after } from 'next/server';
+import { getChatStore, httpTransport, type ChatStateStore } from '../../../../lib/channels';
+import { createLocalProviders } from '../../../../lib/providers';
+import { handleDiscordRequest, discordConfig } from '../../../../lib/discord';
+import { jsonError } from '../../../../lib/http';
+
+export async function POST(request: NextRequest) {
+  const config = discordConfig();
+  if (!config) {
+    return jsonError('Discord is not configured on this server', 503);
+  }
+
+  let store: ChatStateStore;
+  try {
+    store = getChatStore();
+  } catch (error) {
+    console.error('Error opening the chat store:', error);
+    return jsonError('Chat store unavailable', 503);
+  }
+
+  const { response, work } = await handleDiscordRequest(request, config, {
+    store,
+    providers: createLocalProviders(),
+    transport: httpTransport,
+  });
+  // Replies are sent once the platform has its acknowledgement
+  if (work) after(work);
+  return response;
+}
@@ -0,0 +1,48 @@
+// app/api/channels/fake/route.ts
+// Development-only harness: sends a message through the Slack, Telegram or
+// Discord webhook handler as that platform would, and returns the signed
+// webhook's answer and the replies the bot would have sent.
+import { NextRequest, NextResponse } from 'next/server';
+import { FAKE_PLATFORMS, sendFakeMessage, type FakeExchange, type FakeMessage } from '../../../../lib/fakePlatform';
+import { createLocalProviders, createStubProviders } from '../../../../lib/providers';
+import { jsonError, readJsonObject } from '../../../../lib/http';
+
+export interface FakeChannelRequest extends FakeMessage {
+  // Use the fixed stub weather instead of live data and the configured LLM
+  stub?: boolean;
+}
+
+export async function POST(request: NextRequest) {
+  if (process.env.NODE_ENV === 'production') {
+    return jsonError('Not found', 404);
+  }
+
+  const body = await readJsonObject<FakeChannelRequest>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!FAKE_PLATFORMS.includes(body.platform!)) {
+    return jsonError(`"platform" must be one of ${FAKE_PLATFORMS.join(', ')}`, 400);
+  }
+  if (typeof body.text !== 'string' || !body.text.trim()) {
+    return jsonError('"text" must be a non-empty string', 400);
+  }
+  if ([body.chat, body.user].some((value) => value !== undefined && (typeof value !== 'string' || !/^[\w-]{1,64}$/.test(value)))) {
+    return jsonError('"chat" and "user" must be short ids of letters, digits, "_" or "-"', 400);
+  }
+  if (body.locale !== undefined && (typeof body.locale !== 'string' || !/^[a-z]{2,3}(?:[-_][a-z0-9]{2,8})*$/i.test(body.locale))) {
+    return jsonError('"locale" must be a language tag such as "fr" or "es-ES"', 400);
+  }
+
+  try {
+    const exchange = await sendFakeMessage(
+      { platform: body.platform!, text: body.text, chat: body.chat, user: body.user, locale: body.locale, forged: body.forged === true },
+      body.stub ? createStubProviders() : createLocalProviders(),
+    );
+    return NextResponse.json<FakeExchange>(exchange);
+  } catch (error) {
+    console.error('Error running fake platform message:', error);
+    return jsonError('Fake platform message failed', 500);
+  }
+}
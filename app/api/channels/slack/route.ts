@@ -0,0 +1,31 @@
+// app/api/channels/slack/route.ts
+// Slack Events API request URL: direct messages and @mentions of the app.
+import { NextRequest, after } from 'next/server';
+import { getChatStore, httpTransport, type ChatStateStore } from '../../../../lib/channels';
+import { createLocalProviders } from '../../../../lib/providers';
+import { handleSlackRequest, slackConfig } from '../../../../lib/slack';
+import { jsonError } from '../../../../lib/http';
+
+export async function POST(request: NextRequest) {
+  const config = slackConfig();
+  if (!config) {
+    return jsonError('Slack is not configured on this server', 503);
+  }
+
+  let store: ChatStateStore;
+  try {
+    store = getChatStore();
+  } catch (error) {
+    console.error('Error opening the chat store:', error);
+    return jsonError('Chat store unavailable', 503);
+  }
+
+  const { response, work } = await handleSlackRequest(request, config, {
+    store,
+    providers: createLocalProviders(),
+    transport: httpTransport,
+  });
+  // Replies are sent once the platform has its acknowledgement
+  if (work) after(work);
+  return response;
+}
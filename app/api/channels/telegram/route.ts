@@ -0,0 +1,31 @@
+// app/api/channels/telegram/route.ts
+// Telegram bot webhook, registered with setWebhook and a secret_token.
+import { NextRequest, after } from 'next/server';
+import { getChatStore, httpTransport, type ChatStateStore } from '../../../../lib/channels';
+import { createLocalProviders } from '../../../../lib/providers';
+import { handleTelegramRequest, telegramConfig } from '../../../../lib/telegram';
+import { jsonError } from '../../../../lib/http';
+
+export async function POST(request: NextRequest) {
+  const config = telegramConfig();
+  if (!config) {
+    return jsonError('Telegram is not configured on this server', 503);
+  }
+
+  let store: ChatStateStore;
+  try {
+    store = getChatStore();
+  } catch (error) {
+    console.error('Error opening the chat store:', error);
+    return jsonError('Chat store unavailable', 503);
+  }
+
+  const { response, work } = await handleTelegramRequest(request, config, {
+    store,
+    providers: createLocalProviders(),
+    transport: httpTransport,
+  });
+  // Replies are sent once the platform has its acknowledgement
+  if (work) after(work);
+  return response;
+}
@@ -0,0 +1,38 @@
+// app/api/climatology/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getClimatology } from '../../../lib/climatology';
+import { activityThresholds, findActivity } from '../../../lib/activities';
+import { isIsoDate, jsonError, parseCoordinate } from '../../../lib/http';
+import type { ClimatologyData } from '../../../lib/types';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const lat = parseCoordinate(params.get('lat'), 90);
+  const lon = parseCoordinate(params.get('lon'), 180);
+  const date = params.get('date');
+  const windowDays = Number(params.get('window') ?? 7);
+  const activityId = params.get('activity');
+  const activity = activityId ? findActivity(activityId) : null;
+
+  if (lat === null || lon === null) {
+    return jsonError('Query parameters "lat" and "lon" must be valid coordinates', 400);
+  }
+  if (!isIsoDate(date)) {
+    return jsonError('Query parameter "date" must use format YYYY-MM-DD', 400);
+  }
+  if (!Number.isInteger(windowDays) || windowDays < 0 || windowDays > 45) {
+    return jsonError('Query parameter "window" must be a whole number of days between 0 and 45', 400);
+  }
+
+  if (activityId && !activity) {
+    return jsonError(`Unknown activity "${activityId}"`, 400);
+  }
+
+  try {
+    const climatology = await getClimatology(lat, lon, date, windowDays, activity ? activityThresholds(activity) : undefined);
+    return NextResponse.json<ClimatologyData>(climatology);
+  } catch (error) {
+    console.error('Error computing climatology:', error);
+    return jsonError('Historical climate service unavailable', 502);
+  }
+}
@@ -0,0 +1,35 @@
+// app/api/forecast/hourly/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getHourlyWeather, isWithinForecastHorizon } from '../../../../lib/weather';
+import { isIsoDate, jsonError, parseCoordinate, parseHour } from '../../../../lib/http';
+import type { HourlyWeather } from '../../../../lib/types';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const lat = parseCoordinate(params.get('lat'), 90);
+  const lon = parseCoordinate(params.get('lon'), 180);
+  const date = params.get('date');
+  const startHour = parseHour(params.get('start'));
+  const endHour = parseHour(params.get('end'));
+
+  if (lat === null || lon === null) {
+    return jsonError('Query parameters "lat" and "lon" must be valid coordinates', 400);
+  }
+  if (!isIsoDate(date)) {
+    return jsonError('Query parameter "date" must use format YYYY-MM-DD', 400);
+  }
+  if (startHour === null || endHour === null || startHour >= endHour) {
+    return jsonError('Query parameters "start" and "end" must be hours 0-23 with start before end', 400);
+  }
+  if (!isWithinForecastHorizon(date)) {
+    return jsonError('Hourly data is only available inside the forecast horizon', 422);
+  }
+
+  try {
+    const hours = await getHourlyWeather(lat, lon, date, { startHour, endHour });
+    return NextResponse.json<HourlyWeather[]>(hours);
+  } catch (error) {
+    console.error('Error fetching hourly forecast:', error);
+    return jsonError('Forecast service unavailable', 502);
+  }
+}
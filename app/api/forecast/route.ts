@@ -0,0 +1,37 @@
+// app/api/forecast/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getNASAWeatherData, getNASAWeatherRange } from '../../../lib/weather';
+import { MAX_RANGE_DAYS, listDatesBetween } from '../../../lib/dates';
+import { isIsoDate, jsonError, parseCoordinate } from '../../../lib/http';
+import type { NASAWeatherData } from '../../../lib/types';
+
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const lat = parseCoordinate(params.get('lat'), 90);
+  const lon = parseCoordinate(params.get('lon'), 180);
+  const date = params.get('date');
+  const end = params.get('end');
+  const name = params.get('name')?.trim() || undefined;
+
+  if (lat === null || lon === null) {
+    return jsonError('Query parameters "lat" and "lon" must be valid coordinates', 400);
+  }
+  if (!isIsoDate(date)) {
+    return jsonError('Query parameter "date" must use format YYYY-MM-DD', 400);
+  }
+
+  if (end !== null) {
+    if (!isIsoDate(end) || end < date) {
+      return jsonError('Query parameter "end" must use format YYYY-MM-DD and not be before "date"', 400);
+    }
+    if (listDatesBetween(date, end).length > MAX_RANGE_DAYS) {
+      return jsonError(`Date ranges are limited to ${MAX_RANGE_DAYS} days`, 400);
+    }
+
+    return NextResponse.json<NASAWeatherData[]>(await getNASAWeatherRange(lat, lon, date, end, name));
+  }
+
+  // Days the forecast service couldn't provide come back as seasonal
+  // estimates marked `forecastUnavailable`, rather than as an error
+  return NextResponse.json<NASAWeatherData>(await getNASAWeatherData(lat, lon, date, name));
+}
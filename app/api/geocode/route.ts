@@ -0,0 +1,29 @@
+// app/api/geocode/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { DEFAULT_CANDIDATE_COUNT, searchLocations } from '../../../lib/geocode';
+import { jsonError } from '../../../lib/http';
+import type { Coordinates } from '../../../lib/types';
+
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim();
+  const count = Number(request.nextUrl.searchParams.get('count') ?? DEFAULT_CANDIDATE_COUNT);
+  if (!query) {
+    return jsonError('Missing required query parameter "q"', 400);
+  }
+  if (!Number.isInteger(count) || count < 1 || count > 10) {
+    return jsonError('Query parameter "count" must be a whole number between 1 and 10', 400);
+  }
+
+  let candidates: Coordinates[];
+  try {
+    candidates = await searchLocations(query, count);
+  } catch (error) {
+    console.error('Error geocoding location:', error);
+    return jsonError('Geocoding service unavailable', 502);
+  }
+
+  if (candidates.length === 0) {
+    return jsonError(`No places found matching "${query}"`, 404);
+  }
+  return NextResponse.json<Coordinates[]>(candidates);
+}
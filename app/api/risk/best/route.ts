@@ -0,0 +1,52 @@
+// app/api/risk/best/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { recommendBestDays, type AnalysisMode } from '../../../../lib/analysis';
+import { MAX_RANGE_DAYS } from '../../../../lib/dates';
+import { isIsoDate, isWeatherData, jsonError, readJsonObject } from '../../../../lib/http';
+import { resolveActivity } from '../../../../lib/activities';
+import { isDisplayPreferences } from '../../../../lib/units';
+import type { ActivityProfile, BestDayAnalysis, DisplayPreferences, NASAWeatherData } from '../../../../lib/types';
+
+export interface BestDayRequest {
+  // Every candidate day, each with its `date` set, as returned by /api/forecast?end=
+  days: NASAWeatherData[];
+  eventType: string;
+  // Required for custom profiles; built-ins can be named by `eventType` alone
+  activity?: ActivityProfile;
+  mode?: AnalysisMode;
+  // Units and locale for the reasons and narrative; defaults to metric, en-US
+  preferences?: DisplayPreferences;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<BestDayRequest>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!Array.isArray(body.days) || body.days.length < 2 || body.days.length > MAX_RANGE_DAYS) {
+    return jsonError(`"days" must be a list of 2 to ${MAX_RANGE_DAYS} NASAWeatherData entries`, 400);
+  }
+  if (!body.days.every((day) => isWeatherData(day) && isIsoDate(day.date ?? null))) {
+    return jsonError('Every entry in "days" must be a complete NASAWeatherData object with a YYYY-MM-DD "date"', 400);
+  }
+  const activity = resolveActivity(body.eventType, body.activity);
+  if (!activity) {
+    return jsonError('"eventType" must name a built-in activity, or "activity" must be a valid ActivityProfile', 400);
+  }
+  const mode = body.mode ?? 'auto';
+  if (!['auto', 'forecast', 'historical'].includes(mode)) {
+    return jsonError('"mode" must be one of auto, forecast or historical', 400);
+  }
+  if (body.preferences !== undefined && !isDisplayPreferences(body.preferences)) {
+    return jsonError('"preferences" must have "units" of metric, imperial or mixed and a supported "locale"', 400);
+  }
+
+  try {
+    const analysis = await recommendBestDays(body.days, activity, mode, body.preferences);
+    return NextResponse.json<BestDayAnalysis>(analysis);
+  } catch (error) {
+    console.error('Error ranking days:', error);
+    return jsonError(mode === 'historical' ? 'Historical climate service unavailable' : 'Risk analysis failed', mode === 'historical' ? 502 : 500);
+  }
+}
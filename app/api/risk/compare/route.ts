@@ -0,0 +1,56 @@
+// app/api/risk/compare/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { compareLocations, type AnalysisMode } from '../../../../lib/analysis';
+import { MAX_COMPARISON_PLACES } from '../../../../lib/geocode';
+import { isIsoDate, isWeatherData, jsonError, readJsonObject } from '../../../../lib/http';
+import { resolveActivity } from '../../../../lib/activities';
+import { isDisplayPreferences } from '../../../../lib/units';
+import type { ActivityProfile, ComparisonAnalysis, DisplayPreferences, NASAWeatherData } from '../../../../lib/types';
+
+export interface CompareRequest {
+  // One entry per place for the same date, as returned by /api/forecast
+  locations: NASAWeatherData[];
+  eventType: string;
+  // Required for custom profiles; built-ins can be named by `eventType` alone
+  activity?: ActivityProfile;
+  date: string;
+  mode?: AnalysisMode;
+  // Units and locale for the narrative text; defaults to metric, en-US
+  preferences?: DisplayPreferences;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<CompareRequest>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!Array.isArray(body.locations) || body.locations.length < 2 || body.locations.length > MAX_COMPARISON_PLACES) {
+    return jsonError(`"locations" must be a list of 2 to ${MAX_COMPARISON_PLACES} NASAWeatherData entries`, 400);
+  }
+  if (!body.locations.every(isWeatherData)) {
+    return jsonError('Every entry in "locations" must be a complete NASAWeatherData object', 400);
+  }
+  const activity = resolveActivity(body.eventType, body.activity);
+  if (!activity) {
+    return jsonError('"eventType" must name a built-in activity, or "activity" must be a valid ActivityProfile', 400);
+  }
+  if (!isIsoDate(body.date ?? null)) {
+    return jsonError('"date" must use format YYYY-MM-DD', 400);
+  }
+  const mode = body.mode ?? 'auto';
+  if (!['auto', 'forecast', 'historical'].includes(mode)) {
+    return jsonError('"mode" must be one of auto, forecast or historical', 400);
+  }
+  if (body.preferences !== undefined && !isDisplayPreferences(body.preferences)) {
+    return jsonError('"preferences" must have "units" of metric, imperial or mixed and a supported "locale"', 400);
+  }
+
+  try {
+    const analysis = await compareLocations(body.locations, activity, body.date, mode, body.preferences);
+    return NextResponse.json<ComparisonAnalysis>(analysis);
+  } catch (error) {
+    console.error('Error comparing locations:', error);
+    return jsonError(mode === 'historical' ? 'Historical climate service unavailable' : 'Risk analysis failed', mode === 'historical' ? 502 : 500);
+  }
+}
@@ -0,0 +1,56 @@
+// app/api/risk/hourly/route.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { POST } from './route';
+import type { HourlyWeather, TimeWindow } from '../../../../lib/types';
+
+const hour = (value: number): HourlyWeather => ({
+  time: `2026-06-02T${String(value).padStart(2, '0')}:00`,
+  hour: value,
+  temperature: 20,
+  precipitationProbability: 0,
+  precipitation: 0,
+  windSpeed: 10,
+  windGusts: 20,
+  humidity: 50,
+  cloudCover: 20,
+});
+
+const post = (window: Partial<TimeWindow>) => POST(new NextRequest('http://localhost/api/risk/hourly', {
+  method: 'POST',
+  body: JSON.stringify({
+    hours: [hour(14), hour(15), hour(16)],
+    lat: 38.72,
+    lon: -9.14,
+    locationName: 'Lisbon',
+    eventType: 'hiking',
+    date: '2026-06-02',
+    window,
+  }),
+}));
+
+describe('POST /api/risk/hourly', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it.each([
+    ['hours outside the day', { startHour: 30, endHour: -4 }],
+    ['a start after the end', { startHour: 18, endHour: 14 }],
+    ['an empty window', { startHour: 14, endHour: 14 }],
+    ['a fractional hour', { startHour: 14.5, endHour: 16 }],
+    ['a missing end', { startHour: 14 }],
+  ])('rejects %s', async (_, window) => {
+    const response = await post(window);
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain('"window"');
+  });
+
+  it('scores a window within the day', async () => {
+    // Rule-based only, whatever keys the environment has
+    vi.stubEnv('LLM_PROVIDER', 'none');
+    const response = await post({ startHour: 14, endHour: 16 });
+    expect(response.status).toBe(200);
+    expect((await response.json()).hours).toHaveLength(3);
+  });
+});
@@ -0,0 +1,65 @@
+// app/api/risk/hourly/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeTimeWindow } from '../../../../lib/analysis';
+import { hasOptionalNumbers, isHourWindow, isIsoDate, jsonError, readJsonObject } from '../../../../lib/http';
+import { resolveActivity } from '../../../../lib/activities';
+import { isDisplayPreferences } from '../../../../lib/units';
+import type { ActivityProfile, DisplayPreferences, HourlyAnalysis, HourlyWeather, TimeWindow } from '../../../../lib/types';
+
+export interface HourlyRiskRequest {
+  // As returned by /api/forecast/hourly
+  hours: HourlyWeather[];
+  lat: number;
+  lon: number;
+  locationName: string;
+  eventType: string;
+  // Required for custom profiles; built-ins can be named by `eventType` alone
+  activity?: ActivityProfile;
+  date: string;
+  window: TimeWindow;
+  // Units and locale for the narrative text; defaults to metric, en-US
+  preferences?: DisplayPreferences;
+}
+
+const isHourlyWeather = (value: any): value is HourlyWeather =>
+  !!value &&
+  typeof value.time === 'string' &&
+  ['hour', 'temperature', 'precipitationProbability', 'precipitation', 'windSpeed', 'windGusts', 'humidity', 'cloudCover']
+    .every((key) => typeof value[key] === 'number' && Number.isFinite(value[key])) &&
+  hasOptionalNumbers(value, ['feelsLike', 'uvIndex', 'snowfall', 'weatherCode', 'airQuality']);
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<HourlyRiskRequest>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!Array.isArray(body.hours) || body.hours.length === 0 || body.hours.length > 24 || !body.hours.every(isHourlyWeather)) {
+    return jsonError('"hours" must be a list of 1 to 24 HourlyWeather entries', 400);
+  }
+  if (typeof body.lat !== 'number' || typeof body.lon !== 'number' || typeof body.locationName !== 'string') {
+    return jsonError('"lat", "lon" and "locationName" are required', 400);
+  }
+  const activity = resolveActivity(body.eventType, body.activity);
+  if (!activity) {
+    return jsonError('"eventType" must name a built-in activity, or "activity" must be a valid ActivityProfile', 400);
+  }
+  if (!isIsoDate(body.date ?? null)) {
+    return jsonError('"date" must use format YYYY-MM-DD', 400);
+  }
+  if (!isHourWindow(body.window)) {
+    return jsonError('"window" must have whole-number "startHour" and "endHour" from 0 to 23, with "startHour" first', 400);
+  }
+  if (body.preferences !== undefined && !isDisplayPreferences(body.preferences)) {
+    return jsonError('"preferences" must have "units" of metric, imperial or mixed and a supported "locale"', 400);
+  }
+
+  try {
+    const place = { lat: body.lat, lon: body.lon, locationName: body.locationName };
+    const analysis = await analyzeTimeWindow(body.hours, place, activity, body.date, body.window, body.preferences);
+    return NextResponse.json<HourlyAnalysis>(analysis);
+  } catch (error) {
+    console.error('Error analyzing time window:', error);
+    return jsonError('Risk analysis failed', 500);
+  }
+}
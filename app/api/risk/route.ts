@@ -0,0 +1,57 @@
+// app/api/risk/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeDay, type AnalysisMode } from '../../../lib/analysis';
+import { isIsoDate, isWeatherData, jsonError, readJsonObject } from '../../../lib/http';
+import { resolveActivity } from '../../../lib/activities';
+import { isDisplayPreferences } from '../../../lib/units';
+import type { ActivityProfile, DisplayPreferences, NASAWeatherData, WeatherAnalysis } from '../../../lib/types';
+
+export interface RiskRequest {
+  weatherData: NASAWeatherData;
+  eventType: string;
+  // Required for custom profiles; built-ins can be named by `eventType` alone
+  activity?: ActivityProfile;
+  date: string;
+  // 'auto' uses NASA POWER history only for dates past the forecast horizon
+  mode?: AnalysisMode;
+  // Units and locale for the narrative text; defaults to metric, en-US
+  preferences?: DisplayPreferences;
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<RiskRequest>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!isWeatherData(body.weatherData)) {
+    return jsonError('"weatherData" must be a complete NASAWeatherData object', 400);
+  }
+  const activity = resolveActivity(body.eventType, body.activity);
+  if (!activity) {
+    return jsonError('"eventType" must name a built-in activity, or "activity" must be a valid ActivityProfile', 400);
+  }
+  if (!isIsoDate(body.date ?? null)) {
+    return jsonError('"date" must use format YYYY-MM-DD', 400);
+  }
+  const mode = body.mode ?? 'auto';
+  if (!['auto', 'forecast', 'historical'].includes(mode)) {
+    return jsonError('"mode" must be one of auto, forecast or historical', 400);
+  }
+  if (body.preferences !== undefined && !isDisplayPreferences(body.preferences)) {
+    return jsonError('"preferences" must have "units" of metric, imperial or mixed and a supported "locale"', 400);
+  }
+
+  // analyzeDay only throws for missing history when it was explicitly asked for
+  try {
+    const analysis = await analyzeDay(body.weatherData, activity, body.date, mode, body.preferences);
+    return NextResponse.json<WeatherAnalysis>(analysis);
+  } catch (error) {
+    if (mode === 'historical') {
+      console.error('Error computing climatology:', error);
+      return jsonError('Historical climate service unavailable', 502);
+    }
+    console.error('Error analyzing weather risks:', error);
+    return jsonError('Risk analysis failed', 500);
+  }
+}
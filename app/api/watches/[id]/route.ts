@@ -0,0 +1,71 @@
+// app/api/watches/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { getWatchStore, isWatchChannel, isWatchOwner, isWatchThresholds } from '../../../../lib/watches';
+import { jsonError, readJsonObject } from '../../../../lib/http';
+import type { WatchChannel, WatchedEvent, WatchThresholds } from '../../../../lib/types';
+
+export interface WatchUpdate {
+  owner: string;
+  thresholds?: WatchThresholds;
+  channel?: WatchChannel;
+}
+
+interface WatchRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Another owner's watch answers 404 too, so ids can't be probed
+const findOwnedWatch = async (id: string, owner: string) => {
+  const watch = await getWatchStore().get(id);
+  return watch && watch.owner === owner ? watch : null;
+};
+
+export async function PATCH(request: NextRequest, { params }: WatchRouteContext) {
+  const { id } = await params;
+  const body = await readJsonObject<WatchUpdate>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!isWatchOwner(body.owner)) {
+    return jsonError('"owner" must be a watch owner id', 400);
+  }
+  if (body.thresholds !== undefined && !isWatchThresholds(body.thresholds)) {
+    return jsonError('"thresholds" must have "crossing" and "change" between 1 and 100', 400);
+  }
+  if (body.channel !== undefined && !isWatchChannel(body.channel)) {
+    return jsonError('"channel" must be { "type": "browser" } or { "type": "webhook", "url": "https://..." } on a public host', 400);
+  }
+
+  try {
+    const watch = await findOwnedWatch(id, body.owner);
+    if (!watch) {
+      return jsonError('No such watch', 404);
+    }
+    const updated: WatchedEvent = { ...watch, thresholds: body.thresholds ?? watch.thresholds, channel: body.channel ?? watch.channel };
+    await getWatchStore().save(updated);
+    return NextResponse.json<WatchedEvent>(updated);
+  } catch (error) {
+    console.error('Error updating watch:', error);
+    return jsonError('Watch store unavailable', 500);
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: WatchRouteContext) {
+  const { id } = await params;
+  const owner = request.nextUrl.searchParams.get('owner');
+  if (!isWatchOwner(owner)) {
+    return jsonError('Query parameter "owner" must be a watch owner id', 400);
+  }
+
+  try {
+    if (!(await findOwnedWatch(id, owner))) {
+      return jsonError('No such watch', 404);
+    }
+    await getWatchStore().remove(id);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting watch:', error);
+    return jsonError('Watch store unavailable', 500);
+  }
+}
@@ -0,0 +1,94 @@
+// app/api/watches/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_WATCHES_PER_OWNER, createWatch, getWatchStore, isWatchChannel, isWatchOwner, isWatchThresholds } from '../../../lib/watches';
+import { isIsoDate, jsonError, readJsonObject } from '../../../lib/http';
+import { resolveActivity } from '../../../lib/activities';
+import { fromIsoDate, isPastDate } from '../../../lib/dates';
+import { DEFAULT_PREFERENCES, isDisplayPreferences } from '../../../lib/units';
+import type { ActivityProfile, Coordinates, DisplayPreferences, WatchChannel, WatchedEvent, WatchThresholds } from '../../../lib/types';
+
+export interface WatchRequest {
+  // Random id the browser keeps for its watch list
+  owner: string;
+  eventType: string;
+  // Required for custom profiles; built-ins can be named by `eventType` alone
+  activity?: ActivityProfile;
+  location: Coordinates;
+  date: string;
+  preferences?: DisplayPreferences;
+  thresholds: WatchThresholds;
+  channel: WatchChannel;
+}
+
+const isLocation = (value: any): value is Coordinates =>
+  !!value &&
+  typeof value.lat === 'number' && Math.abs(value.lat) <= 90 &&
+  typeof value.lon === 'number' && Math.abs(value.lon) <= 180 &&
+  typeof value.name === 'string' && value.name.trim() !== '';
+
+export async function GET(request: NextRequest) {
+  const owner = request.nextUrl.searchParams.get('owner');
+  if (!isWatchOwner(owner)) {
+    return jsonError('Query parameter "owner" must be a watch owner id', 400);
+  }
+
+  try {
+    const watches = await getWatchStore().list();
+    return NextResponse.json<WatchedEvent[]>(watches.filter((watch) => watch.owner === owner));
+  } catch (error) {
+    console.error('Error loading watches:', error);
+    return jsonError('Watch store unavailable', 500);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const body = await readJsonObject<WatchRequest>(request);
+  if (!body) {
+    return jsonError('Request body must be a JSON object', 400);
+  }
+
+  if (!isWatchOwner(body.owner)) {
+    return jsonError('"owner" must be 8-64 letters, digits, "-" or "_"', 400);
+  }
+  const activity = resolveActivity(body.eventType, body.activity);
+  if (!activity) {
+    return jsonError('"eventType" must name a built-in activity, or "activity" must be a valid ActivityProfile', 400);
+  }
+  if (!isLocation(body.location)) {
+    return jsonError('"location" must have numeric "lat" and "lon" and a "name"', 400);
+  }
+  if (!isIsoDate(body.date ?? null) || isPastDate(fromIsoDate(body.date!))) {
+    return jsonError('"date" must use format YYYY-MM-DD and not be in the past', 400);
+  }
+  if (body.preferences !== undefined && !isDisplayPreferences(body.preferences)) {
+    return jsonError('"preferences" must have "units" of metric, imperial or mixed and a supported "locale"', 400);
+  }
+  if (!isWatchThresholds(body.thresholds)) {
+    return jsonError('"thresholds" must have "crossing" and "change" between 1 and 100', 400);
+  }
+  if (!isWatchChannel(body.channel)) {
+    return jsonError('"channel" must be { "type": "browser" } or { "type": "webhook", "url": "https://..." } on a public host', 400);
+  }
+
+  try {
+    const store = getWatchStore();
+    const owned = (await store.list()).filter((watch) => watch.owner === body.owner && !watch.expired);
+    if (owned.length >= MAX_WATCHES_PER_OWNER) {
+      return jsonError(`You can watch up to ${MAX_WATCHES_PER_OWNER} events at a time`, 409);
+    }
+
+    const watch = await createWatch({
+      owner: body.owner,
+      activity,
+      location: body.location,
+      date: body.date!,
+      preferences: body.preferences ?? DEFAULT_PREFERENCES,
+      thresholds: body.thresholds,
+      channel: body.channel,
+    }, store);
+    return NextResponse.json<WatchedEvent>(watch, { status: 201 });
+  } catch (error) {
+    console.error('Error creating watch:', error);
+    return jsonError('Could not create the watch', 500);
+  }
+}
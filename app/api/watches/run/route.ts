@@ -0,0 +1,28 @@
+// app/api/watches/run/route.ts
+// Scheduled job: re-checks every active watch. vercel.json calls it hourly;
+// elsewhere any cron can request it with the same bearer token.
+import { NextRequest, NextResponse } from 'next/server';
+import { runWatchChecks, type WatchRunSummary } from '../../../../lib/watches';
+import { jsonError } from '../../../../lib/http';
+
+// Without CRON_SECRET the job is only open in development
+const isAuthorized = (request: NextRequest) => {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return process.env.NODE_ENV !== 'production';
+  return request.headers.get('authorization') === `Bearer ${secret}`;
+};
+
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return jsonError('Missing or invalid CRON_SECRET bearer token', 401);
+  }
+
+  try {
+    // Alert links point back at this deployment
+    const summary = await runWatchChecks(request.nextUrl.origin);
+    return NextResponse.json<WatchRunSummary>(summary);
+  } catch (error) {
+    console.error('Error running watch checks:', error);
+    return jsonError('Watch checks failed', 500);
+  }
+}
@@ -0,0 +1,185 @@
+// app/components/ActivityManager.tsx
+'use client';
+
+import { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { isBuiltInActivity, slugifyActivity, validateActivityProfile } from '../../lib/activities';
+import { RISK_KEYS } from '../../lib/risk';
+import { formatPrecipitation, formatSpeed, formatTemperature, fromMetric, toMetric, unitSymbol, type Quantity } from '../../lib/units';
+import type { ActivityProfile, DisplayPreferences, RiskData, UnitSystem } from '../../lib/types';
+
+interface ActivityManagerProps {
+  activities: ActivityProfile[];
+  preferences: DisplayPreferences;
+  storedIds: string[];
+  onSave: (profile: ActivityProfile) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+interface ProfileForm {
+  id: string | null;
+  label: string;
+  emoji: string;
+  keywords: string;
+  comfortMin: string;
+  comfortMax: string;
+  maxWind: string;
+  maxPrecipitation: string;
+  weights: Record<keyof RiskData, string>;
+}
+
+// Tolerances are edited in the user's units and stored in metric
+const display = (quantity: Quantity, value: number, units: UnitSystem) =>
+  String(Math.round(fromMetric(quantity, value, units) * 100) / 100);
+
+const metric = (quantity: Quantity, value: string, units: UnitSystem) =>
+  Math.round(toMetric(quantity, Number(value), units) * 10) / 10;
+
+const emptyForm = (units: UnitSystem): ProfileForm => ({
+  id: null,
+  label: '',
+  emoji: '🌤️',
+  keywords: '',
+  comfortMin: display('temperature', 10, units),
+  comfortMax: display('temperature', 28, units),
+  maxWind: display('speed', 30, units),
+  maxPrecipitation: display('precipitation', 5, units),
+  weights: RISK_KEYS.reduce((acc, key) => ({ ...acc, [key]: '0' }), {} as Record<keyof RiskData, string>),
+});
+
+const toForm = (profile: ActivityProfile, units: UnitSystem): ProfileForm => ({
+  id: profile.id,
+  label: profile.label,
+  emoji: profile.emoji,
+  keywords: profile.keywords.join(', '),
+  comfortMin: display('temperature', profile.comfortTemp.min, units),
+  comfortMax: display('temperature', profile.comfortTemp.max, units),
+  maxWind: display('speed', profile.maxWind, units),
+  maxPrecipitation: display('precipitation', profile.maxPrecipitation, units),
+  weights: RISK_KEYS.reduce((acc, key) => ({ ...acc, [key]: String(profile.weights[key] ?? 0) }), {} as Record<keyof RiskData, string>),
+});
+
+const fromForm = (form: ProfileForm, units: UnitSystem): ActivityProfile => ({
+  id: form.id ?? slugifyActivity(form.label),
+  label: form.label.trim(),
+  emoji: form.emoji.trim(),
+  keywords: form.keywords.split(',').map((keyword) => keyword.trim().toLowerCase()).filter(Boolean),
+  comfortTemp: { min: metric('temperature', form.comfortMin, units), max: metric('temperature', form.comfortMax, units) },
+  maxWind: metric('speed', form.maxWind, units),
+  maxPrecipitation: metric('precipitation', form.maxPrecipitation, units),
+  weights: RISK_KEYS.reduce((acc, key) => {
+    const weight = Number(form.weights[key]);
+    return weight ? { ...acc, [key]: weight } : acc;
+  }, {} as Partial<RiskData>),
+  custom: form.id === null || !isBuiltInActivity(form.id) ? true : undefined,
+});
+
+export default function ActivityManager({ activities, preferences, storedIds, onSave, onRemove, onClose }: ActivityManagerProps) {
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { units } = preferences;
+
+  const handleSave = () => {
+    const profile = fromForm(form!, units);
+    const problem = validateActivityProfile(profile);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    if (form!.id === null && activities.some((activity) => activity.id === profile.id)) {
+      setError(`An activity called "${profile.label}" already exists`);
+      return;
+    }
+    onSave(profile);
+    setForm(null);
+    setError(null);
+  };
+
+  const field = (label: string, value: string, onChange: (value: string) => void, type = 'text') => (
+    <label className="block text-sm">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type={type}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="mt-1 w-full px-2 py-1 border border-gray-300 rounded text-gray-900"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Activity profiles</h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!form && (
+          <>
+            <div className="space-y-2">
+              {activities.map((activity) => (
+                <div key={activity.id} className="flex items-center justify-between border border-gray-200 rounded-lg px-3 py-2">
+                  <div>
+                    <div className="font-medium text-gray-800">{activity.emoji} {activity.label}</div>
+                    <div className="text-xs text-gray-500">
+                      {formatTemperature(activity.comfortTemp.min, preferences)}–{formatTemperature(activity.comfortTemp.max, preferences)} • wind ≤ {formatSpeed(activity.maxWind, preferences)} • rain ≤ {formatPrecipitation(activity.maxPrecipitation, preferences)}
+                    </div>
+                  </div>
+                  <div className="flex gap-2 text-sm">
+                    <button onClick={() => { setForm(toForm(activity, units)); setError(null); }} className="text-green-700 hover:underline">Edit</button>
+                    {storedIds.includes(activity.id) && (
+                      <button onClick={() => onRemove(activity.id)} className="text-red-600 hover:underline">
+                        {isBuiltInActivity(activity.id) ? 'Reset' : 'Delete'}
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => { setForm(emptyForm(units)); setError(null); }}
+              className="mt-4 flex items-center gap-2 px-3 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> New activity
+            </button>
+          </>
+        )}
+
+        {form && (
+          <div className="space-y-3">
+            <div className="grid grid-cols-4 gap-3">
+              <div className="col-span-3">{field('Name', form.label, (label) => setForm({ ...form, label }))}</div>
+              {field('Emoji', form.emoji, (emoji) => setForm({ ...form, emoji }))}
+            </div>
+            {field('Keywords (comma separated)', form.keywords, (keywords) => setForm({ ...form, keywords }))}
+            <div className="grid grid-cols-2 gap-3">
+              {field(`Comfort min (${unitSymbol('temperature', units)})`, form.comfortMin, (comfortMin) => setForm({ ...form, comfortMin }), 'number')}
+              {field(`Comfort max (${unitSymbol('temperature', units)})`, form.comfortMax, (comfortMax) => setForm({ ...form, comfortMax }), 'number')}
+              {field(`Max wind (${unitSymbol('speed', units)})`, form.maxWind, (maxWind) => setForm({ ...form, maxWind }), 'number')}
+              {field(`Max precipitation (${unitSymbol('precipitation', units)})`, form.maxPrecipitation, (maxPrecipitation) => setForm({ ...form, maxPrecipitation }), 'number')}
+            </div>
+            <div>
+              <div className="text-sm text-gray-600 mb-1">Extra risk points per dimension</div>
+              <div className="grid grid-cols-5 gap-2">
+                {RISK_KEYS.map((key) => (
+                  <div key={key}>
+                    {field(key, form.weights[key], (weight) => setForm({ ...form, weights: { ...form.weights, [key]: weight } }), 'number')}
+                  </div>
+                ))}
+              </div>
+            </div>
+            {error && <div className="text-sm text-red-600">{error}</div>}
+            <div className="flex gap-2 justify-end">
+              <button onClick={() => { setForm(null); setError(null); }} className="px-3 py-2 text-sm text-gray-600 hover:text-gray-900">Cancel</button>
+              <button onClick={handleSave} className="px-3 py-2 bg-green-500 hover:bg-green-600 text-white rounded-lg text-sm font-medium">Save</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
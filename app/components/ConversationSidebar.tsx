@@ -0,0 +1,108 @@
+// app/components/ConversationSidebar.tsx
+'use client';
+
+import { useState } from 'react';
+import { Check, MessageSquare, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { messagesFor } from '../../lib/i18n';
+import type { ConversationSummary, Language } from '../../lib/types';
+
+interface ConversationSidebarProps {
+  conversations: ConversationSummary[];
+  activeId: string;
+  locale: string;
+  language: Language;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export default function ConversationSidebar({ conversations, activeId, locale, language, onSelect, onNew, onRename, onDelete }: ConversationSidebarProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const { history } = messagesFor(language);
+
+  const startRename = (conversation: ConversationSummary) => {
+    setEditingId(conversation.id);
+    setDraft(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draft.trim()) {
+      onRename(editingId, draft.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 bg-gray-900 text-gray-100 flex flex-col">
+      <div className="p-3">
+        <button
+          onClick={onNew}
+          className="w-full flex items-center gap-2 px-3 py-2 border border-gray-700 rounded-lg text-sm hover:bg-gray-800 transition-colors"
+        >
+          <Plus className="w-4 h-4" /> {history.newChat}
+        </button>
+      </div>
+
+      <nav className="flex-1 overflow-y-auto px-2 pb-3 space-y-1">
+        {conversations.length === 0 && (
+          <div className="px-3 py-2 text-xs text-gray-400">{history.empty}</div>
+        )}
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm ${
+              conversation.id === activeId ? 'bg-gray-800' : 'hover:bg-gray-800/60'
+            }`}
+          >
+            <MessageSquare className="w-4 h-4 flex-shrink-0 text-gray-400" />
+            {editingId === conversation.id ? (
+              <>
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 bg-gray-700 rounded px-1 text-sm text-white focus:outline-none"
+                />
+                <button onClick={commitRename} className="text-gray-400 hover:text-white" aria-label={history.saveName}>
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-white" aria-label={history.cancelRename}>
+                  <X className="w-4 h-4" />
+                </button>
+              </>
+            ) : (
+              <>
+                <button onClick={() => onSelect(conversation.id)} className="flex-1 min-w-0 text-left">
+                  <span className="block truncate">{conversation.title}</span>
+                  <span className="block text-xs text-gray-500">
+                    {new Date(conversation.updatedAt).toLocaleString(locale, { dateStyle: 'medium', timeStyle: 'short' })}
+                  </span>
+                </button>
+                <button
+                  onClick={() => startRename(conversation)}
+                  className="hidden group-hover:block text-gray-400 hover:text-white"
+                  aria-label={history.rename}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => onDelete(conversation.id)}
+                  className="hidden group-hover:block text-gray-400 hover:text-red-400"
+                  aria-label={history.remove}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </nav>
+    </aside>
+  );
+}
@@ -0,0 +1,47 @@
+// app/components/DataSources.tsx
+import { FIELD_LABELS, WEATHER_FIELDS, overallConfidence } from '../../lib/provenance';
+import type { Confidence, Provenance } from '../../lib/types';
+
+const confidenceStyles: Record<Confidence, string> = {
+  high: 'bg-green-100 text-green-800 border-green-200',
+  medium: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  low: 'bg-red-100 text-red-800 border-red-200',
+};
+
+// Single-day reports also pass the per-field provenance, shown as one badge per
+// value with the overall confidence in the header.
+export default function DataSources({ sources, provenance }: { sources: string[]; provenance?: Provenance }) {
+  return (
+    <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="text-sm font-semibold text-blue-900">📡 Data Sources Used:</div>
+        {provenance && (
+          <span className={`text-xs font-medium px-2 py-0.5 rounded-full border ${confidenceStyles[overallConfidence(provenance)]}`}>
+            Confidence: {overallConfidence(provenance)}
+          </span>
+        )}
+      </div>
+      <div className="text-sm text-blue-800 space-y-1">
+        {sources.map((source, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <div className="w-1 h-1 bg-blue-500 rounded-full"></div>
+            {source}
+          </div>
+        ))}
+      </div>
+      {provenance && (
+        <div className="mt-3 flex flex-wrap gap-2">
+          {WEATHER_FIELDS.map((field) => (
+            <span
+              key={field}
+              title={provenance[field].source}
+              className={`text-xs px-2 py-0.5 rounded-full border ${confidenceStyles[provenance[field].confidence]}`}
+            >
+              {FIELD_LABELS[field]}: {provenance[field].kind}, {provenance[field].confidence}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
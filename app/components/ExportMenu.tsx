@@ -0,0 +1,64 @@
+// app/components/ExportMenu.tsx
+'use client';
+
+import { useState } from 'react';
+import { Calendar, Database, Download, Link2, Printer } from 'lucide-react';
+import { downloadExport, printReport, type ExportableMessage } from '../../lib/export';
+import { languageOf, messagesFor } from '../../lib/i18n';
+import type { DisplayPreferences } from '../../lib/types';
+
+interface ExportMenuProps {
+  message: ExportableMessage;
+  preferences: DisplayPreferences;
+  // Path of the shareable /report page, when the report has one
+  permalink?: string | null;
+}
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 border border-gray-300 rounded text-xs text-gray-600 hover:bg-gray-50 hover:border-gray-400 transition-colors';
+
+export default function ExportMenu({ message, preferences, permalink }: ExportMenuProps) {
+  const [copied, setCopied] = useState(false);
+  const { exports } = messagesFor(languageOf(preferences));
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(new URL(permalink!, window.location.origin).href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Error copying link:', error);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-4">
+      <span className="text-xs text-gray-500">{exports.label}</span>
+      <button
+        onClick={() => {
+          // Pop-up blockers stop the print window; fall back to the HTML file
+          if (!printReport(message, preferences)) downloadExport(message, 'html', preferences);
+        }}
+        className={buttonClass}
+      >
+        <Printer className="w-3 h-3" /> PDF
+      </button>
+      <button onClick={() => downloadExport(message, 'html', preferences)} className={buttonClass}>
+        <Download className="w-3 h-3" /> HTML
+      </button>
+      <button onClick={() => downloadExport(message, 'ics', preferences)} className={buttonClass}>
+        <Calendar className="w-3 h-3" /> {exports.calendar}
+      </button>
+      <button onClick={() => downloadExport(message, 'json', preferences)} className={buttonClass}>
+        <Database className="w-3 h-3" /> JSON
+      </button>
+      <button onClick={() => downloadExport(message, 'csv', preferences)} className={buttonClass}>
+        <Database className="w-3 h-3" /> CSV
+      </button>
+      {permalink && (
+        <button onClick={copyLink} className={buttonClass}>
+          <Link2 className="w-3 h-3" /> {copied ? exports.copied : exports.copyLink}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+// app/components/RiskCards.tsx
+// Rendered by the chat and by the server-side /report page, so it stays free
+// of client-only hooks.
+import { DEFAULT_LANGUAGE, messagesFor } from '../../lib/i18n';
+import type { Language, RiskData } from '../../lib/types';
+
+export const riskConditions: { key: keyof RiskData; icon: string; color: string }[] = [
+  { key: 'hot', icon: '🔥', color: 'bg-gradient-to-br from-orange-400 to-red-500' },
+  { key: 'cold', icon: '❄️', color: 'bg-gradient-to-br from-blue-400 to-cyan-500' },
+  { key: 'windy', icon: '💨', color: 'bg-gradient-to-br from-gray-400 to-slate-500' },
+  { key: 'wet', icon: '🌧️', color: 'bg-gradient-to-br from-blue-500 to-indigo-600' },
+  { key: 'uncomfortable', icon: '😓', color: 'bg-gradient-to-br from-yellow-400 to-orange-500' },
+  { key: 'uv', icon: '☀️', color: 'bg-gradient-to-br from-amber-400 to-yellow-500' },
+  { key: 'airQuality', icon: '😷', color: 'bg-gradient-to-br from-stone-400 to-stone-600' },
+  { key: 'storm', icon: '⛈️', color: 'bg-gradient-to-br from-purple-500 to-indigo-700' },
+  { key: 'snow', icon: '🌨️', color: 'bg-gradient-to-br from-sky-300 to-blue-400' },
+  { key: 'gusts', icon: '🌬️', color: 'bg-gradient-to-br from-teal-400 to-slate-500' },
+];
+
+// Reports saved before a dimension existed have no score for it
+export const scoredConditions = (risks: RiskData, language: Language = DEFAULT_LANGUAGE) =>
+  riskConditions
+    .filter((condition) => typeof risks[condition.key] === 'number')
+    .map((condition) => ({ ...condition, label: messagesFor(language).risks[condition.key] }));
+
+export default function RiskCards({ risks, language }: { risks: RiskData; language?: Language }) {
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+      {scoredConditions(risks, language).map((condition) => {
+        const value = Math.round(risks[condition.key]);
+        return (
+          <div
+            key={condition.key}
+            className={`${condition.color} rounded-lg p-3 text-white text-center shadow-sm`}
+          >
+            <div className="text-lg mb-1">{condition.icon}</div>
+            <div className="text-sm font-bold">{value}%</div>
+            <div className="text-xs opacity-90">{condition.label}</div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
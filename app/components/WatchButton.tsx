@@ -0,0 +1,103 @@
+// app/components/WatchButton.tsx
+'use client';
+
+import { useState } from 'react';
+import { Bell, BellRing } from 'lucide-react';
+import type { WatchChannel, WatchThresholds } from '../../lib/types';
+
+interface WatchButtonProps {
+  // Resolves once the server has stored the watch; rejects with a message to show
+  onWatch: (thresholds: WatchThresholds, channel: WatchChannel) => Promise<void>;
+}
+
+export const DEFAULT_WATCH_THRESHOLDS: WatchThresholds = { crossing: 50, change: 20 };
+
+const buttonClass = 'flex items-center gap-1 px-2 py-1 border border-gray-300 rounded text-xs text-gray-600 hover:bg-gray-50 hover:border-gray-400 transition-colors';
+const inputClass = 'w-16 px-2 py-1 border border-gray-300 rounded text-xs text-gray-900';
+
+export default function WatchButton({ onWatch }: WatchButtonProps) {
+  const [open, setOpen] = useState(false);
+  const [watching, setWatching] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [crossing, setCrossing] = useState(String(DEFAULT_WATCH_THRESHOLDS.crossing));
+  const [change, setChange] = useState(String(DEFAULT_WATCH_THRESHOLDS.change));
+  const [channelType, setChannelType] = useState<WatchChannel['type']>('browser');
+  const [webhookUrl, setWebhookUrl] = useState('');
+
+  const submit = async () => {
+    const channel: WatchChannel = channelType === 'webhook' ? { type: 'webhook', url: webhookUrl.trim() } : { type: 'browser' };
+    // Permission has to be asked from the click itself
+    if (channel.type === 'browser' && 'Notification' in window && Notification.permission === 'default') {
+      await Notification.requestPermission();
+    }
+    setSaving(true);
+    setError(null);
+    try {
+      await onWatch({ crossing: Number(crossing), change: Number(change) }, channel);
+      setWatching(true);
+      setOpen(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Could not start watching');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (watching) {
+    return (
+      <div className="flex items-center gap-1 mt-2 text-xs text-green-700">
+        <BellRing className="w-3 h-3" /> Watching this event. You'll get an alert when the risks change.
+      </div>
+    );
+  }
+
+  if (!open) {
+    return (
+      <div className="mt-2">
+        <button onClick={() => setOpen(true)} className={buttonClass}>
+          <Bell className="w-3 h-3" /> Watch for changes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2 p-3 border border-gray-200 rounded-lg text-xs text-gray-700 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        Alert when any risk crosses
+        <input type="number" min={1} max={100} value={crossing} onChange={(e) => setCrossing(e.target.value)} className={inputClass} />
+        % or moves by
+        <input type="number" min={1} max={100} value={change} onChange={(e) => setChange(e.target.value)} className={inputClass} />
+        points
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={channelType}
+          onChange={(e) => setChannelType(e.target.value as WatchChannel['type'])}
+          aria-label="Alert channel"
+          className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 bg-white"
+        >
+          <option value="browser">Browser notification</option>
+          <option value="webhook">Webhook</option>
+        </select>
+        {channelType === 'webhook' && (
+          <input
+            type="url"
+            value={webhookUrl}
+            onChange={(e) => setWebhookUrl(e.target.value)}
+            placeholder="https://example.com/hooks/weather"
+            className="flex-1 min-w-48 px-2 py-1 border border-gray-300 rounded text-xs text-gray-900"
+          />
+        )}
+      </div>
+      {error && <div className="text-red-600">{error}</div>}
+      <div className="flex gap-2 justify-end">
+        <button onClick={() => setOpen(false)} className="px-2 py-1 text-gray-600 hover:text-gray-900">Cancel</button>
+        <button onClick={submit} disabled={saving} className="px-2 py-1 bg-green-500 hover:bg-green-600 disabled:opacity-50 text-white rounded font-medium">
+          {saving ? 'Saving…' : 'Start watching'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+// app/components/WatchList.tsx
+'use client';
+
+import { useState } from 'react';
+import { Trash2, X } from 'lucide-react';
+import { scoredConditions } from './RiskCards';
+import { formatAge, formatLongDate, minutesSince } from '../../lib/dates';
+import type { DisplayPreferences, WatchedEvent, WatchThresholds } from '../../lib/types';
+
+interface WatchListProps {
+  watches: WatchedEvent[];
+  preferences: DisplayPreferences;
+  onUpdate: (id: string, thresholds: WatchThresholds) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+const riskColor = (value: number) =>
+  value >= 60 ? 'bg-red-100 text-red-800' : value >= 30 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800';
+
+const inputClass = 'w-16 px-2 py-1 border border-gray-300 rounded text-xs text-gray-900';
+
+function WatchRow({ watch, preferences, onUpdate, onRemove }: { watch: WatchedEvent } & Omit<WatchListProps, 'watches' | 'onClose'>) {
+  const [crossing, setCrossing] = useState(String(watch.thresholds.crossing));
+  const [change, setChange] = useState(String(watch.thresholds.change));
+  const edited = Number(crossing) !== watch.thresholds.crossing || Number(change) !== watch.thresholds.change;
+
+  return (
+    <div className={`border border-gray-200 rounded-lg p-3 ${watch.expired ? 'opacity-60' : ''}`}>
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <div className="font-medium text-gray-800">{watch.activity.emoji} {watch.activity.label} in {watch.location.name}</div>
+          <div className="text-xs text-gray-500">
+            {formatLongDate(watch.date, preferences.locale)} • {watch.expired ? 'date has passed, no longer checked' : `checked ${formatAge(minutesSince(watch.lastCheckedAt))}`}
+            {' • '}{watch.channel.type === 'webhook' ? `webhook ${new URL(watch.channel.url).host}` : 'browser notification'}
+          </div>
+        </div>
+        <button onClick={() => onRemove(watch.id)} className="p-1 text-gray-400 hover:text-red-600" aria-label="Stop watching">
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1 mt-2">
+        {scoredConditions(watch.risks).map((condition) => (
+          <span key={condition.key} className={`text-xs px-2 py-0.5 rounded ${riskColor(watch.risks[condition.key])}`}>
+            {condition.icon} {Math.round(watch.risks[condition.key])}%
+          </span>
+        ))}
+      </div>
+
+      {!watch.expired && (
+        <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-gray-600">
+          Alert at
+          <input type="number" min={1} max={100} value={crossing} onChange={(e) => setCrossing(e.target.value)} className={inputClass} />
+          % or a
+          <input type="number" min={1} max={100} value={change} onChange={(e) => setChange(e.target.value)} className={inputClass} />
+          point change
+          {edited && (
+            <button onClick={() => onUpdate(watch.id, { crossing: Number(crossing), change: Number(change) })} className="text-green-700 font-medium hover:underline">
+              Save
+            </button>
+          )}
+        </div>
+      )}
+
+      {watch.alerts.length > 0 && (
+        <ul className="mt-2 text-xs text-gray-700 space-y-1">
+          {watch.alerts.slice(0, 3).map((alert) => (
+            <li key={alert.id}>
+              <span className="text-gray-500">{formatAge(minutesSince(alert.createdAt))}:</span> {alert.reasons.join('; ')}
+              {!alert.delivered && <span className="text-red-600"> (webhook failed)</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function WatchList({ watches, preferences, onUpdate, onRemove, onClose }: WatchListProps) {
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-10">
+      <div className="bg-white rounded-lg shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-gray-800">Watched events</h2>
+          <button onClick={onClose} className="p-1 text-gray-500 hover:text-gray-800" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {watches.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            Nothing watched yet. Use &ldquo;Watch for changes&rdquo; under a single-day report, and the risks will be re-checked as the forecast updates.
+          </p>
+        ) : (
+          <div className="space-y-3">
+            {watches.map((watch) => (
+              <WatchRow key={watch.id} watch={watch} preferences={preferences} onUpdate={onUpdate} onRemove={onRemove} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+// app/components/WeatherCharts.tsx
+// Inline SVG charts for a report: temperature band, precipitation and wind per
+// day or hour, drawn against the activity's limits and, for a single day, the
+// spread of past years. Free of hooks so the server-rendered /report page can
+// use it too.
+import type { ReactNode } from 'react';
+import { formatShortDate } from '../../lib/dates';
+import { formatPrecipitation, formatSpeed, formatTemperature } from '../../lib/units';
+import type { ActivityProfile, ClimatePercentiles, DisplayPreferences, HourRisk, NASAWeatherData, Percentiles } from '../../lib/types';
+
+export interface ChartPoint {
+  label: string;
+  temperature: number;
+  temperatureMax?: number;
+  temperatureMin?: number;
+  precipitation: number;
+  windSpeed: number;
+  windGusts?: number;
+}
+
+interface WeatherChartsProps {
+  // Empty when there is no forecast for the date; the history is drawn alone
+  points: ChartPoint[];
+  percentiles?: ClimatePercentiles;
+  activity?: ActivityProfile;
+  preferences: DisplayPreferences;
+}
+
+export const dayPoints = (days: { date: string; weather: NASAWeatherData }[], locale: string): ChartPoint[] =>
+  days.map(({ date, weather }) => ({ ...weather, label: formatShortDate(date, locale) }));
+
+export const hourPoints = (hours: HourRisk[]): ChartPoint[] =>
+  hours.map(({ time, weather }) => ({ ...weather, label: time }));
+
+const WIDTH = 600;
+const HEIGHT = 140;
+const MARGIN = { top: 8, right: 8, bottom: 20, left: 48 };
+const PLOT_WIDTH = WIDTH - MARGIN.left - MARGIN.right;
+const PLOT_HEIGHT = HEIGHT - MARGIN.top - MARGIN.bottom;
+
+type Band = { percentiles: Percentiles; color: string };
+
+const scale = (values: number[], floorAtZero: boolean) => {
+  let min = Math.min(...values);
+  let max = Math.max(...values);
+  if (floorAtZero) min = 0;
+  const pad = Math.max((max - min) * 0.1, 1);
+  if (!floorAtZero) min -= pad;
+  max += pad;
+  return (value: number) => MARGIN.top + PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+};
+
+const bandValues = (bands: Band[]) => bands.flatMap(({ percentiles }) => [percentiles.p10, percentiles.p90]);
+
+// Where a forecast value falls among past years, in words
+export const describePercentile = (value: number, percentiles: Percentiles) =>
+  value > percentiles.p90 ? 'above the 90th percentile'
+    : value > percentiles.p75 ? 'between the 75th and 90th percentiles'
+      : value >= percentiles.p25 ? 'in the middle half'
+        : value >= percentiles.p10 ? 'between the 10th and 25th percentiles'
+          : 'below the 10th percentile';
+
+// Past years as shaded bands: light for 10th–90th, darker for 25th–75th,
+// dashed for the median
+function HistoryBands({ bands, y }: { bands: Band[]; y: (value: number) => number }) {
+  return (
+    <>
+      {bands.map(({ percentiles, color }, index) => (
+        <g key={index} fill={color}>
+          <rect x={MARGIN.left} width={PLOT_WIDTH} y={y(percentiles.p90)} height={Math.max(0, y(percentiles.p10) - y(percentiles.p90))} opacity={0.15} />
+          <rect x={MARGIN.left} width={PLOT_WIDTH} y={y(percentiles.p75)} height={Math.max(0, y(percentiles.p25) - y(percentiles.p75))} opacity={0.2} />
+          <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(percentiles.p50)} y2={y(percentiles.p50)} stroke={color} strokeDasharray="4 3" />
+        </g>
+      ))}
+    </>
+  );
+}
+
+function LimitLine({ value, label, y }: { value: number; label: string; y: (value: number) => number }) {
+  return (
+    <g>
+      <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={y(value)} y2={y(value)} stroke="#16a34a" strokeDasharray="2 2" />
+      <text x={WIDTH - MARGIN.right} y={y(value) - 2} textAnchor="end" fontSize={9} fill="#15803d">{label}</text>
+    </g>
+  );
+}
+
+function Axes({ ticks, labels, format, y }: { ticks: number[]; labels: string[]; format: (value: number) => string; y: (value: number) => number }) {
+  const slot = PLOT_WIDTH / Math.max(labels.length, 1);
+  // Keep x labels readable on long hourly or 14-day charts
+  const every = Math.ceil(labels.length / 12);
+  return (
+    <g fontSize={9} fill="#6b7280">
+      {ticks.map((tick) => (
+        <text key={tick} x={MARGIN.left - 4} y={y(tick) + 3} textAnchor="end">{format(tick)}</text>
+      ))}
+      {labels.map((label, index) => index % every === 0 && (
+        <text key={index} x={MARGIN.left + slot * (index + 0.5)} y={HEIGHT - 6} textAnchor="middle">{label}</text>
+      ))}
+      <line x1={MARGIN.left} x2={WIDTH - MARGIN.right} y1={MARGIN.top + PLOT_HEIGHT} y2={MARGIN.top + PLOT_HEIGHT} stroke="#d1d5db" />
+    </g>
+  );
+}
+
+const ticksFor = (values: number[], floorAtZero: boolean) => {
+  const min = floorAtZero ? 0 : Math.min(...values);
+  const max = Math.max(...values);
+  return Array.from(new Set([min, (min + max) / 2, max].map((value) => Math.round(value))));
+};
+
+function Panel({ title, caption, children }: { title: string; caption?: string; children: ReactNode }) {
+  return (
+    <figure>
+      <figcaption className="text-xs font-semibold text-gray-700">{title}</figcaption>
+      {caption && <div className="text-xs text-gray-500">{caption}</div>}
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={title}>
+        {children}
+      </svg>
+    </figure>
+  );
+}
+
+export default function WeatherCharts({ points, percentiles, activity, preferences }: WeatherChartsProps) {
+  const history = percentiles && percentiles.sampleSize > 0 ? percentiles : undefined;
+  if (points.length === 0 && !history) return null;
+
+  const slot = PLOT_WIDTH / Math.max(points.length, 1);
+  const centre = (index: number) => MARGIN.left + slot * (index + 0.5);
+  const barWidth = Math.min(slot * 0.5, 40);
+  const labels = points.map((point) => point.label);
+  // A single forecast is compared with the same date in past years
+  const single = points.length === 1 ? points[0] : null;
+  const years = history ? `${history.startYear}–${history.endYear}` : '';
+
+  const temperatureBands: Band[] = history ? [{ percentiles: history.maxTemp, color: '#ef4444' }, { percentiles: history.minTemp, color: '#3b82f6' }] : [];
+  const temperatureValues = [
+    ...points.flatMap((point) => [point.temperature, point.temperatureMax ?? point.temperature, point.temperatureMin ?? point.temperature]),
+    ...bandValues(temperatureBands),
+    ...(activity ? [activity.comfortTemp.min, activity.comfortTemp.max] : []),
+  ];
+  const temperatureY = scale(temperatureValues, false);
+
+  const precipitationBands: Band[] = history ? [{ percentiles: history.precipitation, color: '#2563eb' }] : [];
+  const precipitationValues = [...points.map((point) => point.precipitation), ...bandValues(precipitationBands), ...(activity ? [activity.maxPrecipitation] : [])];
+  const precipitationY = scale(precipitationValues, true);
+
+  const windBands: Band[] = history ? [{ percentiles: history.windSpeed, color: '#64748b' }] : [];
+  const windValues = [...points.flatMap((point) => [point.windSpeed, point.windGusts ?? point.windSpeed]), ...bandValues(windBands), ...(activity ? [activity.maxWind] : [])];
+  const windY = scale(windValues, true);
+
+  const highCaption = single && history && single.temperatureMax !== undefined
+    ? `Forecast high ${formatTemperature(single.temperatureMax, preferences)} is ${describePercentile(single.temperatureMax, history.maxTemp)} of highs around this date (${years}).`
+    : undefined;
+  const rainCaption = single && history
+    ? `Forecast ${formatPrecipitation(single.precipitation, preferences)} is ${describePercentile(single.precipitation, history.precipitation)} of past days (${years}).`
+    : undefined;
+  const windCaption = single && history
+    ? `Forecast ${formatSpeed(single.windSpeed, preferences)} is ${describePercentile(single.windSpeed, history.windSpeed)} of past days (${years}).`
+    : undefined;
+
+  return (
+    <div className="mt-4 p-3 border border-gray-200 rounded-lg space-y-3">
+      <Panel title="🌡️ Temperature" caption={highCaption}>
+        <HistoryBands bands={temperatureBands} y={temperatureY} />
+        {activity && (
+          <>
+            <LimitLine value={activity.comfortTemp.max} label="comfort max" y={temperatureY} />
+            <LimitLine value={activity.comfortTemp.min} label="comfort min" y={temperatureY} />
+          </>
+        )}
+        {points.map((point, index) => (
+          <g key={index}>
+            {point.temperatureMax !== undefined && point.temperatureMin !== undefined && (
+              <rect
+                x={centre(index) - barWidth / 2}
+                width={barWidth}
+                y={temperatureY(point.temperatureMax)}
+                height={Math.max(1, temperatureY(point.temperatureMin) - temperatureY(point.temperatureMax))}
+                rx={3}
+                fill="#fb923c"
+                opacity={0.8}
+              />
+            )}
+            <circle cx={centre(index)} cy={temperatureY(point.temperature)} r={3} fill="#9a3412" />
+          </g>
+        ))}
+        <Axes ticks={ticksFor(temperatureValues, false)} labels={labels} format={(value) => formatTemperature(value, preferences)} y={temperatureY} />
+      </Panel>
+
+      <Panel title="🌧️ Precipitation" caption={rainCaption}>
+        <HistoryBands bands={precipitationBands} y={precipitationY} />
+        {activity && <LimitLine value={activity.maxPrecipitation} label={`${activity.label} limit`} y={precipitationY} />}
+        {points.map((point, index) => (
+          <rect
+            key={index}
+            x={centre(index) - barWidth / 2}
+            width={barWidth}
+            y={precipitationY(point.precipitation)}
+            height={Math.max(0, precipitationY(0) - precipitationY(point.precipitation))}
+            fill="#3b82f6"
+          />
+        ))}
+        <Axes ticks={ticksFor(precipitationValues, true)} labels={labels} format={(value) => formatPrecipitation(value, preferences)} y={precipitationY} />
+      </Panel>
+
+      <Panel title="💨 Wind" caption={windCaption}>
+        <HistoryBands bands={windBands} y={windY} />
+        {activity && <LimitLine value={activity.maxWind} label={`${activity.label} limit`} y={windY} />}
+        {points.map((point, index) => (
+          <g key={index}>
+            <rect
+              x={centre(index) - barWidth / 2}
+              width={barWidth}
+              y={windY(point.windSpeed)}
+              height={Math.max(0, windY(0) - windY(point.windSpeed))}
+              fill="#64748b"
+            />
+            {point.windGusts !== undefined && (
+              <line x1={centre(index) - barWidth / 2} x2={centre(index) + barWidth / 2} y1={windY(point.windGusts)} y2={windY(point.windGusts)} stroke="#0f172a" strokeWidth={2} />
+            )}
+          </g>
+        ))}
+        <Axes ticks={ticksFor(windValues, true)} labels={labels} format={(value) => formatSpeed(value, preferences)} y={windY} />
+      </Panel>
+
+      <div className="text-xs text-gray-500">
+        {points.length === 0 && 'No forecast this far ahead. '}
+        {points.some((point) => point.temperatureMax !== undefined) ? 'Orange bars span the low to the high; dots mark the mean. ' : points.length > 0 ? 'Dots mark the mean temperature. ' : ''}
+        {points.some((point) => point.windGusts !== undefined) ? 'Dark ticks mark gusts. ' : ''}
+        {history ? `Shading shows past years around this date (${years}, ${history.sampleSize} days): light for the 10th–90th percentile, darker for the middle half, dashed for the median; red for highs, blue for lows. ` : ''}
+        {activity ? `Green dotted lines are ${activity.label.toLowerCase()} limits.` : ''}
+      </div>
+    </div>
+  );
+}
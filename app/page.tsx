@@ -1,63 +1,131 @@
 // app/page.tsx
-// app/page.tsx
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, User, Bot, Plus, Satellite, Database, Cloud, MapPin, Calendar } from 'lucide-react';
-
-interface Message {
-  id: string;
-  text: string;
-  sender: 'bot' | 'user';
-  timestamp: Date;
-  riskData?: RiskData;
-  dataSources?: string[];
-}
-
-interface RiskData {
-  hot: number;
-  cold: number;
-  windy: number;
-  wet: number;
-  uncomfortable: number;
-}
-
-interface ChatState {
-  stage: 'event' | 'location' | 'date';
-  eventType: string | null;
-  location: string | null;
-  date: string | null;
-}
-
-interface NASAWeatherData {
-  temperature: number;
-  precipitation: number;
-  humidity: number;
-  windSpeed: number;
-  cloudCover: number;
-  lat: number;
-  lon: number;
-  locationName: string;
-}
+import { Send, User, Bot, Plus, Satellite, Database, Cloud, MapPin, Calendar, SlidersHorizontal, Bell } from 'lucide-react';
+import { apiProviders, createWatch, deleteWatch, fetchWatches, updateWatch } from '../lib/client';
+import { formatHour, formatLongDate, formatShortDate } from '../lib/dates';
+import { converse, greeting, initialChatState, type ConversationInput, type MessageDetails } from '../lib/conversation';
+import { formatCoordinates, formatPlace } from '../lib/geocode';
+import { BUILT_IN_ACTIVITIES, findActivity, localizeActivity, mergeActivities } from '../lib/activities';
+import { loadStoredActivities, saveStoredActivities } from '../lib/activityStore';
+import { DEFAULT_PREFERENCES, LOCALES, UNIT_SYSTEMS, formatPrecipitation, formatSpeed, formatTemperature } from '../lib/units';
+import { loadPreferences, savePreferences } from '../lib/preferencesStore';
+import { LANGUAGES, defaultLocale, fill, languageOf, messagesFor, textDirection } from '../lib/i18n';
+import { loadAlertsSeenAt, loadWatchOwner, saveAlertsSeenAt } from '../lib/watchOwnerStore';
+import { conversationTitle, createConversation, getConversationStore, renameConversation } from '../lib/history';
+import ActivityManager from './components/ActivityManager';
+import ConversationSidebar from './components/ConversationSidebar';
+import DataSources from './components/DataSources';
+import RiskCards, { scoredConditions } from './components/RiskCards';
+import ExportMenu from './components/ExportMenu';
+import WatchButton from './components/WatchButton';
+import WatchList from './components/WatchList';
+import WeatherCharts, { dayPoints, hourPoints, type ChartPoint } from './components/WeatherCharts';
+import { isExportable } from '../lib/export';
+import { reportPermalink } from '../lib/permalink';
+import { dataKindOf } from '../lib/provenance';
+import type { ActivityProfile, ChatMessage, ChatState, ConversationSummary, Coordinates, DayRisk, DisplayPreferences, HourRisk, Language, LocationRisk, NASAWeatherData, RankedDay, ReportContext, RiskData, SavedConversation, WatchChannel, WatchedEvent, WatchThresholds } from '../lib/types';
+
+type ConversationMeta = Pick<SavedConversation, 'id' | 'title' | 'titleEdited' | 'createdAt'>;
+
+// Pause before each bot reply, so replies read like they are being typed
+const TYPING_MS = 1200;
+
+const pause = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const createGreeting = (language?: Language): ChatMessage => ({
+  id: '1',
+  text: greeting(language),
+  sender: 'bot',
+  timestamp: new Date(),
+});
+
+const newConversationMeta = (language?: Language): ConversationMeta => {
+  const { id, title, createdAt } = createConversation([], initialChatState, language);
+  return { id, title, createdAt };
+};
+
+const peakRisk = (risks: RiskData) => Math.max(...scoredConditions(risks).map((condition) => risks[condition.key]));
+
+const worstDayOf = (days: DayRisk[]) => days.reduce((a, b) => (peakRisk(b.risks) > peakRisk(a.risks) ? b : a));
+
+const worstHourOf = (hours: HourRisk[]) => hours.reduce((a, b) => (peakRisk(b.risks) > peakRisk(a.risks) ? b : a));
+
+// Lowest combined risk; the first place given wins a tie, matching the server
+const bestLocationOf = (locations: LocationRisk[]) => locations.reduce((a, b) => (b.score < a.score ? b : a));
+
+// The server re-checks watches hourly; polling more often only catches alerts sooner
+const WATCH_POLL_MS = 5 * 60 * 1000;
+
+// Browser-channel alerts newer than the last ones shown become notifications.
+// The first poll in a browser only records the time, so old alerts aren't replayed.
+const notifyNewAlerts = (watches: WatchedEvent[]) => {
+  const seenAt = loadAlertsSeenAt();
+  if (!seenAt) {
+    saveAlertsSeenAt(new Date().toISOString());
+    return;
+  }
+  const fresh = watches
+    .filter((watch) => watch.channel.type === 'browser')
+    .flatMap((watch) => watch.alerts.filter((alert) => alert.createdAt > seenAt).map((alert) => ({ watch, alert })));
+  if (fresh.length === 0) return;
+
+  saveAlertsSeenAt(fresh.map(({ alert }) => alert.createdAt).sort().pop()!);
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  for (const { watch, alert } of fresh) {
+    // In the watch's own language, like its alert reasons
+    const language = languageOf(watch.preferences);
+    const activity = localizeActivity(watch.activity, language);
+    const title = fill(messagesFor(language).report.title, { activity: `${activity.emoji} ${activity.label}`, location: watch.location.name });
+    new Notification(title, { body: alert.reasons.join('\n'), tag: alert.id });
+  }
+};
+
+// Seasonal estimates aren't a forecast, so they are left off the charts
+const isForecast = (weather: NASAWeatherData) => dataKindOf(weather.provenance) !== 'estimate';
+
+// What a report message can chart: its hours, its forecast days, or its one day
+const chartPointsOf = (message: ChatMessage, locale: string): ChartPoint[] | null => {
+  if (message.hourlyRisks) return hourPoints(message.hourlyRisks);
+  if (message.dailyRisks) return dayPoints(message.dailyRisks.filter((day) => isForecast(day.weather)), locale);
+  if (message.weatherData && message.report) {
+    return isForecast(message.weatherData) ? dayPoints([{ date: message.report.date, weather: message.weatherData }], locale) : [];
+  }
+  return null;
+};
+
+const riskCellColor = (value: number) =>
+  value >= 60 ? 'bg-red-100 text-red-800' : value >= 30 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800';
 
 export default function Home() {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      text: "Hey! 👋 I'm WeatherBot, powered by real NASA Earth observation data. I can predict if adverse weather might ruin your outdoor plans!\n\nI'll analyze chances of extreme heat, cold, wind, rain, and uncomfortable conditions using satellite data and AI analysis.\n\nWhat kind of outdoor adventure are you planning?",
-      sender: 'bot',
-      timestamp: new Date(),
-    },
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [createGreeting()]);
   const [input, setInput] = useState('');
-  const [isTyping, setIsTyping] = useState(false);
-  const [chatState, setChatState] = useState<ChatState>({
-    stage: 'event',
-    eventType: null,
-    location: null,
-    date: null,
-  });
+  const [chatState, setChatState] = useState<ChatState>(initialChatState);
+  // Latest state for inputs sent while a report is still running
+  const chatStateRef = useRef(chatState);
+  // Defaults render on the server; saved profiles and preferences load once mounted
+  const [storedActivities, setStoredActivities] = useState<ActivityProfile[]>([]);
+  const [showActivityManager, setShowActivityManager] = useState(false);
+  const [preferences, setPreferences] = useState<DisplayPreferences>(DEFAULT_PREFERENCES);
+  const [conversation, setConversation] = useState<ConversationMeta>(newConversationMeta);
+  // Replies belong to the chat that was open when they were asked for
+  const conversationIdRef = useRef(conversation.id);
+  // The chat waiting on a reply, if any; it takes no new input until then
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const pendingIdRef = useRef(pendingId);
+  const isTyping = pendingId === conversation.id;
+  const [conversations, setConversations] = useState<ConversationSummary[]>([]);
+  const [watchOwner, setWatchOwner] = useState<string | null>(null);
+  const [watches, setWatches] = useState<WatchedEvent[]>([]);
+  const [showWatchList, setShowWatchList] = useState(false);
+  // Set when a saved chat is restored, so reopening it doesn't count as an update
+  const restoredRef = useRef(false);
+  const activities = storedActivities.length > 0 ? mergeActivities(storedActivities) : BUILT_IN_ACTIVITIES;
+  const language = languageOf(preferences);
+  const { chat, page } = messagesFor(language);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -67,349 +135,258 @@ export default function Home() {
     scrollToBottom();
   }, [messages, isTyping]);
 
-  const eventTypes = [
-    { value: 'vacation', emoji: '🏖️', label: 'Beach Day' },
-    { value: 'hiking', emoji: '🥾', label: 'Hiking' },
-    { value: 'fishing', emoji: '🎣', label: 'Fishing' },
-    { value: 'picnic', emoji: '🧺', label: 'Picnic' },
-    { value: 'sports', emoji: '⚽', label: 'Sports' },
-    { value: 'camping', emoji: '⛺', label: 'Camping' },
-  ];
-
-  // NASA API Integration - Free services
-  const getCoordinatesFromLocation = async (location: string): Promise<{ lat: number; lon: number; name: string }> => {
-    try {
-      const response = await fetch(
-        `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(location)}&count=1`
-      );
-      const data = await response.json();
-      
-      if (data.results && data.results.length > 0) {
-        return {
-          lat: data.results[0].latitude,
-          lon: data.results[0].longitude,
-          name: data.results[0].name
-        };
-      }
-      throw new Error('Location not found');
-    } catch (error) {
-      // Fallback to major cities
-      const fallbackCities: Record<string, { lat: number; lon: number; name: string }> = {
-        'new york': { lat: 40.7128, lon: -74.0060, name: 'New York' },
-        'london': { lat: 51.5074, lon: -0.1278, name: 'London' },
-        'tokyo': { lat: 35.6762, lon: 139.6503, name: 'Tokyo' },
-        'paris': { lat: 48.8566, lon: 2.3522, name: 'Paris' },
-        'sydney': { lat: -33.8688, lon: 151.2093, name: 'Sydney' },
-        'mumbai': { lat: 19.0760, lon: 72.8777, name: 'Mumbai' },
-      };
-      
-      const normalizedLocation = location.toLowerCase();
-      for (const [city, coords] of Object.entries(fallbackCities)) {
-        if (normalizedLocation.includes(city)) {
-          return coords;
-        }
-      }
-      
-      // Default to New York
-      return { lat: 40.7128, lon: -74.0060, name: 'New York' };
-    }
-  };
+  // Disabling the input drops its focus, so it gets it back with the reply
+  useEffect(() => {
+    if (!isTyping && messages.some((message) => message.sender === 'user')) inputRef.current?.focus();
+  }, [isTyping]);
 
-  const getNASAWeatherData = async (lat: number, lon: number, date: string): Promise<NASAWeatherData> => {
-    try {
-      // Using Open-Meteo API which provides NASA GFS data (free)
-      const response = await fetch(
-        `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=temperature_2m_max,temperature_2m_min,precipitation_sum,wind_speed_10m_max,relative_humidity_2m_mean,cloud_cover_mean&timezone=auto&start_date=${date}&end_date=${date}`
-      );
-      
-      const data = await response.json();
-      
-      if (data.daily) {
-        return {
-          temperature: (data.daily.temperature_2m_max[0] + data.daily.temperature_2m_min[0]) / 2,
-          precipitation: data.daily.precipitation_sum[0],
-          humidity: data.daily.relative_humidity_2m_mean[0],
-          windSpeed: data.daily.wind_speed_10m_max[0],
-          cloudCover: data.daily.cloud_cover_mean[0],
-          lat,
-          lon,
-          locationName: 'Current Location'
-        };
-      }
-      
-      throw new Error('No weather data available');
-    } catch (error) {
-      console.error('Error fetching weather data:', error);
-      // Fallback data based on location and season
-      return generateFallbackData(lat, lon, date);
+  useEffect(() => {
+    setStoredActivities(loadStoredActivities());
+    setPreferences(loadPreferences());
+    setWatchOwner(loadWatchOwner());
+    getConversationStore().list()
+      .then(setConversations)
+      .catch((error) => console.error('Error loading conversations:', error));
+  }, []);
+
+  useEffect(() => {
+    if (!watchOwner) return;
+    const poll = () => fetchWatches(watchOwner)
+      .then((list) => {
+        setWatches(list);
+        notifyNewAlerts(list);
+      })
+      .catch((error) => console.error('Error loading watches:', error));
+    poll();
+    const timer = setInterval(poll, WATCH_POLL_MS);
+    return () => clearInterval(timer);
+  }, [watchOwner]);
+
+  // A chat nobody has answered yet greets, and is titled, in the chosen language
+  useEffect(() => {
+    setMessages((prev) => (prev.length === 1 && prev[0].id === '1' ? [createGreeting(language)] : prev));
+    if (!messages.some((message) => message.sender === 'user')) {
+      setConversation((prev) => (prev.titleEdited ? prev : { ...prev, title: messagesFor(language).history.newChat }));
     }
-  };
+  }, [language]);
 
-  const generateFallbackData = (lat: number, lon: number, date: string): NASAWeatherData => {
-    const eventDate = new Date(date);
-    const month = eventDate.getMonth();
-    const isNorthern = lat > 0;
-    
-    // Seasonal adjustments
-    let tempBase = 20;
-    let precipitationBase = 2;
-    
-    if (isNorthern) {
-      if (month >= 11 || month <= 2) tempBase = 5; // Winter
-      if (month >= 3 && month <= 5) tempBase = 15; // Spring
-      if (month >= 6 && month <= 8) tempBase = 25; // Summer
-      if (month >= 9 && month <= 10) tempBase = 18; // Fall
-    } else {
-      if (month >= 11 || month <= 2) tempBase = 25; // Summer
-      if (month >= 3 && month <= 5) tempBase = 18; // Fall
-      if (month >= 6 && month <= 8) tempBase = 5;  // Winter
-      if (month >= 9 && month <= 10) tempBase = 15; // Spring
+  useEffect(() => {
+    if (conversation.titleEdited) return;
+    const title = conversationTitle(chatState, activities, preferences.locale);
+    if (title && title !== conversation.title) {
+      setConversation((prev) => ({ ...prev, title }));
     }
-    
-    // Add some randomness
-    const tempVariation = (Math.random() - 0.5) * 10;
-    const precipVariation = Math.random() * 5;
-    
-    return {
-      temperature: tempBase + tempVariation,
-      precipitation: Math.max(0, precipitationBase + precipVariation),
-      humidity: 60 + (Math.random() - 0.5) * 30,
-      windSpeed: 5 + Math.random() * 15,
-      cloudCover: Math.random() * 100,
-      lat,
-      lon,
-      locationName: 'Estimated Data'
-    };
-  };
+  }, [chatState]);
 
-  // Gemini AI Integration
-  const analyzeWithGemini = async (weatherData: NASAWeatherData, eventType: string, date: string): Promise<{ risks: RiskData; analysis: string; dataSources: string[] }> => {
-    try {
-      // For demo purposes, we'll simulate Gemini analysis
-      // In production, you would use: await fetch('https://generativelanguage.googleapis.com/v1/models/gemini-pro:generateContent?key=YOUR_API_KEY', {...})
-      
-      const analysis = await simulateGeminiAnalysis(weatherData, eventType, date);
-      return analysis;
-    } catch (error) {
-      console.error('Error with Gemini API:', error);
-      return simulateGeminiAnalysis(weatherData, eventType, date);
+  useEffect(() => {
+    if (restoredRef.current) {
+      restoredRef.current = false;
+      return;
     }
+    // Nothing worth keeping until the user has said something
+    if (!messages.some((message) => message.sender === 'user')) return;
+
+    const saved: SavedConversation = { ...conversation, updatedAt: new Date().toISOString(), messages, chatState };
+    getConversationStore().save(saved).catch((error) => console.error('Error saving conversation:', error));
+    setConversations((prev) => [
+      { id: saved.id, title: saved.title, updatedAt: saved.updatedAt },
+      ...prev.filter((entry) => entry.id !== saved.id),
+    ]);
+  }, [messages, chatState, conversation]);
+
+  const updatePreferences = (changes: Partial<DisplayPreferences>) => {
+    const next = { ...preferences, ...changes };
+    setPreferences(next);
+    savePreferences(next);
   };
 
-  const simulateGeminiAnalysis = async (weatherData: NASAWeatherData, eventType: string, date: string): Promise<{ risks: RiskData; analysis: string; dataSources: string[] }> => {
-    // Calculate risks based on real weather data
-    const risks = calculateRisksFromRealData(weatherData, eventType);
-    
-    const dataSources = [
-      'NASA Global Forecast System (GFS)',
-      'Open-Meteo Weather API',
-      'Historical Climate Patterns',
-      'Satellite Atmospheric Analysis'
-    ];
-
-    const maxRisk = Math.max(...Object.values(risks));
-    const maxRiskKey = Object.keys(risks).find(key => risks[key as keyof RiskData] === maxRisk) as keyof RiskData;
-    
-    const riskLabels = {
-      hot: 'extreme heat',
-      cold: 'freezing temperatures',
-      windy: 'high winds',
-      wet: 'heavy precipitation',
-      uncomfortable: 'uncomfortable conditions'
-    };
+  // Every measurement and date in chat text goes through these
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences);
+  const speed = (kmh: number) => formatSpeed(kmh, preferences);
+  const precipitation = (mm: number) => formatPrecipitation(mm, preferences);
+  const longDate = (iso: string) => formatLongDate(iso, preferences.locale);
 
-    let analysis = `Based on NASA satellite data and atmospheric analysis for ${weatherData.locationName} on ${date}:\n\n`;
-    
-    if (maxRisk < 30) {
-      analysis += `✅ Excellent conditions for ${eventType}! All weather parameters are within optimal ranges. `;
-      analysis += `Temperature: ${Math.round(weatherData.temperature)}°C, Wind: ${Math.round(weatherData.windSpeed)} km/h, Precipitation: ${weatherData.precipitation.toFixed(1)}mm.`;
-    } else if (maxRisk < 60) {
-      analysis += `⚠️ Moderate risk of ${riskLabels[maxRiskKey]} for ${eventType}. `;
-      analysis += `Consider preparing for ${Math.round(maxRisk)}% chance of challenging conditions. `;
-      analysis += `Current forecast: ${Math.round(weatherData.temperature)}°C, ${Math.round(weatherData.windSpeed)} km/h winds.`;
-    } else {
-      analysis += `🚨 High risk of ${riskLabels[maxRiskKey]} for ${eventType}! `;
-      analysis += `Strongly consider rescheduling due to ${Math.round(maxRisk)}% chance of adverse conditions. `;
-      analysis += `Forecast shows ${Math.round(weatherData.temperature)}°C with ${weatherData.precipitation.toFixed(1)}mm precipitation.`;
-    }
+  const updateStoredActivities = (profiles: ActivityProfile[]) => {
+    setStoredActivities(profiles);
+    saveStoredActivities(profiles);
+  };
 
-    return { risks, analysis, dataSources };
+  const saveActivity = (profile: ActivityProfile) => {
+    updateStoredActivities([...storedActivities.filter((stored) => stored.id !== profile.id), profile]);
   };
 
-  const calculateRisksFromRealData = (weatherData: NASAWeatherData, eventType: string): RiskData => {
-    const baseRisks = {
-      hot: Math.max(5, Math.min(95, (weatherData.temperature - 25) * 3)),
-      cold: Math.max(5, Math.min(95, (5 - weatherData.temperature) * 4)),
-      windy: Math.max(5, Math.min(95, weatherData.windSpeed * 2)),
-      wet: Math.max(5, Math.min(95, weatherData.precipitation * 10 + weatherData.humidity * 0.3)),
-      uncomfortable: Math.max(5, Math.min(95, Math.abs(weatherData.temperature - 20) * 2 + weatherData.humidity * 0.2))
-    };
+  const removeActivity = (id: string) => {
+    updateStoredActivities(storedActivities.filter((stored) => stored.id !== id));
+  };
 
-    // Event-specific adjustments
-    const eventAdjustments: Record<string, Partial<RiskData>> = {
-      vacation: { hot: 10, wet: 15, uncomfortable: 5 },
-      hiking: { hot: 15, cold: 10, windy: 10, wet: 20 },
-      fishing: { windy: 20, wet: 25, uncomfortable: 10 },
-      picnic: { wet: 30, windy: 15, hot: 10 },
-      sports: { hot: 25, wet: 20, uncomfortable: 15 },
-      camping: { cold: 20, wet: 25, windy: 10, uncomfortable: 15 },
-    };
+  const permalinkFor = (report: ReportContext) => {
+    const activity = findActivity(report.activityId, activities);
+    return activity ? reportPermalink(report, activity, preferences) : null;
+  };
+
+  const watchReport = (report: ReportContext) => async (thresholds: WatchThresholds, channel: WatchChannel) => {
+    const activity = findActivity(report.activityId, activities);
+    if (!activity || !watchOwner) throw new Error('This report can no longer be watched');
+    const location = { lat: report.lat!, lon: report.lon!, name: report.location };
+    const watch = await createWatch(watchOwner, activity, location, report.date, preferences, thresholds, channel);
+    setWatches((prev) => [watch, ...prev]);
+  };
 
-    const adjustments = eventAdjustments[eventType] || {};
-    Object.keys(adjustments).forEach((key) => {
-      const k = key as keyof RiskData;
-      baseRisks[k] = Math.max(5, Math.min(95, baseRisks[k] + (adjustments[k] || 0)));
-    });
+  const updateWatchThresholds = async (id: string, thresholds: WatchThresholds) => {
+    try {
+      const updated = await updateWatch(id, watchOwner!, { thresholds });
+      setWatches((prev) => prev.map((watch) => (watch.id === id ? updated : watch)));
+    } catch (error) {
+      console.error('Error updating watch:', error);
+    }
+  };
 
-    return baseRisks;
+  const removeWatch = async (id: string) => {
+    setWatches((prev) => prev.filter((watch) => watch.id !== id));
+    await deleteWatch(id, watchOwner!).catch((error) => console.error('Error deleting watch:', error));
   };
 
-  const addMessage = (text: string, sender: 'bot' | 'user', riskData?: RiskData, dataSources?: string[]) => {
-    const newMessage: Message = {
+  const addMessage = (text: string, sender: 'bot' | 'user', details: MessageDetails = {}) => {
+    const newMessage: ChatMessage = {
       id: Date.now().toString(),
       text,
       sender,
       timestamp: new Date(),
-      riskData,
-      dataSources,
+      ...details,
     };
     setMessages((prev) => [...prev, newMessage]);
   };
 
-  const simulateTyping = (callback: () => void, delay = 1200) => {
-    setIsTyping(true);
-    setTimeout(() => {
-      setIsTyping(false);
-      callback();
-    }, delay);
+  const updateChatState = (state: ChatState) => {
+    chatStateRef.current = state;
+    setChatState(state);
   };
 
-  const processMessage = (message: string) => {
-    const lowerMsg = message.toLowerCase();
-
-    if (chatState.stage === 'event') {
-      const eventMap: Record<string, string[]> = {
-        vacation: ['vacation', 'holiday', 'beach', 'trip'],
-        hiking: ['hike', 'hiking', 'trail', 'trek', 'mountain'],
-        fishing: ['fish', 'fishing', 'angling'],
-        picnic: ['picnic', 'outdoor meal', 'park'],
-        sports: ['sport', 'game', 'match', 'athletic', 'exercise'],
-        camping: ['camp', 'camping', 'tent'],
-      };
-
-      for (const [event, keywords] of Object.entries(eventMap)) {
-        if (keywords.some((keyword) => lowerMsg.includes(keyword))) {
-          setChatState((prev) => ({ ...prev, eventType: event, stage: 'location' }));
-          simulateTyping(() => {
-            const responses = [
-              `Awesome! ${event.charAt(0).toUpperCase() + event.slice(1)} is amazing! Now, where's this happening? Drop me a city name!`,
-              `Nice choice! ${event.charAt(0).toUpperCase() + event.slice(1)} sounds fun! What's the location?`,
-              `Perfect! I love ${event}! Where are you heading?`,
-            ];
-            addMessage(responses[Math.floor(Math.random() * responses.length)], 'bot');
-          });
-          return;
-        }
-      }
+  const setPending = (id: string | null) => {
+    pendingIdRef.current = id;
+    setPendingId(id);
+  };
 
-      simulateTyping(() => {
-        addMessage("Hmm, I'm not quite sure about that activity. Try: vacation, hiking, fishing, picnic, sports, or camping!", 'bot');
-      });
-    } else if (chatState.stage === 'location') {
-      setChatState((prev) => ({ ...prev, location: message, stage: 'date' }));
-      simulateTyping(() => {
-        const responses = [
-          `Got it! ${message} it is! When's the big day? Use format YYYY-MM-DD`,
-          `${message} - sounds great! What date are we looking at? (YYYY-MM-DD)`,
-          `Perfect! I've got ${message} locked in. Now, what's the date? (YYYY-MM-DD)`,
-        ];
-        addMessage(responses[Math.floor(Math.random() * responses.length)], 'bot');
-      });
-    } else if (chatState.stage === 'date') {
-      setChatState((prev) => ({ ...prev, date: message }));
-      simulateTyping(() => {
-        addMessage('🛰️ Accessing NASA satellite data and atmospheric models...', 'bot');
-        
-        setTimeout(() => {
-          generateRealWeatherReport(message);
-        }, 2000);
-      }, 1500);
-    }
+  const switchConversation = (meta: ConversationMeta) => {
+    conversationIdRef.current = meta.id;
+    setConversation(meta);
   };
 
-  const generateRealWeatherReport = async (date: string) => {
+  // Runs one input through the conversation engine, showing each reply as it
+  // comes. Replies that arrive after another chat was opened are dropped.
+  const send = async (input: ConversationInput) => {
+    const conversationId = conversationIdRef.current;
+    const isCurrent = () => conversationIdRef.current === conversationId;
+    setPending(conversationId);
     try {
-      addMessage('📡 Connecting to NASA data sources and analyzing patterns...', 'bot');
-      
-      // Get coordinates from location
-      const coords = await getCoordinatesFromLocation(chatState.location!);
-      
-      // Get real weather data
-      const weatherData = await getNASAWeatherData(coords.lat, coords.lon, date);
-      
-      // Analyze with AI
-      const analysis = await analyzeWithGemini(weatherData, chatState.eventType!, date);
-      
-      const report = `${analysis.analysis}\n\n**Real-time Data:**\n• Temperature: ${Math.round(weatherData.temperature)}°C\n• Wind Speed: ${Math.round(weatherData.windSpeed)} km/h\n• Precipitation: ${weatherData.precipitation.toFixed(1)}mm\n• Humidity: ${Math.round(weatherData.humidity)}%\n• Cloud Cover: ${Math.round(weatherData.cloudCover)}%`;
-      
-      addMessage(report, 'bot', analysis.risks, analysis.dataSources);
-
-      setTimeout(() => {
-        simulateTyping(() => {
-          addMessage("Want to check another event with real NASA data? Just tell me what you're planning!", 'bot');
-          setChatState({ stage: 'event', eventType: null, location: null, date: null });
-        });
-      }, 2000);
-      
-    } catch (error) {
-      console.error('Error generating report:', error);
-      addMessage("I encountered an issue accessing real-time NASA data. Please try again in a moment.", 'bot');
+      await converse(chatStateRef.current, input, { activities, preferences }, apiProviders, async ({ state, messages }) => {
+        if (!isCurrent()) return;
+        updateChatState(state);
+        for (const message of messages) {
+          await pause(TYPING_MS);
+          if (!isCurrent()) return;
+          addMessage(message.text, 'bot', message.details);
+        }
+      });
+    } finally {
+      if (pendingIdRef.current === conversationId) setPending(null);
     }
   };
 
+  // Shows what the user said and sends it, unless this chat is still waiting
+  // on a reply
+  const say = (text: string, input: ConversationInput) => {
+    if (pendingIdRef.current === conversationIdRef.current) return false;
+    addMessage(text, 'user');
+    send(input);
+    return true;
+  };
+
   const handleSend = () => {
-    if (!input.trim()) return;
-    
-    addMessage(input, 'user');
-    const userMessage = input;
-    setInput('');
-    
-    setTimeout(() => {
-      processMessage(userMessage);
-    }, 300);
+    if (input.trim() && say(input, { type: 'message', text: input })) setInput('');
   };
 
-  const handleQuickReply = (event: string, label: string) => {
-    addMessage(`I'm planning ${label.toLowerCase()}`, 'user');
-    setChatState((prev) => ({ ...prev, eventType: event, stage: 'location' }));
-    
-    setTimeout(() => {
-      simulateTyping(() => {
-        const responses = [
-          `${label} sounds amazing! Where's this adventure taking place?`,
-          `Great choice! What's the location for your ${label.toLowerCase()}?`,
-          `Perfect! Where are you heading for this ${label.toLowerCase()}?`,
-        ];
-        addMessage(responses[Math.floor(Math.random() * responses.length)], 'bot');
-      });
-    }, 300);
+  const handleQuickReply = (activity: ActivityProfile) => {
+    say(fill(chat.planning, { activity: localizeActivity(activity, language).label.toLowerCase() }), { type: 'activity', activity });
+  };
+
+  const handleLocationChoice = (place: Coordinates) => {
+    say(formatPlace(place), { type: 'place', place });
+  };
+
+  const openRankedDay = (day: RankedDay, ranking: ReportContext) => {
+    say(fill(chat.fullReport, { date: longDate(day.date) }), { type: 'rankedDay', day, ranking });
   };
 
   const startNewChat = () => {
-    setMessages([
-      {
-        id: '1',
-        text: "Hey! 👋 I'm WeatherBot, powered by real NASA Earth observation data. I can predict if adverse weather might ruin your outdoor plans!\n\nI'll analyze chances of extreme heat, cold, wind, rain, and uncomfortable conditions using satellite data and AI analysis.\n\nWhat kind of outdoor adventure are you planning?",
-        sender: 'bot',
-        timestamp: new Date(),
-      },
-    ]);
-    setChatState({ stage: 'event', eventType: null, location: null, date: null });
+    setMessages([createGreeting(language)]);
+    updateChatState(initialChatState);
+    switchConversation(newConversationMeta(language));
+  };
+
+  const openConversation = async (id: string) => {
+    if (id === conversation.id) return;
+    try {
+      const saved = await getConversationStore().get(id);
+      if (!saved) return;
+      restoredRef.current = true;
+      setMessages(saved.messages);
+      updateChatState(saved.chatState);
+      switchConversation({ id: saved.id, title: saved.title, titleEdited: saved.titleEdited, createdAt: saved.createdAt });
+    } catch (error) {
+      console.error('Error opening conversation:', error);
+    }
+  };
+
+  const renameChat = async (id: string, title: string) => {
+    setConversations((prev) => prev.map((entry) => (entry.id === id ? { ...entry, title } : entry)));
+    if (id === conversation.id) {
+      setConversation((prev) => ({ ...prev, title, titleEdited: true }));
+      return;
+    }
+    await renameConversation(getConversationStore(), id, title).catch((error) => console.error('Error renaming conversation:', error));
+  };
+
+  const deleteChat = async (id: string) => {
+    setConversations((prev) => prev.filter((entry) => entry.id !== id));
+    if (id === conversation.id) startNewChat();
+    await getConversationStore().remove(id).catch((error) => console.error('Error deleting conversation:', error));
   };
 
   return (
     <div className="flex h-screen bg-gray-50">
       {/* Sidebar */}
+      <ConversationSidebar
+        conversations={conversations}
+        activeId={conversation.id}
+        locale={preferences.locale}
+        language={language}
+        onSelect={openConversation}
+        onNew={startNewChat}
+        onRename={renameChat}
+        onDelete={deleteChat}
+      />
+
+      {showActivityManager && (
+        <ActivityManager
+          activities={activities}
+          preferences={preferences}
+          storedIds={storedActivities.map((profile) => profile.id)}
+          onSave={saveActivity}
+          onRemove={removeActivity}
+          onClose={() => setShowActivityManager(false)}
+        />
+      )}
+
+      {showWatchList && (
+        <WatchList
+          watches={watches}
+          preferences={preferences}
+          onUpdate={updateWatchThresholds}
+          onRemove={removeWatch}
+          onClose={() => setShowWatchList(false)}
+        />
+      )}
 
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col">
@@ -421,14 +398,59 @@ export default function Home() {
             </div>
             <div>
               <h1 className="text-xl font-semibold text-gray-800">NASA WeatherBot</h1>
-              <p className="text-sm text-gray-600">Powered by Earth Observation Satellite Data</p>
+              <p className="text-sm text-gray-600">{page.tagline}</p>
             </div>
+            <select
+              value={preferences.units}
+              onChange={(e) => updatePreferences({ units: e.target.value as DisplayPreferences['units'] })}
+              aria-label={page.units}
+              className="ml-auto px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white"
+            >
+              {UNIT_SYSTEMS.map((system) => (
+                <option key={system.value} value={system.value}>{system.label}</option>
+              ))}
+            </select>
+            <select
+              value={language}
+              onChange={(e) => {
+                const next = e.target.value as Language;
+                updatePreferences({ language: next, locale: defaultLocale(next) });
+              }}
+              aria-label={page.language}
+              className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white"
+            >
+              {LANGUAGES.map((entry) => (
+                <option key={entry.value} value={entry.value}>{entry.label}</option>
+              ))}
+            </select>
+            <select
+              value={preferences.locale}
+              onChange={(e) => updatePreferences({ locale: e.target.value })}
+              aria-label={page.dateFormat}
+              className="px-2 py-2 border border-gray-300 rounded-lg text-sm text-gray-700 bg-white"
+            >
+              {LOCALES.map((locale) => (
+                <option key={locale.value} value={locale.value}>{locale.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setShowActivityManager(true)}
+              className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50"
+            >
+              <SlidersHorizontal className="w-4 h-4" /> {page.activities}
+            </button>
+            <button
+              onClick={() => setShowWatchList(true)}
+              className="flex items-center gap-2 px-3 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50"
+            >
+              <Bell className="w-4 h-4" /> {page.watches}{watches.some((watch) => !watch.expired) ? ` (${watches.filter((watch) => !watch.expired).length})` : ''}
+            </button>
           </div>
         </header>
 
         {/* Messages */}
         <div className="flex-1 overflow-y-auto bg-white">
-          <div className="max-w-4xl mx-auto py-8">
+          <div className="max-w-4xl mx-auto py-8" dir={textDirection(language)}>
             {messages.map((message) => (
               <div
                 key={message.id}
@@ -454,10 +476,10 @@ export default function Home() {
                   <div className="flex-1 min-w-0">
                     <div className="flex items-center gap-2 mb-2">
                       <span className="font-semibold text-gray-900">
-                        {message.sender === 'bot' ? 'NASA WeatherBot' : 'You'}
+                        {message.sender === 'bot' ? 'NASA WeatherBot' : page.you}
                       </span>
                       <span className="text-xs text-gray-500">
-                        {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        {message.timestamp.toLocaleTimeString(preferences.locale, { hour: '2-digit', minute: '2-digit' })}
                       </span>
                     </div>
                     
@@ -466,56 +488,211 @@ export default function Home() {
                         {message.text}
                       </p>
                       
-                      {message.dataSources && (
-                        <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
-                          <div className="text-sm font-semibold text-blue-900 mb-2">📡 Data Sources Used:</div>
-                          <div className="text-sm text-blue-800 space-y-1">
-                            {message.dataSources.map((source, index) => (
-                              <div key={index} className="flex items-center gap-2">
-                                <div className="w-1 h-1 bg-blue-500 rounded-full"></div>
-                                {source}
-                              </div>
-                            ))}
-                          </div>
-                        </div>
+                      {message.dataSources && <DataSources sources={message.dataSources} provenance={message.provenance} />}
+
+                      {message.report && chartPointsOf(message, preferences.locale) && (
+                        <WeatherCharts
+                          points={chartPointsOf(message, preferences.locale)!}
+                          percentiles={message.percentiles}
+                          activity={findActivity(message.report.activityId, activities) ?? undefined}
+                          preferences={preferences}
+                        />
                       )}
                       
                       {message.riskData && (
                         <div className="mt-6 space-y-4">
-                          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
-                            {[
-                              { key: 'hot', icon: '🔥', label: 'Hot', color: 'bg-gradient-to-br from-orange-400 to-red-500' },
-                              { key: 'cold', icon: '❄️', label: 'Cold', color: 'bg-gradient-to-br from-blue-400 to-cyan-500' },
-                              { key: 'windy', icon: '💨', label: 'Windy', color: 'bg-gradient-to-br from-gray-400 to-slate-500' },
-                              { key: 'wet', icon: '🌧️', label: 'Wet', color: 'bg-gradient-to-br from-blue-500 to-indigo-600' },
-                              { key: 'uncomfortable', icon: '😓', label: 'Humid', color: 'bg-gradient-to-br from-yellow-400 to-orange-500' },
-                            ].map((condition) => {
-                              const value = Math.round(message.riskData![condition.key as keyof RiskData]);
-                              return (
-                                <div
-                                  key={condition.key}
-                                  className={`${condition.color} rounded-lg p-3 text-white text-center shadow-sm`}
-                                >
-                                  <div className="text-lg mb-1">{condition.icon}</div>
-                                  <div className="text-sm font-bold">{value}%</div>
-                                  <div className="text-xs opacity-90">{condition.label}</div>
+                          {message.dailyRisks && (
+                            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{page.overall}</div>
+                          )}
+                          {message.hourlyRisks && (
+                            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{page.eventWindow}</div>
+                          )}
+                          {message.comparison && (
+                            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{fill(page.bestLocation, { place: bestLocationOf(message.comparison).weather.locationName })}</div>
+                          )}
+                          {message.bestDays && (
+                            <div className="text-xs font-semibold text-gray-500 uppercase tracking-wide">{fill(page.bestDay, { date: formatShortDate(message.bestDays[0].date, preferences.locale) })}</div>
+                          )}
+                          <RiskCards risks={message.riskData} language={language} />
+
+                          {message.hourlyRisks && (
+                            <div className="overflow-x-auto">
+                              <div className="flex gap-2 pb-1">
+                                {message.hourlyRisks.map((hour) => {
+                                  const peak = Math.round(peakRisk(hour.risks));
+                                  const isWorst = hour === worstHourOf(message.hourlyRisks!);
+                                  return (
+                                    <div
+                                      key={hour.time}
+                                      className={`${riskCellColor(peak)} flex-shrink-0 w-20 rounded-lg p-2 text-center text-xs ${isWorst ? 'ring-2 ring-red-400' : ''}`}
+                                    >
+                                      <div className="font-semibold">{formatHour(hour.hour, preferences.locale)}</div>
+                                      <div>🌡️ {temperature(hour.weather.temperature)}</div>
+                                      <div>🌧️ {Math.round(hour.weather.precipitationProbability)}%</div>
+                                      <div>💨 {speed(hour.weather.windGusts)}</div>
+                                      <div className="font-bold mt-1">{peak}%</div>
+                                      {isWorst && <div className="text-[10px] font-semibold uppercase">{page.worstHour}</div>}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            </div>
+                          )}
+
+                          {message.dailyRisks && (
+                            <div className="overflow-x-auto">
+                              <table className="w-full text-sm border-separate border-spacing-1">
+                                <thead>
+                                  <tr>
+                                    <th className="text-left text-xs font-semibold text-gray-500 px-2">{page.columns.day}</th>
+                                    {scoredConditions(message.riskData, language).map((condition) => (
+                                      <th key={condition.key} className="text-xs font-semibold text-gray-500">
+                                        {condition.icon} {condition.label}
+                                      </th>
+                                    ))}
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {message.dailyRisks.map((day) => {
+                                    const isWorst = day === worstDayOf(message.dailyRisks!);
+                                    return (
+                                      <tr key={day.date} className={isWorst ? 'ring-2 ring-red-400 rounded' : ''}>
+                                        <td className="px-2 text-gray-700 whitespace-nowrap">
+                                          {formatShortDate(day.date, preferences.locale)}
+                                          {day.climatology && <span className="ml-1 text-xs text-gray-400" title={page.climatology}>📊</span>}
+                                        </td>
+                                        {scoredConditions(message.riskData, language).map((condition) => {
+                                          const value = Math.round(day.risks[condition.key]);
+                                          return (
+                                            <td key={condition.key} className={`${riskCellColor(value)} rounded text-center font-semibold py-1`}>
+                                              {value}%
+                                            </td>
+                                          );
+                                        })}
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+
+                          {message.comparison && (
+                            <div className="overflow-x-auto">
+                              <table className="w-full text-sm border-separate border-spacing-1">
+                                <thead>
+                                  <tr>
+                                    <th className="text-left text-xs font-semibold text-gray-500 px-2">{page.columns.place}</th>
+                                    {scoredConditions(message.riskData, language).map((condition) => (
+                                      <th key={condition.key} className="text-xs font-semibold text-gray-500">
+                                        {condition.icon} {condition.label}
+                                      </th>
+                                    ))}
+                                    <th className="text-xs font-semibold text-gray-500">{page.columns.temperature}</th>
+                                    <th className="text-xs font-semibold text-gray-500">{page.columns.wind}</th>
+                                    <th className="text-xs font-semibold text-gray-500">{page.columns.rain}</th>
+                                    <th className="text-xs font-semibold text-gray-500">{page.columns.overall}</th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {message.comparison.map((entry) => {
+                                    const isBest = entry === bestLocationOf(message.comparison!);
+                                    const conditions = entry.climatology ? { ...entry.weather, ...entry.climatology.means } : entry.weather;
+                                    return (
+                                      <tr key={`${entry.weather.lat},${entry.weather.lon}`} className={isBest ? 'ring-2 ring-green-500 rounded' : ''}>
+                                        <td className="px-2 text-gray-700 whitespace-nowrap">
+                                          {isBest && '⭐ '}{entry.weather.locationName}
+                                          {entry.climatology && <span className="ml-1 text-xs text-gray-400" title={page.climatology}>📊</span>}
+                                        </td>
+                                        {scoredConditions(message.riskData, language).map((condition) => {
+                                          const value = Math.round(entry.risks[condition.key]);
+                                          return (
+                                            <td key={condition.key} className={`${riskCellColor(value)} rounded text-center font-semibold py-1`}>
+                                              {value}%
+                                            </td>
+                                          );
+                                        })}
+                                        <td className="text-center text-gray-700 whitespace-nowrap">{temperature(conditions.temperature)}</td>
+                                        <td className="text-center text-gray-700 whitespace-nowrap">{speed(conditions.windSpeed)}</td>
+                                        <td className="text-center text-gray-700 whitespace-nowrap">{precipitation(conditions.precipitation)}</td>
+                                        <td className={`${riskCellColor(entry.score)} rounded text-center font-semibold py-1`}>{Math.round(entry.score)}%</td>
+                                      </tr>
+                                    );
+                                  })}
+                                </tbody>
+                              </table>
+                            </div>
+                          )}
+
+                          {message.bestDays && (
+                            <div className="grid gap-3 md:grid-cols-3">
+                              {message.bestDays.map((day) => (
+                                <div key={day.date} className="border border-gray-200 rounded-lg p-3 text-sm">
+                                  <div className="flex items-center justify-between mb-1">
+                                    <span className="font-semibold text-gray-900">
+                                      {['🥇', '🥈', '🥉'][day.rank - 1] ?? `#${day.rank}`} {formatShortDate(day.date, preferences.locale)}
+                                    </span>
+                                    <span className={`${riskCellColor(day.score)} rounded px-2 py-0.5 text-xs font-semibold`}>
+                                      {fill(page.risk, { percent: Math.round(day.score) })}
+                                    </span>
+                                  </div>
+                                  <ul className="text-xs text-gray-600 space-y-0.5 mb-2">
+                                    {day.reasons.map((reason) => (
+                                      <li key={reason}>• {reason}</li>
+                                    ))}
+                                  </ul>
+                                  {message.report && (
+                                    <button
+                                      onClick={() => openRankedDay(day, message.report!)}
+                                      disabled={isTyping}
+                                      className="text-xs font-medium text-green-700 hover:underline disabled:opacity-50 disabled:no-underline"
+                                    >
+                                      {page.fullReport}
+                                    </button>
+                                  )}
                                 </div>
-                              );
-                            })}
-                          </div>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       )}
+
+                      {message.sender === 'bot' && isExportable(message) && (
+                        <ExportMenu message={message} preferences={preferences} permalink={permalinkFor(message.report)} />
+                      )}
+
+                      {/* Same single-day, single-place reports that can be shared */}
+                      {message.sender === 'bot' && message.report && watchOwner && permalinkFor(message.report) && (
+                        <WatchButton onWatch={watchReport(message.report)} />
+                      )}
                     </div>
-                    
-                    {message.sender === 'bot' && chatState.stage === 'event' && message.id === messages[messages.length - 1].id && (
+
+                    {message.sender === 'bot' && (chatState.stage === 'event' || chatState.stage === 'complete') && message.id === messages[messages.length - 1].id && (
+                      <div className="flex flex-wrap gap-2 mt-4">
+                        {activities.map((activity) => (
+                          <button
+                            key={activity.id}
+                            onClick={() => handleQuickReply(activity)}
+                            disabled={isTyping}
+                            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 hover:border-gray-400 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {activity.emoji} {localizeActivity(activity, language).label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+
+                    {message.sender === 'bot' && chatState.stage === 'location' && chatState.candidates.length > 0 && message.id === messages[messages.length - 1].id && (
                       <div className="flex flex-wrap gap-2 mt-4">
-                        {eventTypes.map((event) => (
+                        {chatState.candidates.map((place) => (
                           <button
-                            key={event.value}
-                            onClick={() => handleQuickReply(event.value, event.label)}
-                            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 hover:border-gray-400 transition-colors"
+                            key={`${place.lat},${place.lon}`}
+                            onClick={() => handleLocationChoice(place)}
+                            disabled={isTyping}
+                            className="px-3 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 hover:border-gray-400 transition-colors text-left disabled:opacity-50 disabled:cursor-not-allowed"
                           >
-                            {event.emoji} {event.label}
+                            <span className="flex items-center gap-1"><MapPin className="w-3 h-3" /> {formatPlace(place)}</span>
+                            <span className="block text-xs text-gray-500">{formatCoordinates(place)}</span>
                           </button>
                         ))}
                       </div>
@@ -541,7 +718,7 @@ export default function Home() {
                         <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
                         <div className="w-2 h-2 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
                       </div>
-                      <span>Accessing satellite data...</span>
+                      <span>{page.accessing}</span>
                     </div>
                   </div>
                 </div>
@@ -557,18 +734,21 @@ export default function Home() {
           <div className="max-w-3xl mx-auto">
             <div className="relative">
               <input
+                ref={inputRef}
                 type="text"
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyPress={(e) => e.key === 'Enter' && handleSend()}
-                placeholder="Ask about weather conditions for your event..."
-                className="w-full px-4 py-3 pr-12 bg-gray-50 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900 placeholder-gray-500"
+                disabled={isTyping}
+                placeholder={chat.inputPlaceholder}
+                dir="auto"
+                className="w-full px-4 py-3 pr-12 bg-gray-50 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 focus:border-transparent text-gray-900 placeholder-gray-500 disabled:opacity-60"
               />
               <button
                 onClick={handleSend}
-                disabled={!input.trim()}
+                disabled={!input.trim() || isTyping}
                 className={`absolute right-2 top-1/2 transform -translate-y-1/2 p-2 rounded-lg transition-colors ${
-                  input.trim() 
+                  input.trim() && !isTyping
                     ? 'bg-green-500 hover:bg-green-600 text-white' 
                     : 'bg-gray-300 text-gray-500 cursor-not-allowed'
                 }`}
@@ -577,7 +757,7 @@ export default function Home() {
               </button>
             </div>
             <div className="text-xs text-center text-gray-500 mt-2">
-              Uses real NASA GFS data and satellite analysis • Free service
+              {page.footer}
             </div>
           </div>
         </div>
@@ -0,0 +1,144 @@
+// app/report/page.tsx
+// Server-rendered permalink for a single-day report, so the link can be opened
+// without the chat and unfurled by messaging apps.
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { Bot, Clock } from 'lucide-react';
+import RiskCards from '../components/RiskCards';
+import DataSources from '../components/DataSources';
+import WeatherCharts, { dayPoints } from '../components/WeatherCharts';
+import { dataKindOf } from '../../lib/provenance';
+import { loadSharedReport, parseReportQuery, reportFreshness } from '../../lib/report';
+import { RISK_KEYS } from '../../lib/risk';
+import { formatAge, formatLongDate } from '../../lib/dates';
+import { formatPrecipitation, formatSpeed, formatTemperature } from '../../lib/units';
+import { localizeActivity } from '../../lib/activities';
+import { DEFAULT_LANGUAGE, fill, isLanguage, languageOf, messagesFor, textDirection } from '../../lib/i18n';
+
+interface ReportPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+// A broken link still reads in the language it asked for, where that is valid
+const linkLanguage = (params: Record<string, string | string[] | undefined>) =>
+  isLanguage(params.lang) ? params.lang : DEFAULT_LANGUAGE;
+
+export async function generateMetadata({ searchParams }: ReportPageProps): Promise<Metadata> {
+  const params = await searchParams;
+  const query = parseReportQuery(params);
+  if (typeof query === 'string') {
+    return { title: messagesFor(linkLanguage(params)).sharedReport.defaultTitle };
+  }
+  const { analysis, weatherData } = await loadSharedReport(query);
+  const language = languageOf(query.preferences);
+  const { chat, report, risks, sharedReport } = messagesFor(language);
+  const activity = localizeActivity(query.activity, language);
+  const title = `${fill(report.title, { activity: `${activity.emoji} ${activity.label}`, location: weatherData.locationName })} · ${formatLongDate(query.date, query.preferences.locale)}`;
+  const description = fill(sharedReport.description, {
+    risks: RISK_KEYS.map((key) => `${risks[key]} ${Math.round(analysis.risks[key])}%`).join(chat.listSeparator),
+  });
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'article' },
+    twitter: { card: 'summary', title, description },
+  };
+}
+
+export default async function ReportPage({ searchParams }: ReportPageProps) {
+  const params = await searchParams;
+  const query = parseReportQuery(params);
+
+  if (typeof query === 'string') {
+    const language = linkLanguage(params);
+    const { sharedReport } = messagesFor(language);
+    return (
+      <main className="min-h-screen bg-gray-50 flex items-center justify-center p-6">
+        <div dir={textDirection(language)} className="max-w-md bg-white border border-gray-200 rounded-lg p-6 text-center">
+          <h1 className="text-lg font-semibold text-gray-900 mb-2">{sharedReport.incomplete}</h1>
+          <p className="text-sm text-gray-600 mb-4">{query}</p>
+          <Link href="/" className="text-sm font-medium text-green-700 hover:underline">{sharedReport.planWithBot}</Link>
+        </div>
+      </main>
+    );
+  }
+
+  const report = await loadSharedReport(query);
+  const { analysis, weatherData, fetchedAt } = report;
+  const { date, preferences } = query;
+  const language = languageOf(preferences);
+  const { report: reportMessages, sharedReport } = messagesFor(language);
+  const activity = localizeActivity(query.activity, language);
+  const freshness = reportFreshness(report, date);
+  const climatology = analysis.climatology;
+  const conditions = climatology ? { ...weatherData, ...climatology.means } : weatherData;
+  const tips = [...(analysis.packingTips ?? []), ...(analysis.mitigationTips ?? [])];
+
+  return (
+    <main className="min-h-screen bg-gray-50 py-10 px-6">
+      <article dir={textDirection(language)} className="max-w-3xl mx-auto bg-white border border-gray-200 rounded-lg shadow-sm p-6">
+        <header className="flex items-start gap-4 mb-6">
+          <div className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center flex-shrink-0">
+            <Bot className="w-6 h-6 text-white" />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold text-gray-900">
+              {fill(reportMessages.title, { activity: `${activity.emoji} ${activity.label}`, location: weatherData.locationName })}
+            </h1>
+            <div className="text-sm text-gray-600">
+              {formatLongDate(date, preferences.locale)} • {weatherData.lat.toFixed(3)}, {weatherData.lon.toFixed(3)}
+            </div>
+          </div>
+        </header>
+
+        <div className={`flex items-start gap-2 mb-6 p-3 rounded-lg border text-sm ${
+          freshness.stale ? 'bg-yellow-50 border-yellow-200 text-yellow-900' : 'bg-gray-50 border-gray-200 text-gray-700'
+        }`}>
+          <Clock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <div>
+            {fill(climatology ? sharedReport.fetchedHistory : sharedReport.fetchedForecast, {
+              time: new Date(fetchedAt).toLocaleString(preferences.locale, { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }),
+              age: formatAge(freshness.ageMinutes, language),
+            })}
+            {freshness.stale && <div className="font-medium mt-1">{fill(sharedReport.stale, { reason: sharedReport.staleReasons[freshness.reason!] })}</div>}
+          </div>
+        </div>
+
+        <p className="text-gray-800 leading-relaxed whitespace-pre-line">{analysis.analysis}</p>
+
+        <ul className="mt-4 text-sm text-gray-700 space-y-1">
+          <li>🌡️ {fill(climatology ? sharedReport.typicalTemperature : sharedReport.temperature, { value: formatTemperature(conditions.temperature, preferences) })}</li>
+          <li>💨 {fill(sharedReport.wind, { value: formatSpeed(conditions.windSpeed, preferences) })}</li>
+          <li>🌧️ {fill(sharedReport.precipitation, { value: formatPrecipitation(conditions.precipitation, preferences) })}</li>
+          <li>💧 {fill(sharedReport.humidity, { value: Math.round(conditions.humidity) })}</li>
+        </ul>
+
+        <DataSources sources={analysis.dataSources} provenance={analysis.provenance} />
+
+        <WeatherCharts
+          points={climatology || dataKindOf(weatherData.provenance) === 'estimate' ? [] : dayPoints([{ date, weather: weatherData }], preferences.locale)}
+          percentiles={analysis.percentiles}
+          activity={activity}
+          preferences={preferences}
+        />
+
+        <div className="mt-6">
+          <RiskCards risks={analysis.risks} language={language} />
+        </div>
+
+        {tips.length > 0 && (
+          <div className="mt-6">
+            <div className="text-sm font-semibold text-gray-900 mb-2">{sharedReport.tips}</div>
+            <ul className="text-sm text-gray-700 list-disc pl-5 space-y-1">
+              {tips.map((tip, index) => <li key={index}>{tip}</li>)}
+            </ul>
+          </div>
+        )}
+
+        <footer className="mt-8 pt-4 border-t border-gray-100 text-sm">
+          <Link href="/" className="font-medium text-green-700 hover:underline">{sharedReport.planYourOwn}</Link>
+        </footer>
+      </article>
+    </main>
+  );
+}
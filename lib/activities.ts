@@ -0,0 +1,110 @@
+// lib/activities.ts
+// Single registry of activity profiles. Quick replies, keyword detection and
+// risk scoring all read from here; users can add or override profiles.
+import type { ActivityProfile, ClimateThresholds, Language, RiskData } from './types';
+import { DEFAULT_THRESHOLDS, RISK_KEYS } from './risk';
+import { messagesFor } from './i18n';
+
+export const BUILT_IN_ACTIVITIES: ActivityProfile[] = [
+  {
+    id: 'vacation', label: 'Beach Day', emoji: '🏖️', keywords: ['vacation', 'holiday', 'beach', 'trip'],
+    comfortTemp: { min: 18, max: 32 }, maxWind: 30, maxPrecipitation: 5, weights: { hot: 10, wet: 15, uncomfortable: 5, uv: 20, storm: 15 },
+  },
+  {
+    id: 'hiking', label: 'Hiking', emoji: '🥾', keywords: ['hike', 'hiking', 'trail', 'trek', 'mountain'],
+    comfortTemp: { min: 0, max: 28 }, maxWind: 35, maxPrecipitation: 5, weights: { hot: 15, cold: 10, windy: 10, wet: 20, storm: 20, snow: 15, gusts: 10, uv: 5 },
+  },
+  {
+    id: 'fishing', label: 'Fishing', emoji: '🎣', keywords: ['fish', 'fishing', 'angling'],
+    comfortTemp: { min: 5, max: 30 }, maxWind: 25, maxPrecipitation: 5, weights: { windy: 20, wet: 25, uncomfortable: 10, storm: 20, gusts: 15 },
+  },
+  {
+    id: 'picnic', label: 'Picnic', emoji: '🧺', keywords: ['picnic', 'outdoor meal', 'park'],
+    comfortTemp: { min: 12, max: 30 }, maxWind: 25, maxPrecipitation: 2, weights: { wet: 30, windy: 15, hot: 10, storm: 15, gusts: 10, uv: 10 },
+  },
+  {
+    id: 'sports', label: 'Sports', emoji: '⚽', keywords: ['sport', 'game', 'match', 'athletic', 'exercise'],
+    comfortTemp: { min: 5, max: 28 }, maxWind: 30, maxPrecipitation: 3, weights: { hot: 25, wet: 20, uncomfortable: 15, airQuality: 20, storm: 20, uv: 10 },
+  },
+  {
+    id: 'camping', label: 'Camping', emoji: '⛺', keywords: ['camp', 'camping', 'tent'],
+    comfortTemp: { min: 3, max: 28 }, maxWind: 35, maxPrecipitation: 5, weights: { cold: 20, wet: 25, windy: 10, uncomfortable: 15, storm: 20, snow: 15, gusts: 15, airQuality: 10 },
+  },
+];
+
+export const slugifyActivity = (label: string) =>
+  label.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'activity';
+
+// Stored profiles replace built-ins with the same id; the rest are appended.
+export const mergeActivities = (stored: ActivityProfile[]): ActivityProfile[] => {
+  const overrides = new Map(stored.map((profile) => [profile.id, profile]));
+  const builtIns = BUILT_IN_ACTIVITIES.map((profile) => overrides.get(profile.id) ?? profile);
+  const custom = stored.filter((profile) => !BUILT_IN_ACTIVITIES.some((builtIn) => builtIn.id === profile.id));
+  return [...builtIns, ...custom];
+};
+
+export const isBuiltInActivity = (id: string) => BUILT_IN_ACTIVITIES.some((profile) => profile.id === id);
+
+export const findActivity = (id: string, profiles: ActivityProfile[] = BUILT_IN_ACTIVITIES) =>
+  profiles.find((profile) => profile.id === id) ?? null;
+
+// A built-in profile with the language's label, and its words added to the
+// keywords. Profiles the user has renamed or created are left as they are.
+export const localizeActivity = (profile: ActivityProfile, language: Language): ActivityProfile => {
+  const builtIn = findActivity(profile.id);
+  const messages = messagesFor(language).activities as Record<string, { label: string; keywords: string[] }>;
+  if (!builtIn || builtIn.label !== profile.label || !messages[profile.id]) return profile;
+  const { label, keywords } = messages[profile.id];
+  return { ...profile, label, keywords: [...profile.keywords, ...keywords] };
+};
+
+// First profile with a keyword (or its label) in the message. Custom profiles
+// are checked first so a user's "trail run" beats the built-in "trail".
+export const matchActivity = (message: string, profiles: ActivityProfile[]) => {
+  const lowerMsg = message.toLowerCase();
+  const ordered = [...profiles.filter((profile) => profile.custom), ...profiles.filter((profile) => !profile.custom)];
+  return ordered.find((profile) =>
+    [profile.label.toLowerCase(), ...profile.keywords].some((keyword) => keyword && lowerMsg.includes(keyword))) ?? null;
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Returns a description of the first problem, or null when the profile is valid.
+export const validateActivityProfile = (value: any): string | null => {
+  if (!value || typeof value !== 'object') return 'Activity profile must be an object';
+  if (typeof value.id !== 'string' || !/^[a-z0-9-]+$/.test(value.id)) return 'Activity id must use lowercase letters, digits and dashes';
+  if (typeof value.label !== 'string' || !value.label.trim()) return 'Activity needs a name';
+  if (typeof value.emoji !== 'string') return 'Activity emoji must be text';
+  if (!Array.isArray(value.keywords) || !value.keywords.every((keyword: unknown) => typeof keyword === 'string')) {
+    return 'Activity keywords must be a list of words';
+  }
+  if (!value.comfortTemp || !isFiniteNumber(value.comfortTemp.min) || !isFiniteNumber(value.comfortTemp.max)) {
+    return 'Comfort temperature range needs a minimum and a maximum';
+  }
+  if (value.comfortTemp.min >= value.comfortTemp.max) return 'Comfort minimum must be below the maximum';
+  if (!isFiniteNumber(value.maxWind) || value.maxWind <= 0) return 'Max wind must be a positive number';
+  if (!isFiniteNumber(value.maxPrecipitation) || value.maxPrecipitation <= 0) return 'Max precipitation must be a positive number';
+  if (!value.weights || typeof value.weights !== 'object') return 'Activity weights must be an object';
+  for (const [key, weight] of Object.entries(value.weights)) {
+    if (!RISK_KEYS.includes(key as keyof RiskData)) return `Unknown risk weight "${key}"`;
+    if (!isFiniteNumber(weight) || Math.abs(weight) > 50) return `Weight for ${key} must be between -50 and 50`;
+  }
+  return null;
+};
+
+// Route helper: a full profile in the request wins, otherwise the id must name a built-in.
+export const resolveActivity = (eventType: unknown, activity: unknown): ActivityProfile | null => {
+  if (activity !== undefined && activity !== null) {
+    return validateActivityProfile(activity) === null ? (activity as ActivityProfile) : null;
+  }
+  return typeof eventType === 'string' ? findActivity(eventType) : null;
+};
+
+// Historical exceedance thresholds follow the activity's tolerances.
+export const activityThresholds = (profile: ActivityProfile): ClimateThresholds => ({
+  ...DEFAULT_THRESHOLDS,
+  hotMaxTemp: profile.comfortTemp.max,
+  coldMinTemp: profile.comfortTemp.min,
+  windyMaxSpeed: profile.maxWind,
+  wetPrecipitation: profile.maxPrecipitation,
+});
@@ -0,0 +1,21 @@
+// lib/activityStore.ts
+// Browser persistence for user-created and edited activity profiles.
+import { validateActivityProfile } from './activities';
+import type { ActivityProfile } from './types';
+
+const STORAGE_KEY = 'weatherbot.activities';
+
+export const loadStoredActivities = (): ActivityProfile[] => {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((profile) => validateActivityProfile(profile) === null) : [];
+  } catch (error) {
+    console.error('Error loading saved activities:', error);
+    return [];
+  }
+};
+
+export const saveStoredActivities = (profiles: ActivityProfile[]) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+};
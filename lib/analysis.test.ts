@@ -0,0 +1,61 @@
+// lib/analysis.test.ts
+// Forecast-mode analyses, so no NASA POWER calls; the LLM is a fixed reply.
+import { describe, expect, it } from 'vitest';
+import { analyzeDateRange, analyzeTimeWindow } from './analysis';
+import { findActivity, BUILT_IN_ACTIVITIES } from './activities';
+import { RISK_KEYS } from './risk';
+import type { LLMProvider } from './llm';
+import type { NASAWeatherData, RiskData } from './types';
+
+const hiking = findActivity('hiking', BUILT_IN_ACTIVITIES)!;
+
+const weather = (date: string, overrides: Partial<NASAWeatherData> = {}): NASAWeatherData => ({
+  temperature: 20,
+  precipitation: 0,
+  humidity: 50,
+  windSpeed: 10,
+  cloudCover: 30,
+  lat: 38.72,
+  lon: -9.14,
+  locationName: 'Lisbon, Portugal',
+  date,
+  ...overrides,
+});
+
+const peakRisk = (risks: RiskData) => Math.max(...RISK_KEYS.map((key) => risks[key]));
+
+const fixedLLM = (reply: object): LLMProvider => ({ name: 'Fixed LLM', complete: async () => JSON.stringify(reply) });
+
+describe('analyzeDateRange', () => {
+  const days = [weather('2026-06-03'), weather('2026-06-04', { precipitation: 20, windSpeed: 35 }), weather('2026-06-05')];
+
+  it('keeps LLM adjustments off the daily and overall scores', async () => {
+    const base = await analyzeDateRange(days, hiking, 'forecast', undefined, null);
+    const adjusted = await analyzeDateRange(days, hiking, 'forecast', undefined, fixedLLM({
+      riskAdjustments: { wet: -20, windy: 15 },
+      narrative: 'Showers clear by the afternoon.',
+      packingTips: ['Rain jacket'],
+      mitigationTips: ['Start late'],
+    }));
+
+    expect(adjusted.worstDay).toBe('2026-06-04');
+    expect(adjusted.days.map((day) => day.risks)).toEqual(base.days.map((day) => day.risks));
+    expect(adjusted.overall).toEqual(base.overall);
+    expect(adjusted.worstDayRisks.wet).toBeCloseTo(base.worstDayRisks.wet - 20);
+    expect(adjusted.worstDayRisks.windy).toBeCloseTo(base.worstDayRisks.windy + 15);
+    expect(adjusted.analysis).toContain(`peak risk of ${Math.round(peakRisk(base.days[1].risks))}%`);
+  });
+
+  it('reports the rule-based scores for the worst day without an LLM', async () => {
+    const result = await analyzeDateRange(days, hiking, 'forecast', undefined, null);
+    expect(result.worstDayRisks).toEqual(result.days[1].risks);
+  });
+});
+
+describe('analyzeTimeWindow', () => {
+  it('rejects a window without any hours', async () => {
+    const place = { lat: 38.72, lon: -9.14, locationName: 'Lisbon, Portugal' };
+    await expect(analyzeTimeWindow([], place, hiking, '2026-06-03', { startHour: 14, endHour: 18 }, undefined, null))
+      .rejects.toThrow('No hourly weather for 2026-06-03 between 14:00 and 18:00');
+  });
+});
@@ -0,0 +1,497 @@
+// lib/analysis.ts
+import type { ActivityProfile, BestDayAnalysis, ClimatePercentiles, ClimatologyData, ComparisonAnalysis, DayRisk, DisplayPreferences, HistoricalDay, HourlyAnalysis, HourlyWeather, HourRisk, LocationRisk, NASAWeatherData, RangeAnalysis, RankedDay, RiskData, TimeWindow, WeatherAnalysis } from './types';
+import { GUST_FACTOR, RISK_KEYS, calculateHourlyRisks, calculateRisksFromRealData, combinedRisk, estimatedSnowfall, feelsLikeRange, isThunderstorm } from './risk';
+import { computeExceedance, getClimatePercentiles, getClimatology, getClimatologySource, getHistoricalRecords } from './climatology';
+import { isWithinForecastHorizon } from './weather';
+import { formatAge, formatHour, formatLongDate, formatShortDate, formatTimeWindow, minutesSince } from './dates';
+import { DEFAULT_PREFERENCES, formatPrecipitation, formatSnowfall, formatSpeed, formatTemperature } from './units';
+import { activityThresholds, localizeActivity } from './activities';
+import { fill, languageOf, messagesFor, plural } from './i18n';
+import { AIR_QUALITY_SOURCE, HOURLY_FORECAST_SOURCE, dataKindOf, describeProvenance, effectiveProvenance, forecastProvenance } from './provenance';
+import { applyLLMAnalysis, buildAnalysisPrompt, getLLMProvider, parseLLMOutput, type LLMProvider } from './llm';
+
+export interface AnalysisOptions {
+  climatology?: ClimatologyData;
+  // Historical spread for the date, passed through for charts
+  percentiles?: ClimatePercentiles;
+  // Precomputed scores, e.g. the worst hour of an event window
+  risks?: RiskData;
+  // Part of the day covered, e.g. "2pm–6pm"; omitted for whole-day analysis
+  period?: string;
+  // Units, locale and language for the narrative; scores are unaffected
+  preferences?: DisplayPreferences;
+  // Every day or place the report covers, so its data sources list all of
+  // them; defaults to the one being analysed
+  coverage?: Pick<DayRisk, 'weather' | 'climatology'>[];
+}
+
+// LLM Integration: the rule-based analysis is always computed first and doubles
+// as the fallback when no provider is configured or its output is malformed.
+export const analyzeWithLLM = async (
+  weatherData: NASAWeatherData,
+  activity: ActivityProfile,
+  date: string,
+  options: AnalysisOptions = {},
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<WeatherAnalysis> => {
+  const { climatology, period, preferences = DEFAULT_PREFERENCES } = options;
+  const base = await simulateGeminiAnalysis(weatherData, activity, date, options);
+  if (!provider) return base;
+
+  try {
+    const prompt = buildAnalysisPrompt({
+      weatherData: climatology ? { ...weatherData, ...climatology.means } : weatherData,
+      activity,
+      date: period ? `${date} (${period})` : date,
+      risks: base.risks,
+      historical: !!climatology,
+      preferences,
+    });
+    const llm = parseLLMOutput(await provider.complete(prompt));
+    if (!llm) {
+      console.error(`Malformed analysis from ${provider.name}, using rule-based analysis`);
+      return base;
+    }
+    return applyLLMAnalysis(base, llm, provider.name);
+  } catch (error) {
+    console.error(`Error with ${provider.name}:`, error);
+    return base;
+  }
+};
+
+// Labels forecasts that were served from cache because the live service failed
+const cachedForecastSources = (days: NASAWeatherData[]) => {
+  const fetched = days.filter((day) => day.stale && day.fetchedAt).map((day) => day.fetchedAt!).sort();
+  return fetched.length > 0 ? [`Cached Open-Meteo forecast, fetched ${formatAge(minutesSince(fetched[0]))} (live service unreachable)`] : [];
+};
+
+// Air quality comes from its own service and isn't part of the field provenance
+const airQualitySources = (days: NASAWeatherData[]) =>
+  days.some((day) => day.airQuality !== undefined) ? [`${AIR_QUALITY_SOURCE}: forecast, US AQI`] : [];
+
+const weatherSources = (coverage: Pick<DayRisk, 'weather' | 'climatology'>[]) => [
+  ...describeProvenance(coverage.map((entry) => effectiveProvenance(entry.weather, entry.climatology))),
+  ...airQualitySources(coverage.map((entry) => entry.weather)),
+  ...cachedForecastSources(coverage.map((entry) => entry.weather)),
+];
+
+// History replaces the forecast heuristics on the dimensions it covers; the
+// rest are still scored from the day's (usually estimated) conditions
+const scoreRisks = (weather: NASAWeatherData, activity: ActivityProfile, climatology?: ClimatologyData): RiskData =>
+  climatology
+    ? { ...calculateRisksFromRealData(weather, activity), ...climatology.probabilities }
+    : calculateRisksFromRealData(weather, activity);
+
+const aqiCategory = (aqi: number) =>
+  aqi > 300 ? 'hazardous' : aqi > 200 ? 'veryUnhealthy' : aqi > 150 ? 'unhealthy' : aqi > 100 ? 'sensitive' : 'moderate';
+
+const uvCategory = (uvIndex: number) =>
+  uvIndex >= 11 ? 'extreme' : uvIndex >= 8 ? 'veryHigh' : uvIndex >= 6 ? 'high' : 'moderate';
+
+// The activity as the narrative names it, e.g. "hiking" or "senderismo"
+const eventName = (activity: ActivityProfile, preferences: DisplayPreferences) =>
+  localizeActivity(activity, languageOf(preferences)).label.toLowerCase();
+
+/**
+ * One line per notable hazard beyond the headline risk, with the reading
+ * behind it: feels-like extremes, thunderstorms, UV, air quality, snow and
+ * gusts. Ends by saying which hazards the data couldn't speak to, so a low
+ * score isn't mistaken for an all-clear.
+ */
+const hazardNotes = (weather: NASAWeatherData, risks: RiskData, preferences: DisplayPreferences, climatology?: ClimatologyData) => {
+  const notes: string[] = [];
+  const language = languageOf(preferences);
+  const { hazards } = messagesFor(language).report;
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences);
+  const feelsLike = feelsLikeRange(weather);
+  const high = weather.temperatureMax ?? weather.temperature;
+  const low = weather.temperatureMin ?? weather.temperature;
+
+  if (!climatology && feelsLike.high - high >= 2) {
+    notes.push(fill(hazards.humidHeat, { temperature: temperature(high), feelsLike: temperature(feelsLike.high) }));
+  }
+  if (!climatology && low - feelsLike.low >= 2) {
+    notes.push(fill(hazards.windChill, { temperature: temperature(low), feelsLike: temperature(feelsLike.low) }));
+  }
+  if (risks.storm >= 30 && isThunderstorm(weather.weatherCode)) {
+    notes.push(weather.precipitationProbability !== undefined
+      ? fill(hazards.thunderstormsChance, { percent: Math.round(weather.precipitationProbability) })
+      : hazards.thunderstorms);
+  }
+  if (risks.uv >= 30 && weather.uvIndex !== undefined) {
+    notes.push(fill(climatology || dataKindOf(weather.provenance) === 'estimate' ? hazards.uvAround : hazards.uvUpTo, {
+      value: Math.round(weather.uvIndex),
+      category: hazards.uvCategories[uvCategory(weather.uvIndex)],
+    }));
+  }
+  if (risks.airQuality >= 30 && weather.airQuality !== undefined) {
+    notes.push(fill(hazards.airQuality, { value: Math.round(weather.airQuality), category: hazards.aqiCategories[aqiCategory(weather.airQuality)] }));
+  }
+  if (risks.snow >= 30) {
+    notes.push(climatology
+      ? fill(hazards.snowHistory, { percent: Math.round(risks.snow) })
+      : fill(weather.snowfall === undefined ? hazards.snowPossible : hazards.snowExpected, { amount: formatSnowfall(estimatedSnowfall(weather), preferences) }));
+  }
+  if (risks.gusts >= 30) {
+    const gusts = weather.windGusts ?? weather.windSpeed * GUST_FACTOR;
+    notes.push(fill(weather.windGusts === undefined ? hazards.likelyGusts : hazards.gusts, { speed: formatSpeed(gusts, preferences) }));
+  }
+
+  const unknown = climatology
+    ? [hazards.thunderstormsName, hazards.airQualityName]
+    : [weather.weatherCode === undefined && hazards.thunderstormsName, weather.airQuality === undefined && hazards.airQualityName].filter((hazard): hazard is string => !!hazard);
+  if (unknown.length > 0) {
+    notes.push(fill(plural(climatology ? hazards.noHistory : hazards.noForecast, unknown.length, language), { hazards: unknown.join(hazards.namesJoin) }));
+  }
+  return notes;
+};
+
+export const simulateGeminiAnalysis = async (weatherData: NASAWeatherData, activity: ActivityProfile, date: string, options: AnalysisOptions = {}): Promise<WeatherAnalysis> => {
+  const { climatology, period, preferences = DEFAULT_PREFERENCES } = options;
+  // Historical exceedance frequencies replace the forecast heuristics when available
+  const risks = options.risks ?? scoreRisks(weatherData, activity, climatology);
+  const { report } = messagesFor(languageOf(preferences));
+  const eventType = eventName(activity, preferences);
+  const longDate = formatLongDate(date, preferences.locale);
+  const when = period ? `${longDate}, ${period}` : longDate;
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences);
+  const conditions = climatology ? { ...weatherData, ...climatology.means } : weatherData;
+
+  const provenance = effectiveProvenance(weatherData, climatology);
+  const dataSources = weatherSources(options.coverage ?? [{ weather: weatherData, climatology }]);
+  const estimated = dataKindOf(provenance) === 'estimate';
+
+  const maxRisk = Math.max(...Object.values(risks));
+  const maxRiskKey = Object.keys(risks).find(key => risks[key as keyof RiskData] === maxRisk) as keyof RiskData;
+
+  const location = weatherData.locationName;
+  const basis = climatology ? 'climatology' : estimated ? 'estimate' : 'forecast';
+
+  let analysis = `${climatology
+    ? fill(report.climatologyIntro, { count: climatology.sampleSize, start: climatology.startYear, end: climatology.endYear, window: climatology.windowDays, location, when })
+    : estimated
+      ? fill(report.estimateIntro, { location, when })
+      : fill(report.forecastIntro, { source: provenance ? provenance.temperature.source : report.suppliedSource, location, when })}\n\n`;
+
+  if (maxRisk < 30) {
+    analysis += fill(report.excellent, { event: eventType });
+    analysis += fill(report.excellentConditions, {
+      temperature: temperature(conditions.temperature),
+      wind: formatSpeed(conditions.windSpeed, preferences),
+      precipitation: formatPrecipitation(conditions.precipitation, preferences),
+    });
+  } else if (maxRisk < 60) {
+    analysis += fill(report.moderate, { risk: report.headlines[maxRiskKey], event: eventType });
+    analysis += fill(report.moderateAdvice, { percent: Math.round(maxRisk) });
+    analysis += fill(report.moderateConditions[basis], { temperature: temperature(conditions.temperature), wind: formatSpeed(conditions.windSpeed, preferences) });
+  } else {
+    analysis += fill(report.high, { risk: report.headlines[maxRiskKey], event: eventType });
+    analysis += fill(report.highAdvice, { percent: Math.round(maxRisk) });
+    analysis += fill(report.highConditions[basis], { temperature: temperature(conditions.temperature), precipitation: formatPrecipitation(conditions.precipitation, preferences) });
+  }
+
+  const notes = hazardNotes(conditions, risks, preferences, climatology);
+  if (notes.length > 0) {
+    analysis += `\n\n${notes.join('\n')}`;
+  }
+
+  return { risks, analysis, dataSources, provenance, climatology, percentiles: options.percentiles };
+};
+
+export type AnalysisMode = 'auto' | 'forecast' | 'historical';
+
+const peakRisk = (risks: RiskData) => Math.max(...RISK_KEYS.map((key) => risks[key]));
+
+const worstOf = (risks: RiskData[]) => RISK_KEYS.reduce((acc, key) => {
+  acc[key] = Math.max(...risks.map((entry) => entry[key]));
+  return acc;
+}, {} as RiskData);
+
+// Per-day risks for a run of days. NASA POWER history is downloaded once and
+// reused for every day that needs climatology.
+const scoreDays = async (
+  days: NASAWeatherData[],
+  activity: ActivityProfile,
+  mode: AnalysisMode,
+): Promise<DayRisk[]> => {
+  const usesHistory = (date: string) => mode === 'historical' || (mode === 'auto' && !isWithinForecastHorizon(date));
+
+  let history: HistoricalDay[] | null = null;
+  const source = getClimatologySource();
+  if (days.some((day) => usesHistory(day.date!))) {
+    try {
+      history = await getHistoricalRecords(days[0].lat, days[0].lon, source);
+    } catch (error) {
+      console.error('Error computing climatology:', error);
+      if (mode === 'historical') throw error;
+    }
+  }
+
+  const daily: DayRisk[] = days.map((weather) => {
+    const climatology = history && usesHistory(weather.date!)
+      ? { ...computeExceedance(history, weather.date!, undefined, activityThresholds(activity)), source: source.name }
+      : undefined;
+    return {
+      date: weather.date!,
+      weather,
+      risks: scoreRisks(weather, activity, climatology),
+      climatology,
+    };
+  });
+
+  return daily;
+};
+
+// Per-day risks for a multi-day event; the narrative covers the worst day.
+export const analyzeDateRange = async (
+  days: NASAWeatherData[],
+  activity: ActivityProfile,
+  mode: AnalysisMode = 'auto',
+  preferences: DisplayPreferences = DEFAULT_PREFERENCES,
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<RangeAnalysis> => {
+  const daily = await scoreDays(days, activity, mode);
+  const worst = daily.reduce((a, b) => (peakRisk(b.risks) > peakRisk(a.risks) ? b : a));
+  // The LLM only sees the worst day, so its adjustments stay off the daily
+  // scores and the overall worst-of, which compare every day like for like
+  const detail = await analyzeWithLLM(worst.weather, activity, worst.date, { climatology: worst.climatology, risks: worst.risks, preferences, coverage: daily }, provider);
+
+  const overall = worstOf(daily.map((day) => day.risks));
+
+  const longDate = (date: string) => formatLongDate(date, preferences.locale);
+  const header = fill(messagesFor(languageOf(preferences)).report.rangeHeader, {
+    count: daily.length,
+    start: longDate(daily[0].date),
+    end: longDate(daily[daily.length - 1].date),
+    worst: longDate(worst.date),
+    percent: Math.round(peakRisk(worst.risks)),
+  });
+
+  return {
+    days: daily,
+    overall,
+    worstDay: worst.date,
+    worstDayRisks: detail.risks,
+    analysis: `${header}\n\n${detail.analysis}`,
+    dataSources: detail.dataSources,
+    packingTips: detail.packingTips,
+    mitigationTips: detail.mitigationTips,
+  };
+};
+
+const BEST_DAY_COUNT = 3;
+
+// Why a day ranks where it does: its biggest concern, what it does better than
+// the rest of the window, and the conditions behind the scores.
+const explainDay = (day: DayRisk, all: DayRisk[], preferences: DisplayPreferences) => {
+  const reasons: string[] = [];
+  const { report } = messagesFor(languageOf(preferences));
+  const [topKey] = [...RISK_KEYS].sort((a, b) => day.risks[b] - day.risks[a]);
+  reasons.push(day.risks[topKey] >= 30
+    ? fill(report.mainConcern, { risk: report.nouns[topKey], percent: Math.round(day.risks[topKey]) })
+    : report.noSingleRisk);
+
+  for (const key of RISK_KEYS) {
+    const values = all.map((other) => other.risks[key]);
+    // Only worth mentioning when the window actually varies on this dimension
+    if (all.length > 1 && day.risks[key] === Math.min(...values) && Math.max(...values) - day.risks[key] >= 15) {
+      reasons.push(fill(report.lowestRisk, { risk: report.nouns[key] }));
+    }
+  }
+
+  const conditions = day.climatology ? { ...day.weather, ...day.climatology.means } : day.weather;
+  reasons.push(fill(day.climatology ? report.typicalConditions : report.forecastConditions, {
+    temperature: formatTemperature(conditions.temperature, preferences),
+    wind: formatSpeed(conditions.windSpeed, preferences),
+    precipitation: formatPrecipitation(conditions.precipitation, preferences),
+  }));
+  return reasons;
+};
+
+// Ranks every day of a flexible window by combined risk for the activity and
+// explains the top few. The narrative and tips are written for the best day.
+export const recommendBestDays = async (
+  days: NASAWeatherData[],
+  activity: ActivityProfile,
+  mode: AnalysisMode = 'auto',
+  preferences: DisplayPreferences = DEFAULT_PREFERENCES,
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<BestDayAnalysis> => {
+  const daily = await scoreDays(days, activity, mode);
+  const ranked: RankedDay[] = daily
+    .map((day) => ({ ...day, rank: 0, score: combinedRisk(day.risks), reasons: explainDay(day, daily, preferences) }))
+    // Earlier date wins a tie, so the order is stable
+    .sort((a, b) => a.score - b.score || a.date.localeCompare(b.date))
+    .map((day, index) => ({ ...day, rank: index + 1 }));
+  const top = ranked.slice(0, BEST_DAY_COUNT);
+  const [best] = top;
+
+  const detail = await analyzeWithLLM(best.weather, activity, best.date, { climatology: best.climatology, risks: best.risks, preferences, coverage: daily }, provider);
+  const shortDate = (date: string) => formatShortDate(date, preferences.locale);
+  const { chat, report } = messagesFor(languageOf(preferences));
+  const header = fill(report.bestDayHeader, {
+    event: eventName(activity, preferences),
+    start: shortDate(daily[0].date),
+    end: shortDate(daily[daily.length - 1].date),
+    best: formatLongDate(best.date, preferences.locale),
+    percent: Math.round(best.score),
+  }) + (top.length > 1 ? fill(report.runnersUp, { days: top.slice(1).map((day) => `${shortDate(day.date)} (${Math.round(day.score)}%)`).join(chat.listSeparator) }) : '');
+
+  return {
+    days: ranked,
+    top,
+    analysis: `${header}\n\n${detail.analysis}`,
+    dataSources: detail.dataSources,
+    packingTips: detail.packingTips,
+    mitigationTips: detail.mitigationTips,
+  };
+};
+
+// Scores the same activity and date at several places. Each place beyond the
+// forecast horizon gets its own NASA POWER history; one that fails falls back
+// to its forecast scores unless historical mode was requested.
+export const compareLocations = async (
+  locations: NASAWeatherData[],
+  activity: ActivityProfile,
+  date: string,
+  mode: AnalysisMode = 'auto',
+  preferences: DisplayPreferences = DEFAULT_PREFERENCES,
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<ComparisonAnalysis> => {
+  const useHistory = mode === 'historical' || (mode === 'auto' && !isWithinForecastHorizon(date));
+  const source = getClimatologySource();
+
+  const scored: LocationRisk[] = await Promise.all(locations.map(async (weather) => {
+    let climatology: ClimatologyData | undefined;
+    if (useHistory) {
+      try {
+        const history = await getHistoricalRecords(weather.lat, weather.lon, source);
+        climatology = { ...computeExceedance(history, date, undefined, activityThresholds(activity)), source: source.name };
+      } catch (error) {
+        console.error(`Error computing climatology for ${weather.locationName}:`, error);
+        if (mode === 'historical') throw error;
+      }
+    }
+    const risks = scoreRisks(weather, activity, climatology);
+    return { weather, risks, score: combinedRisk(risks), climatology };
+  }));
+
+  // First place given wins a tie
+  const bestIndex = scored.reduce((best, entry, index) => (entry.score < scored[best].score ? index : best), 0);
+  const best = scored[bestIndex];
+  const detail = await analyzeWithLLM(best.weather, activity, date, { climatology: best.climatology, risks: best.risks, preferences, coverage: scored }, provider);
+
+  const others = scored.filter((_, index) => index !== bestIndex);
+  const { chat, report } = messagesFor(languageOf(preferences));
+  const header = fill(report.comparisonHeader, {
+    count: scored.length,
+    event: eventName(activity, preferences),
+    date: formatLongDate(date, preferences.locale),
+    best: best.weather.locationName,
+    percent: Math.round(best.score),
+    others: others.map((entry) => `${entry.weather.locationName} (${Math.round(entry.score)}%)`).join(chat.listSeparator),
+  });
+
+  return {
+    date,
+    locations: scored,
+    bestIndex,
+    analysis: `${header}\n\n${detail.analysis}`,
+    dataSources: detail.dataSources,
+    packingTips: detail.packingTips,
+    mitigationTips: detail.mitigationTips,
+  };
+};
+
+// A single-day report as the chat and shared links show it. Past the forecast
+// horizon (or in historical mode) NASA POWER history replaces the forecast
+// heuristics; outside forecast mode the historical spread is added for charts.
+// Either may fail without failing the report, unless historical mode was requested.
+export const analyzeDay = async (
+  weatherData: NASAWeatherData,
+  activity: ActivityProfile,
+  date: string,
+  mode: AnalysisMode = 'auto',
+  preferences: DisplayPreferences = DEFAULT_PREFERENCES,
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<WeatherAnalysis> => {
+  const { lat, lon } = weatherData;
+  let climatology: ClimatologyData | undefined;
+  if (mode === 'historical' || (mode === 'auto' && !isWithinForecastHorizon(date))) {
+    try {
+      climatology = await getClimatology(lat, lon, date, undefined, activityThresholds(activity));
+    } catch (error) {
+      console.error('Error computing climatology:', error);
+      if (mode === 'historical') throw error;
+    }
+  }
+
+  const percentiles = mode === 'forecast' ? undefined : await getClimatePercentiles(lat, lon, date).catch((error) => {
+    console.error('Error computing historical percentiles:', error);
+    return undefined;
+  });
+
+  return analyzeWithLLM(weatherData, activity, date, { climatology, percentiles, preferences }, provider);
+};
+
+// Risks for a few hours of one day. The window's score on each dimension is its
+// worst hour, and the narrative is written for a summary of the whole window.
+export const analyzeTimeWindow = async (
+  hourly: HourlyWeather[],
+  place: Pick<NASAWeatherData, 'lat' | 'lon' | 'locationName'>,
+  activity: ActivityProfile,
+  date: string,
+  window: TimeWindow,
+  preferences: DisplayPreferences = DEFAULT_PREFERENCES,
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<HourlyAnalysis> => {
+  // The forecast may not reach every hour of the window, e.g. at the horizon
+  if (hourly.length === 0) {
+    throw new Error(`No hourly weather for ${date} between ${window.startHour}:00 and ${window.endHour}:00`);
+  }
+  const hours: HourRisk[] = hourly.map((weather) => ({
+    time: weather.time,
+    hour: weather.hour,
+    weather,
+    risks: calculateHourlyRisks(weather, activity),
+  }));
+  const worst = hours.reduce((a, b) => (peakRisk(b.risks) > peakRisk(a.risks) ? b : a));
+  const average = (pick: (hour: HourlyWeather) => number) => hourly.reduce((sum, hour) => sum + pick(hour), 0) / hourly.length;
+  const readings = (pick: (hour: HourlyWeather) => number | undefined) =>
+    hourly.map(pick).filter((value): value is number => value !== undefined);
+  const highest = (pick: (hour: HourlyWeather) => number | undefined) => (readings(pick).length > 0 ? Math.max(...readings(pick)) : undefined);
+  const lowest = (pick: (hour: HourlyWeather) => number | undefined) => (readings(pick).length > 0 ? Math.min(...readings(pick)) : undefined);
+
+  const summary: NASAWeatherData = {
+    ...place,
+    temperature: average((hour) => hour.temperature),
+    temperatureMax: highest((hour) => hour.temperature),
+    temperatureMin: lowest((hour) => hour.temperature),
+    precipitation: hourly.reduce((sum, hour) => sum + hour.precipitation, 0),
+    humidity: average((hour) => hour.humidity),
+    windSpeed: Math.max(...hourly.map((hour) => hour.windSpeed)),
+    cloudCover: average((hour) => hour.cloudCover),
+    feelsLikeMax: highest((hour) => hour.feelsLike),
+    feelsLikeMin: lowest((hour) => hour.feelsLike),
+    uvIndex: highest((hour) => hour.uvIndex),
+    windGusts: highest((hour) => hour.windGusts),
+    snowfall: readings((hour) => hour.snowfall).length > 0 ? readings((hour) => hour.snowfall).reduce((sum, value) => sum + value, 0) : undefined,
+    weatherCode: highest((hour) => hour.weatherCode),
+    precipitationProbability: highest((hour) => hour.precipitationProbability),
+    airQuality: highest((hour) => hour.airQuality),
+    date,
+    provenance: forecastProvenance(date, new Date().toISOString(), HOURLY_FORECAST_SOURCE),
+  };
+  const risks = worstOf(hours.map((hour) => hour.risks));
+  const detail = await analyzeWithLLM(summary, activity, date, { risks, period: formatTimeWindow(window, preferences.locale), preferences }, provider);
+
+  return {
+    hours,
+    risks: detail.risks,
+    worstHour: worst.time,
+    analysis: `${detail.analysis}\n\n${fill(messagesFor(languageOf(preferences)).report.worstHour, { hour: formatHour(worst.hour, preferences.locale), percent: Math.round(peakRisk(worst.risks)) })}`,
+    dataSources: detail.dataSources,
+    packingTips: detail.packingTips,
+    mitigationTips: detail.mitigationTips,
+  };
+};
@@ -0,0 +1,71 @@
+// lib/cache.ts
+// In-memory TTL cache for upstream API calls. Identical requests made while
+// one is in flight share its result, and when a refresh fails the last good
+// value is served marked stale instead of failing outright.
+
+export interface CachedValue<T> {
+  value: T;
+  // Epoch milliseconds of the upstream call that produced the value
+  fetchedAt: number;
+  // True when the TTL had run out and the refresh failed
+  stale: boolean;
+}
+
+export interface CacheOptions {
+  ttlMs: number;
+  // Least recently used entries are dropped beyond this
+  maxEntries?: number;
+}
+
+export interface TTLCache<T> {
+  get: (key: string, load: () => Promise<T>) => Promise<CachedValue<T>>;
+  clear: () => void;
+}
+
+export const createTTLCache = <T>({ ttlMs, maxEntries = 500 }: CacheOptions, now = () => Date.now()): TTLCache<T> => {
+  const entries = new Map<string, { value: T; fetchedAt: number }>();
+  const pending = new Map<string, Promise<CachedValue<T>>>();
+
+  const touch = (key: string, entry: { value: T; fetchedAt: number }) => {
+    entries.delete(key);
+    entries.set(key, entry);
+    if (entries.size > maxEntries) {
+      entries.delete(entries.keys().next().value!);
+    }
+  };
+
+  return {
+    get: (key, load) => {
+      const entry = entries.get(key);
+      if (entry && now() - entry.fetchedAt < ttlMs) {
+        touch(key, entry);
+        return Promise.resolve({ ...entry, stale: false });
+      }
+
+      const inFlight = pending.get(key);
+      if (inFlight) return inFlight;
+
+      const request = load()
+        .then((value) => {
+          const fresh = { value, fetchedAt: now() };
+          touch(key, fresh);
+          return { ...fresh, stale: false };
+        })
+        .catch((error) => {
+          if (!entry) throw error;
+          console.error(`Refresh failed, serving cached data for ${key}:`, error);
+          return { ...entry, stale: true };
+        })
+        .finally(() => pending.delete(key));
+      pending.set(key, request);
+      return request;
+    },
+    clear: () => {
+      entries.clear();
+      pending.clear();
+    },
+  };
+};
+
+// Rounded so the same spot asked about twice shares an entry (~11 m apart)
+export const coordinateKey = (lat: number, lon: number) => `${lat.toFixed(4)},${lon.toFixed(4)}`;
@@ -0,0 +1,42 @@
+// lib/channels.test.ts
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRedisChatStore, getChatStore } from './channels';
+import { initialChatState } from './conversation';
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('createRedisChatStore', () => {
+  it('keeps each chat in one field of a hash', async () => {
+    const hash = new Map<string, string>();
+    const commands: string[][] = [];
+    vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+      const [name, , field, value] = JSON.parse(init.body as string) as string[];
+      commands.push([name, field]);
+      if (name === 'HSET') hash.set(field, value);
+      return Response.json({ result: name === 'HGET' ? hash.get(field) ?? null : 1 });
+    });
+
+    const store = createRedisChatStore('https://redis.example', 'token');
+    await store.save('telegram:1:1', { ...initialChatState, eventType: 'hiking' });
+    expect(await store.get('telegram:1:1')).toMatchObject({ eventType: 'hiking' });
+    expect(await store.get('telegram:2:2')).toBeNull();
+    expect(commands).toEqual([['HSET', 'telegram:1:1'], ['HGET', 'telegram:1:1'], ['HGET', 'telegram:2:2']]);
+  });
+
+  it('reports a failed command', async () => {
+    vi.stubGlobal('fetch', async () => Response.json({ error: 'WRONGPASS' }, { status: 401 }));
+    await expect(createRedisChatStore('https://redis.example', 'bad').get('slack:T:C:U')).rejects.toThrow('Redis HGET failed with status 401 (WRONGPASS)');
+  });
+});
+
+describe('getChatStore', () => {
+  it('refuses the file store on Vercel', () => {
+    vi.stubEnv('VERCEL', '1');
+    vi.stubEnv('KV_REST_API_URL', '');
+    vi.stubEnv('KV_REST_API_TOKEN', '');
+    expect(() => getChatStore()).toThrow('Chat apps on Vercel need KV_REST_API_URL and KV_REST_API_TOKEN');
+  });
+});
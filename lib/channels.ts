@@ -0,0 +1,225 @@
+// lib/channels.ts
+// Shared plumbing for the chat-platform webhooks (lib/slack, lib/telegram,
+// lib/discord). Each chat user on each platform gets their own ChatState,
+// stored between messages and advanced by the conversation engine one message
+// at a time. Replies go out as OutgoingCalls, so the fake-platform harness can
+// record them instead of sending them.
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { timingSafeEqual } from 'crypto';
+import { converse, greeting, initialChatState, type BotReply, type ConversationProviders } from './conversation';
+import { BUILT_IN_ACTIVITIES } from './activities';
+import { DEFAULT_PREFERENCES } from './units';
+import { RISK_KEYS } from './risk';
+import { createRedisCommand, redisCredentials } from './redis';
+import { DEFAULT_LANGUAGE, defaultLocale, isLanguage, messagesFor } from './i18n';
+import type { ChatState, Language, RiskData } from './types';
+
+export interface ChatStateStore {
+  get: (key: string) => Promise<ChatState | null>;
+  save: (key: string, state: ChatState) => Promise<void>;
+}
+
+// A call to a platform's API, e.g. Slack's chat.postMessage
+export interface OutgoingCall {
+  url: string;
+  method: 'POST' | 'PATCH';
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type Transport = (call: OutgoingCall) => Promise<void>;
+
+export interface ChannelDeps {
+  store: ChatStateStore;
+  providers: ConversationProviders;
+  transport: Transport;
+}
+
+// The webhook's own answer, plus any work to finish after it has been sent.
+// Platforms expect an answer within a few seconds; reports take longer.
+export interface ChannelResult {
+  response: Response;
+  work?: () => Promise<void>;
+}
+
+const DEFAULT_STORE_PATH = '.data/channels.json';
+const REDIS_KEY = 'channels';
+const API_TIMEOUT_MS = 10_000;
+// Slack and Discord both reject requests signed more than five minutes ago
+export const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+export const createFileChatStore = (filePath: string): ChatStateStore => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, ChatState>> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw error;
+    }
+  };
+
+  return {
+    get: async (key) => (await queue.then(read))[key] ?? null,
+    save: (key, state) => {
+      const next = queue.then(async () => {
+        const chats = await read();
+        chats[key] = state;
+        await mkdir(dirname(filePath), { recursive: true });
+        await writeFile(filePath, JSON.stringify(chats, null, 2));
+      });
+      queue = next.catch(() => undefined);
+      return next;
+    },
+  };
+};
+
+export const createMemoryChatStore = (): ChatStateStore => {
+  const chats = new Map<string, ChatState>();
+  return {
+    get: async (key) => chats.get(key) ?? null,
+    save: async (key, state) => {
+      chats.set(key, state);
+    },
+  };
+};
+
+// Each chat is one field of a hash, so chats answered by different instances
+// don't overwrite each other
+export const createRedisChatStore = (url: string, token: string, key = REDIS_KEY): ChatStateStore => {
+  const command = createRedisCommand(url, token);
+  return {
+    get: async (chat) => {
+      const value = await command<string | null>('HGET', key, chat);
+      return value ? JSON.parse(value) : null;
+    },
+    save: async (chat, state) => {
+      await command('HSET', key, chat, JSON.stringify(state));
+    },
+  };
+};
+
+let defaultStore: ChatStateStore | null = null;
+
+// The same choice as getWatchStore: Redis when KV_REST_API_URL and
+// KV_REST_API_TOKEN are set, otherwise a file, which CHANNEL_STORE_PATH can
+// point elsewhere. Vercel's filesystem is read-only and per-instance.
+export const getChatStore = (): ChatStateStore => {
+  if (!defaultStore) {
+    const redis = redisCredentials();
+    if (redis) {
+      defaultStore = createRedisChatStore(redis.url, redis.token);
+    } else if (process.env.VERCEL) {
+      throw new Error('Chat apps on Vercel need KV_REST_API_URL and KV_REST_API_TOKEN for a Redis store');
+    } else {
+      defaultStore = createFileChatStore(process.env.CHANNEL_STORE_PATH ?? DEFAULT_STORE_PATH);
+    }
+  }
+  return defaultStore;
+};
+
+export const httpTransport: Transport = async ({ url, method, headers, body }) => {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(API_TIMEOUT_MS),
+  });
+  const data = await response.json().catch(() => null);
+  // Slack answers 200 with { ok: false } on errors. Telegram URLs carry the
+  // bot token, so only the host is logged.
+  if (!response.ok || data?.ok === false) {
+    throw new Error(`${new URL(url).host} answered with status ${response.status}${data?.error ? ` (${data.error})` : ''}`);
+  }
+};
+
+// Messages from one chat are handled in order, so a quick second message
+// can't start from the state the first one is about to replace.
+const chatQueues = new Map<string, Promise<unknown>>();
+
+const inOrder = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const next = (chatQueues.get(key) ?? Promise.resolve()).then(task);
+  const settled = next.catch(() => undefined);
+  chatQueues.set(key, settled);
+  settled.then(() => {
+    if (chatQueues.get(key) === settled) chatQueues.delete(key);
+  });
+  return next;
+};
+
+// A platform locale such as "fr" or "es-ES" as a chat language; one the
+// catalogs don't cover gets the default
+export const languageFromLocale = (locale: unknown): Language => {
+  const base = typeof locale === 'string' ? locale.split(/[-_]/)[0].toLowerCase() : null;
+  return isLanguage(base) ? base : DEFAULT_LANGUAGE;
+};
+
+// Platforms have no settings screen, so every chat uses the built-in
+// activities and default units, in the language the platform gives
+const channelContext = (language: Language) => ({
+  activities: BUILT_IN_ACTIVITIES,
+  preferences: { ...DEFAULT_PREFERENCES, language, locale: defaultLocale(language) },
+});
+
+// Runs one message from a chat user through their conversation
+export const replyInChat = (key: string, text: string, { store, providers }: ChannelDeps, language: Language = DEFAULT_LANGUAGE): Promise<BotReply[]> =>
+  inOrder(key, async () => {
+    const state = (await store.get(key)) ?? initialChatState;
+    const result = await converse(state, { type: 'message', text }, channelContext(language), providers);
+    await store.save(key, result.state);
+    return result.messages;
+  });
+
+// Starts the chat user's conversation over, e.g. on Telegram's /start
+export const restartChat = (key: string, { store }: ChannelDeps, language: Language = DEFAULT_LANGUAGE): Promise<BotReply[]> =>
+  inOrder(key, async () => {
+    await store.save(key, initialChatState);
+    return [{ text: greeting(language) }];
+  });
+
+export const safeEqual = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+export const isFreshTimestamp = (seconds: string | null, now = Date.now()) =>
+  !!seconds && /^\d+$/.test(seconds) && Math.abs(now / 1000 - Number(seconds)) <= SIGNATURE_MAX_AGE_SECONDS;
+
+const RISK_ICONS: Record<keyof RiskData, string> = {
+  hot: '🔥',
+  cold: '❄️',
+  windy: '💨',
+  wet: '🌧️',
+  uncomfortable: '😓',
+  uv: '☀️',
+  airQuality: '😷',
+  storm: '⛈️',
+  snow: '🌨️',
+  gusts: '🌬️',
+};
+
+export const peakRisk = (risks: RiskData) => Math.max(...RISK_KEYS.map((key) => risks[key]));
+
+// The same bands as the risk cards in the chat
+export const riskLevel = (value: number): 'low' | 'moderate' | 'high' =>
+  value >= 60 ? 'high' : value >= 30 ? 'moderate' : 'low';
+
+export const RISK_LEVEL_EMOJI = { low: '🟢', moderate: '🟡', high: '🔴' } as const;
+
+export const riskEntries = (risks: RiskData, language: Language = DEFAULT_LANGUAGE) => RISK_KEYS.map((key) => {
+  const value = Math.round(risks[key]);
+  return { key, icon: RISK_ICONS[key], label: messagesFor(language).risks[key], value, level: riskLevel(value) };
+});
+
+export const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export const logFailures = (platform: string, work: () => Promise<void>) => async () => {
+  try {
+    await work();
+  } catch (error) {
+    console.error(`Error replying on ${platform}:`, error);
+  }
+};
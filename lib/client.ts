@@ -0,0 +1,111 @@
+// lib/client.ts
+// Browser-side helpers for the /api routes. Weather providers and any LLM keys
+// stay on the server; the chat UI only ever talks to these endpoints.
+import type { ConversationProviders } from './conversation';
+import type { ActivityProfile, BestDayAnalysis, ClimatologyData, ComparisonAnalysis, DisplayPreferences, Coordinates, HourlyAnalysis, HourlyWeather, NASAWeatherData, RangeAnalysis, TimeWindow, WatchChannel, WatchedEvent, WatchThresholds, WeatherAnalysis } from './types';
+
+const requestJSON = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Request to ${url} failed with status ${response.status}`);
+  }
+  return data as T;
+};
+
+// Resolves to an empty list when nothing matches (the route answers 404).
+export const fetchLocationCandidates = async (location: string): Promise<Coordinates[]> => {
+  const response = await fetch(`/api/geocode?q=${encodeURIComponent(location)}`);
+  if (response.status === 404) return [];
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new Error(data?.error || `Geocoding failed with status ${response.status}`);
+  }
+  return data as Coordinates[];
+};
+
+export const fetchWeatherData = (lat: number, lon: number, date: string, name: string) =>
+  requestJSON<NASAWeatherData>(`/api/forecast?lat=${lat}&lon=${lon}&date=${encodeURIComponent(date)}&name=${encodeURIComponent(name)}`);
+
+export const fetchWeatherRange = (lat: number, lon: number, startDate: string, endDate: string, name: string) =>
+  requestJSON<NASAWeatherData[]>(`/api/forecast?lat=${lat}&lon=${lon}&date=${encodeURIComponent(startDate)}&end=${encodeURIComponent(endDate)}&name=${encodeURIComponent(name)}`);
+
+// The full profile is always sent so custom and edited activities score correctly.
+export const fetchRiskAnalysis = (weatherData: NASAWeatherData, activity: ActivityProfile, date: string, preferences?: DisplayPreferences) =>
+  requestJSON<WeatherAnalysis>('/api/risk', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ weatherData, eventType: activity.id, activity, date, preferences }),
+  });
+
+export const fetchRangeAnalysis = (days: NASAWeatherData[], activity: ActivityProfile, preferences?: DisplayPreferences) =>
+  requestJSON<RangeAnalysis>('/api/risk/range', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ days, eventType: activity.id, activity, preferences }),
+  });
+
+export const fetchBestDays = (days: NASAWeatherData[], activity: ActivityProfile, preferences?: DisplayPreferences) =>
+  requestJSON<BestDayAnalysis>('/api/risk/best', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ days, eventType: activity.id, activity, preferences }),
+  });
+
+export const fetchComparison = (locations: NASAWeatherData[], activity: ActivityProfile, date: string, preferences?: DisplayPreferences) =>
+  requestJSON<ComparisonAnalysis>('/api/risk/compare', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ locations, eventType: activity.id, activity, date, preferences }),
+  });
+
+export const fetchHourlyWeather = (lat: number, lon: number, date: string, window: TimeWindow) =>
+  requestJSON<HourlyWeather[]>(`/api/forecast/hourly?lat=${lat}&lon=${lon}&date=${encodeURIComponent(date)}&start=${window.startHour}&end=${window.endHour}`);
+
+export const fetchHourlyAnalysis = (hours: HourlyWeather[], place: Coordinates, locationName: string, activity: ActivityProfile, date: string, window: TimeWindow, preferences?: DisplayPreferences) =>
+  requestJSON<HourlyAnalysis>('/api/risk/hourly', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ hours, lat: place.lat, lon: place.lon, locationName, eventType: activity.id, activity, date, window, preferences }),
+  });
+
+// The conversation engine's data, fetched through the routes above
+export const apiProviders: ConversationProviders = {
+  geocode: fetchLocationCandidates,
+  weather: fetchWeatherData,
+  weatherRange: fetchWeatherRange,
+  hourlyWeather: fetchHourlyWeather,
+  analyzeDay: fetchRiskAnalysis,
+  analyzeRange: fetchRangeAnalysis,
+  rankDays: fetchBestDays,
+  compare: fetchComparison,
+  analyzeHours: fetchHourlyAnalysis,
+};
+
+export const fetchClimatology = (lat: number, lon: number, date: string) =>
+  requestJSON<ClimatologyData>(`/api/climatology?lat=${lat}&lon=${lon}&date=${encodeURIComponent(date)}`);
+
+export const fetchWatches = (owner: string) =>
+  requestJSON<WatchedEvent[]>(`/api/watches?owner=${encodeURIComponent(owner)}`);
+
+export const createWatch = (owner: string, activity: ActivityProfile, location: Coordinates, date: string, preferences: DisplayPreferences, thresholds: WatchThresholds, channel: WatchChannel) =>
+  requestJSON<WatchedEvent>('/api/watches', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ owner, eventType: activity.id, activity, location, date, preferences, thresholds, channel }),
+  });
+
+export const updateWatch = (id: string, owner: string, changes: { thresholds?: WatchThresholds; channel?: WatchChannel }) =>
+  requestJSON<WatchedEvent>(`/api/watches/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ owner, ...changes }),
+  });
+
+export const deleteWatch = async (id: string, owner: string) => {
+  const response = await fetch(`/api/watches/${encodeURIComponent(id)}?owner=${encodeURIComponent(owner)}`, { method: 'DELETE' });
+  if (!response.ok && response.status !== 404) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `Deleting the watch failed with status ${response.status}`);
+  }
+};
@@ -0,0 +1,160 @@
+// lib/climatology.test.ts
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { computeExceedance, computePercentiles, createFixtureSource, parsePowerResponse, type PowerResponse } from './climatology';
+import { DEFAULT_THRESHOLDS } from './risk';
+import type { HistoricalDay } from './types';
+
+const FIXTURE = join(__dirname, 'fixtures', 'nasa-power-lisbon.json');
+
+const loadFixture = async (): Promise<PowerResponse> => JSON.parse(await readFile(FIXTURE, 'utf8'));
+
+// A mild day; tests override the fields they count
+const day = (date: string, overrides: Partial<HistoricalDay> = {}): HistoricalDay => ({
+  date,
+  meanTemp: 20,
+  maxTemp: 25,
+  minTemp: 15,
+  precipitation: 0,
+  maxWindSpeed: 15,
+  humidity: 50,
+  cloudCover: 20,
+  ...overrides,
+});
+
+describe('parsePowerResponse', () => {
+  it('reads one day per date from the fixture', async () => {
+    const days = parsePowerResponse(await loadFixture());
+    // Ten years of June 24 to July 8, less the day with a fill value
+    expect(days).toHaveLength(149);
+    expect(days[0].date).toBe('2016-06-24');
+    expect(days.some((entry) => entry.date === '2025-07-08')).toBe(false);
+  });
+
+  it('converts the wind to km/h and keeps the other units', () => {
+    const [parsed] = parsePowerResponse({
+      properties: {
+        parameter: {
+          T2M: { 20240701: 21.5 },
+          T2M_MAX: { 20240701: 27.1 },
+          T2M_MIN: { 20240701: 16.2 },
+          PRECTOTCORR: { 20240701: 0.4 },
+          WS10M_MAX: { 20240701: 10 },
+          RH2M: { 20240701: 62 },
+          CLOUD_AMT: { 20240701: 30 },
+        },
+      },
+    });
+    expect(parsed).toEqual({
+      date: '2024-07-01',
+      meanTemp: 21.5,
+      maxTemp: 27.1,
+      minTemp: 16.2,
+      precipitation: 0.4,
+      maxWindSpeed: 36,
+      humidity: 62,
+      cloudCover: 30,
+    });
+  });
+
+  it('skips days with a missing parameter or the fill value from the header', () => {
+    const series = (first: number, second: number) => ({ 20240701: first, 20240702: second });
+    const days = parsePowerResponse({
+      properties: {
+        parameter: {
+          T2M: series(21, 22),
+          T2M_MAX: series(27, -1),
+          T2M_MIN: series(16, 17),
+          PRECTOTCORR: { 20240702: 0 },
+          WS10M_MAX: series(5, 5),
+          RH2M: series(60, 60),
+          CLOUD_AMT: series(30, 30),
+        },
+      },
+      header: { fill_value: -1 },
+    });
+    expect(days).toEqual([]);
+  });
+
+  it('rejects a response without the temperature series', () => {
+    expect(() => parsePowerResponse({ properties: { parameter: {} } })).toThrow('Unexpected NASA POWER response shape');
+    expect(() => parsePowerResponse(null as unknown as PowerResponse)).toThrow('Unexpected NASA POWER response shape');
+  });
+});
+
+describe('createFixtureSource', () => {
+  it('keeps only the requested years', async () => {
+    const days = await createFixtureSource(FIXTURE).getDailyHistory(0, 0, 2020, 2021);
+    expect(days).toHaveLength(30);
+    expect(new Set(days.map((entry) => entry.date.slice(0, 4)))).toEqual(new Set(['2020', '2021']));
+  });
+});
+
+describe('computeExceedance', () => {
+  const history = [
+    day('2020-07-01', { maxTemp: 35 }),
+    day('2021-06-28', { precipitation: 12, maxWindSpeed: 50 }),
+    day('2022-07-05', { meanTemp: 28, humidity: 80 }),
+    day('2023-07-08'),
+    // Outside the ±7-day window
+    day('2023-07-20', { maxTemp: 40 }),
+    day('2024-01-02', { minTemp: -5 }),
+  ];
+
+  it('counts how often each threshold was passed within the window', () => {
+    const result = computeExceedance(history, '2026-07-01');
+    expect(result.probabilities).toEqual({ hot: 25, cold: 0, windy: 25, wet: 25, uncomfortable: 25, snow: 0 });
+    expect(result).toMatchObject({ sampleSize: 4, windowDays: 7, startYear: 2020, endYear: 2023, yearsUsed: [2020, 2021, 2022, 2023], thresholds: DEFAULT_THRESHOLDS });
+    expect(result.means.temperature).toBe(22);
+    expect(result.means.precipitation).toBe(3);
+  });
+
+  it('wraps the window around the new year', () => {
+    const result = computeExceedance(history, '2026-12-30');
+    expect(result.sampleSize).toBe(1);
+    expect(result.probabilities.cold).toBe(100);
+  });
+
+  it('counts precipitation on a day that stayed near freezing as snow', () => {
+    const result = computeExceedance([day('2021-01-10', { maxTemp: 0.5, minTemp: -3, precipitation: 4 }), day('2022-01-10', { maxTemp: 3, precipitation: 4 })], '2026-01-10');
+    expect(result.probabilities.snow).toBe(50);
+  });
+
+  it('returns zeros when nothing falls in the window', () => {
+    const result = computeExceedance(history, '2026-04-01');
+    expect(result).toMatchObject({ sampleSize: 0, startYear: 0, endYear: 0, yearsUsed: [] });
+    expect(Object.values(result.probabilities).every((probability) => probability === 0)).toBe(true);
+  });
+
+  it('takes the whole window from the fixture', async () => {
+    const result = computeExceedance(parsePowerResponse(await loadFixture()), '2026-07-01');
+    expect(result.sampleSize).toBe(149);
+    expect(result.yearsUsed).toEqual([2016, 2017, 2018, 2019, 2020, 2021, 2022, 2023, 2024, 2025]);
+    expect(result.probabilities.cold).toBe(0);
+    expect(result.probabilities.snow).toBe(0);
+  });
+});
+
+describe('computePercentiles', () => {
+  it('interpolates between the closest ranks', () => {
+    const history = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11].map((maxTemp, index) => day(`${2010 + index}-07-01`, { maxTemp }));
+    const result = computePercentiles(history, '2026-07-01');
+    expect(result.maxTemp).toEqual({ p10: 2, p25: 3.5, p50: 6, p75: 8.5, p90: 10 });
+    expect(result).toMatchObject({ sampleSize: 11, windowDays: 7, startYear: 2010, endYear: 2020 });
+  });
+
+  it('uses the same window as the exceedances', async () => {
+    const history = parsePowerResponse(await loadFixture());
+    const result = computePercentiles(history, '2026-07-01', 3);
+    expect(result.sampleSize).toBe(computeExceedance(history, '2026-07-01', 3).sampleSize);
+    expect(result.maxTemp.p10).toBeLessThanOrEqual(result.maxTemp.p50);
+    expect(result.maxTemp.p50).toBeLessThanOrEqual(result.maxTemp.p90);
+  });
+
+  it('returns zeros for an empty sample', () => {
+    const result = computePercentiles([], '2026-07-01');
+    expect(result.precipitation).toEqual({ p10: 0, p25: 0, p50: 0, p75: 0, p90: 0 });
+    expect(result).toMatchObject({ sampleSize: 0, startYear: 0, endYear: 0 });
+  });
+});
@@ -0,0 +1,221 @@
+// lib/climatology.ts
+// Historical exceedance probabilities from NASA POWER daily point data.
+// Instead of scoring a single forecast day, we count how often each threshold
+// was actually exceeded around the same day of year over several decades.
+import { readFile } from 'fs/promises';
+import { DEFAULT_THRESHOLDS } from './risk';
+import { dayOfYear } from './dates';
+import { coordinateKey, createTTLCache } from './cache';
+import type { ClimatePercentiles, ClimateThresholds, ClimatologyData, HistoricalDay, HistoricalRisks, Percentiles } from './types';
+
+export interface ClimatologySource {
+  name: string;
+  getDailyHistory: (lat: number, lon: number, startYear: number, endYear: number) => Promise<HistoricalDay[]>;
+}
+
+const POWER_PARAMETERS = ['T2M', 'T2M_MAX', 'T2M_MIN', 'PRECTOTCORR', 'WS10M_MAX', 'RH2M', 'CLOUD_AMT'] as const;
+const POWER_FILL_VALUE = -999;
+const DEFAULT_YEARS = 30;
+const DEFAULT_WINDOW_DAYS = 7;
+// Past years don't change, so history is kept for a day (mostly to bound memory)
+const HISTORY_TTL_MS = 24 * 60 * 60 * 1000;
+const HISTORY_CACHE_ENTRIES = 50;
+
+export type PowerParameter = (typeof POWER_PARAMETERS)[number];
+
+// The parts of a NASA POWER daily point response that are read. Series are
+// keyed by parameter, then by YYYYMMDD; days without data hold the fill value.
+export interface PowerResponse {
+  properties: {
+    parameter: Partial<Record<PowerParameter, Record<string, number>>>;
+  };
+  header?: {
+    fill_value?: number;
+  };
+}
+
+export const parsePowerResponse = (data: PowerResponse): HistoricalDay[] => {
+  const parameters = data?.properties?.parameter;
+  if (!parameters || !parameters.T2M) {
+    throw new Error('Unexpected NASA POWER response shape');
+  }
+  const fillValue = data.header?.fill_value ?? POWER_FILL_VALUE;
+
+  const days: HistoricalDay[] = [];
+  for (const key of Object.keys(parameters.T2M)) {
+    const values = POWER_PARAMETERS.map((param) => parameters[param]?.[key]);
+    if (values.some((value) => typeof value !== 'number' || value === fillValue)) continue;
+
+    const [meanTemp, maxTemp, minTemp, precipitation, maxWind, humidity, cloudCover] = values as number[];
+    days.push({
+      date: `${key.slice(0, 4)}-${key.slice(4, 6)}-${key.slice(6, 8)}`,
+      meanTemp,
+      maxTemp,
+      minTemp,
+      precipitation,
+      maxWindSpeed: maxWind * 3.6, // m/s -> km/h
+      humidity,
+      cloudCover,
+    });
+  }
+  return days;
+};
+
+export const createPowerSource = (): ClimatologySource => ({
+  name: 'NASA POWER Daily (MERRA-2)',
+  getDailyHistory: async (lat, lon, startYear, endYear) => {
+    const response = await fetch(
+      `https://power.larc.nasa.gov/api/temporal/daily/point?parameters=${POWER_PARAMETERS.join(',')}&community=AG&latitude=${lat}&longitude=${lon}&start=${startYear}0101&end=${endYear}1231&format=JSON`
+    );
+    if (!response.ok) {
+      throw new Error(`NASA POWER request failed with status ${response.status}`);
+    }
+    return parsePowerResponse((await response.json()) as PowerResponse);
+  },
+});
+
+// Replays a recorded NASA POWER JSON response from disk, ignoring the requested
+// location. Set NASA_POWER_FIXTURE to use it in place of the live service;
+// lib/fixtures/nasa-power-lisbon.json covers late June to early July.
+export const createFixtureSource = (filePath: string): ClimatologySource => ({
+  name: `NASA POWER fixture (${filePath})`,
+  getDailyHistory: async (_lat, _lon, startYear, endYear) => {
+    const days = parsePowerResponse(JSON.parse(await readFile(filePath, 'utf8')) as PowerResponse);
+    return days.filter((day) => {
+      const year = Number(day.date.slice(0, 4));
+      return year >= startYear && year <= endYear;
+    });
+  },
+});
+
+export const getClimatologySource = (): ClimatologySource =>
+  process.env.NASA_POWER_FIXTURE ? createFixtureSource(process.env.NASA_POWER_FIXTURE) : createPowerSource();
+
+const isWithinWindow = (date: string, target: number, windowDays: number) => {
+  const distance = Math.abs(dayOfYear(date) - target);
+  return Math.min(distance, 365 - distance) <= windowDays;
+};
+
+const percentage = (count: number, total: number) => (total === 0 ? 0 : (count / total) * 100);
+
+export const computeExceedance = (
+  history: HistoricalDay[],
+  date: string,
+  windowDays = DEFAULT_WINDOW_DAYS,
+  thresholds: ClimateThresholds = DEFAULT_THRESHOLDS,
+): Omit<ClimatologyData, 'source'> => {
+  const target = dayOfYear(date);
+  const sample = history.filter((day) => isWithinWindow(day.date, target, windowDays));
+  const count = (predicate: (day: HistoricalDay) => boolean) => percentage(sample.filter(predicate).length, sample.length);
+
+  // POWER has no snowfall series everywhere, so a snow day is precipitation on
+  // a day that stayed near freezing (1 mm of water is about 1 cm of snow)
+  const probabilities: HistoricalRisks = {
+    hot: count((day) => day.maxTemp > thresholds.hotMaxTemp),
+    cold: count((day) => day.minTemp < thresholds.coldMinTemp),
+    windy: count((day) => day.maxWindSpeed > thresholds.windyMaxSpeed),
+    wet: count((day) => day.precipitation > thresholds.wetPrecipitation),
+    uncomfortable: count((day) => day.meanTemp > thresholds.uncomfortableTemp && day.humidity > thresholds.uncomfortableHumidity),
+    snow: count((day) => day.maxTemp <= 1 && day.precipitation >= thresholds.snowfall),
+  };
+
+  const average = (pick: (day: HistoricalDay) => number) =>
+    sample.length === 0 ? 0 : sample.reduce((sum, day) => sum + pick(day), 0) / sample.length;
+
+  const yearsUsed = Array.from(new Set(sample.map((day) => Number(day.date.slice(0, 4))))).sort((a, b) => a - b);
+
+  return {
+    probabilities,
+    thresholds,
+    sampleSize: sample.length,
+    windowDays,
+    startYear: yearsUsed[0] ?? 0,
+    endYear: yearsUsed[yearsUsed.length - 1] ?? 0,
+    yearsUsed,
+    means: {
+      temperature: average((day) => day.meanTemp),
+      precipitation: average((day) => day.precipitation),
+      humidity: average((day) => day.humidity),
+      windSpeed: average((day) => day.maxWindSpeed),
+      cloudCover: average((day) => day.cloudCover),
+    },
+  };
+};
+
+// Linear interpolation between the closest ranks
+const quantile = (sorted: number[], q: number) => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, sorted.length - 1);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const percentilesOf = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: quantile(sorted, 0.1),
+    p25: quantile(sorted, 0.25),
+    p50: quantile(sorted, 0.5),
+    p75: quantile(sorted, 0.75),
+    p90: quantile(sorted, 0.9),
+  };
+};
+
+// Same ±window sample as computeExceedance, summarised as percentiles
+export const computePercentiles = (history: HistoricalDay[], date: string, windowDays = DEFAULT_WINDOW_DAYS): ClimatePercentiles => {
+  const target = dayOfYear(date);
+  const sample = history.filter((day) => isWithinWindow(day.date, target, windowDays));
+  const years = sample.map((day) => Number(day.date.slice(0, 4)));
+  return {
+    maxTemp: percentilesOf(sample.map((day) => day.maxTemp)),
+    minTemp: percentilesOf(sample.map((day) => day.minTemp)),
+    precipitation: percentilesOf(sample.map((day) => day.precipitation)),
+    windSpeed: percentilesOf(sample.map((day) => day.maxWindSpeed)),
+    sampleSize: sample.length,
+    windowDays,
+    startYear: years.length > 0 ? Math.min(...years) : 0,
+    endYear: years.length > 0 ? Math.max(...years) : 0,
+  };
+};
+
+const historyCache = createTTLCache<HistoricalDay[]>({ ttlMs: HISTORY_TTL_MS, maxEntries: HISTORY_CACHE_ENTRIES });
+
+// Thirty years of daily data is a large download, and the same place is
+// needed for exceedances, percentiles and watch checks alike.
+export const getHistoricalRecords = async (
+  lat: number,
+  lon: number,
+  source: ClimatologySource = getClimatologySource(),
+): Promise<HistoricalDay[]> => {
+  const endYear = new Date().getUTCFullYear() - 1;
+  const startYear = endYear - DEFAULT_YEARS + 1;
+  const { value: history } = await historyCache.get(`${source.name}:${coordinateKey(lat, lon)}:${startYear}-${endYear}`, async () => {
+    const days = await source.getDailyHistory(lat, lon, startYear, endYear);
+    if (days.length === 0) {
+      throw new Error('No historical data available for this location');
+    }
+    return days;
+  });
+  return history;
+};
+
+export const getClimatology = async (
+  lat: number,
+  lon: number,
+  date: string,
+  windowDays = DEFAULT_WINDOW_DAYS,
+  thresholds: ClimateThresholds = DEFAULT_THRESHOLDS,
+  source: ClimatologySource = getClimatologySource(),
+): Promise<ClimatologyData> => {
+  const history = await getHistoricalRecords(lat, lon, source);
+  return { ...computeExceedance(history, date, windowDays, thresholds), source: source.name };
+};
+
+export const getClimatePercentiles = async (
+  lat: number,
+  lon: number,
+  date: string,
+  windowDays = DEFAULT_WINDOW_DAYS,
+  source: ClimatologySource = getClimatologySource(),
+): Promise<ClimatePercentiles> => computePercentiles(await getHistoricalRecords(lat, lon, source), date, windowDays);
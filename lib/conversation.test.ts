@@ -0,0 +1,190 @@
+// lib/conversation.test.ts
+// Scripted dialogues against stub providers: fixed places and weather, a fixed
+// clock, forecast-mode scoring and no LLM.
+import { describe, expect, it } from 'vitest';
+import { runScript, type ConversationContext } from './conversation';
+import { createStubProviders, type StubConditions } from './providers';
+import { BUILT_IN_ACTIVITIES } from './activities';
+import { DEFAULT_PREFERENCES } from './units';
+import type { Coordinates } from './types';
+
+const LISBON: Coordinates = { lat: 38.72, lon: -9.14, name: 'Lisbon', country: 'Portugal', population: 545000 };
+const PORTO: Coordinates = { lat: 41.15, lon: -8.61, name: 'Porto', country: 'Portugal', population: 232000 };
+const SPRINGFIELD_IL: Coordinates = { lat: 39.8, lon: -89.64, name: 'Springfield', region: 'Illinois', country: 'United States', population: 114000 };
+const SPRINGFIELD_MO: Coordinates = { lat: 37.21, lon: -93.29, name: 'Springfield', region: 'Missouri', country: 'United States', population: 169000 };
+
+const places = { lisbon: [LISBON], porto: [PORTO], springfield: [SPRINGFIELD_IL, SPRINGFIELD_MO] };
+
+const DRY: StubConditions = { temperature: 20, precipitation: 0, humidity: 50, windSpeed: 8, cloudCover: 20 };
+const STORMY: StubConditions = { temperature: 14, precipitation: 25, humidity: 90, windSpeed: 45, cloudCover: 100 };
+
+// Monday, June 1, 2026
+const context: ConversationContext = {
+  activities: BUILT_IN_ACTIVITIES,
+  preferences: DEFAULT_PREFERENCES,
+  now: new Date('2026-06-01T09:00:00Z'),
+  random: () => 0,
+};
+
+const play = (lines: string[], conditions?: StubConditions | ((date: string) => StubConditions)) =>
+  runScript(lines, context, createStubProviders({ places, conditions }));
+
+// Everything the bot said in reply to one line
+const said = (turn: { bot: string[] }) => turn.bot.join('\n\n');
+
+describe('intent', () => {
+  it('fills every slot from one message and runs the report', async () => {
+    const { state, turns } = await play(['hiking in lisbon tomorrow']);
+    expect(state).toMatchObject({ stage: 'complete', eventType: 'hiking', location: 'Lisbon, Portugal', date: '2026-06-02', endDate: '2026-06-02' });
+    expect(said(turns[0])).toContain('Based on the Stub weather data for Lisbon, Portugal on Tuesday, June 2, 2026');
+  });
+
+  it('asks for each missing slot in turn', async () => {
+    const { state, turns } = await play(['picnic', 'lisbon', 'june 5']);
+    expect(said(turns[0])).toContain('where');
+    expect(said(turns[1])).toContain("When's the big day?");
+    expect(said(turns[2])).toContain('Friday, June 5, 2026');
+    expect(state).toMatchObject({ stage: 'complete', eventType: 'picnic', date: '2026-06-05' });
+  });
+
+  it('reads a time window and reports by the hour', async () => {
+    const { state, turns } = await play(['hiking in lisbon tomorrow 2pm-6pm']);
+    expect(state.timeWindow).toEqual({ startHour: 14, endHour: 18 });
+    expect(said(turns[0])).toContain('Worst hour is');
+  });
+
+  it('reads a named window next to the date', async () => {
+    const { state } = await play(['hiking in lisbon tomorrow morning']);
+    expect(state.timeWindow).toEqual({ startHour: 6, endHour: 12 });
+  });
+
+  it('does not read a greeting as a time window', async () => {
+    const { state, turns } = await play(['Good morning! hiking in lisbon tomorrow']);
+    expect(state.timeWindow).toBeNull();
+    expect(said(turns[0])).not.toContain('Worst hour');
+  });
+
+  it('reads a date range', async () => {
+    const { state, turns } = await play(['hiking in lisbon from june 3 to june 5']);
+    expect(state).toMatchObject({ date: '2026-06-03', endDate: '2026-06-05', bestDay: false });
+    expect(said(turns[0])).toContain('3-day outlook');
+  });
+
+  it('offers the matches for an ambiguous place and takes a number', async () => {
+    const { state, turns } = await play(['hiking', 'springfield', '2']);
+    expect(said(turns[1])).toContain('1. Springfield, Illinois, United States');
+    expect(said(turns[1])).toContain('2. Springfield, Missouri, United States');
+    expect(state).toMatchObject({ stage: 'date', coords: SPRINGFIELD_MO, candidates: [] });
+  });
+
+  it('says when a place or activity is not recognised', async () => {
+    const { state, turns } = await play(['knitting', 'hiking in atlantis']);
+    expect(said(turns[0])).toContain("I'm not quite sure about that activity");
+    expect(said(turns[1])).toContain('I couldn\'t find a place called "atlantis"');
+    expect(state).toMatchObject({ stage: 'location', eventType: 'hiking', coords: null });
+  });
+});
+
+describe('corrections', () => {
+  it('changes the place and re-runs the report', async () => {
+    const { state, turns } = await play(['picnic in lisbon on june 5', 'actually make it porto']);
+    expect(said(turns[1])).toContain('Updating the place and re-running the report');
+    expect(said(turns[1])).toContain('Based on the Stub weather data for Porto, Portugal on Friday, June 5, 2026');
+    expect(state).toMatchObject({ stage: 'complete', eventType: 'picnic', coords: PORTO, date: '2026-06-05' });
+  });
+
+  it('changes the date and keeps the rest of the plan', async () => {
+    const { state, turns } = await play(['hiking in lisbon tomorrow', 'make it Sunday']);
+    expect(said(turns[1])).toContain('Updating the date');
+    expect(state).toMatchObject({ eventType: 'hiking', coords: LISBON, date: '2026-06-07', endDate: '2026-06-07' });
+  });
+
+  it('narrows the report to part of the day', async () => {
+    const { state, turns } = await play(['hiking in lisbon tomorrow', 'what about the afternoon?']);
+    expect(said(turns[1])).toContain('Worst hour is');
+    expect(state).toMatchObject({ date: '2026-06-02', timeWindow: { startHour: 12, endHour: 18 } });
+  });
+
+  it('changes the activity for a whole range', async () => {
+    const { state, turns } = await play(['hiking in lisbon from june 3 to june 5', 'actually picnic']);
+    expect(said(turns[1])).toContain('Updating the activity');
+    expect(state).toMatchObject({ eventType: 'picnic', date: '2026-06-03', endDate: '2026-06-05' });
+  });
+
+  it('starts a new plan when the message is not a correction', async () => {
+    const { state } = await play(['hiking in lisbon tomorrow', 'picnic']);
+    expect(state).toMatchObject({ stage: 'location', eventType: 'picnic', coords: null, date: null });
+  });
+});
+
+describe('compare', () => {
+  it('scores a list of places for one day and picks the lowest risk', async () => {
+    const stub = createStubProviders({ places, conditions: DRY });
+    // Porto gets the storm
+    const providers = { ...stub, weather: async (lat: number, lon: number, date: string, name: string) => ({ ...(await stub.weather(lat, lon, date, name)), ...(lat === PORTO.lat ? STORMY : {}) }) };
+    const { state, turns } = await runScript(['picnic', 'Lisbon vs Porto', 'june 4'], context, providers);
+    expect(said(turns[1])).toContain("Let's compare 2 places");
+    expect(said(turns[2])).toContain('Best bet is Lisbon, Portugal');
+    expect(state).toMatchObject({ stage: 'complete', location: 'Lisbon, Portugal vs Porto, Portugal', coords: null, comparison: [LISBON, PORTO] });
+  });
+
+  it('leaves out places it could not find', async () => {
+    const { state, turns } = await play(['picnic in Lisbon, Porto, Faro on june 4']);
+    expect(said(turns[0])).toContain('I couldn\'t find "Faro", so I\'ve left it out.');
+    expect(state.comparison).toEqual([LISBON, PORTO]);
+  });
+
+  it('needs a single day', async () => {
+    const { state, turns } = await play(['picnic', 'Lisbon vs Porto', 'june 4 to june 6']);
+    expect(said(turns[2])).toContain('one day');
+    expect(state).toMatchObject({ stage: 'date', date: null });
+  });
+});
+
+describe('best day', () => {
+  it('ranks the days in the window', async () => {
+    const { state, turns } = await play(
+      ['best day for hiking in lisbon between june 3 and june 8'],
+      (date) => (date === '2026-06-06' ? DRY : STORMY),
+    );
+    expect(said(turns[0])).toContain('Best day for hiking between Wed, Jun 3 and Mon, Jun 8 is Saturday, June 6, 2026');
+    expect(state).toMatchObject({ stage: 'complete', bestDay: true, date: '2026-06-03', endDate: '2026-06-08' });
+  });
+
+  it('asks for a window when given a single day', async () => {
+    const { state, turns } = await play(['what is the best day for hiking in lisbon tomorrow']);
+    expect(said(turns[0])).toContain('To find the best day I need a window to search');
+    expect(state).toMatchObject({ stage: 'date', bestDay: true, date: null });
+  });
+});
+
+describe('invalid and past dates', () => {
+  it('rejects a date that has passed', async () => {
+    const { state, turns } = await play(['hiking in lisbon', 'may 20 2026']);
+    expect(said(turns[1])).toBe('Wednesday, May 20, 2026 has already passed. Which upcoming date should I check?');
+    expect(state).toMatchObject({ stage: 'date', date: null });
+  });
+
+  it('keeps the rest of a message with a past date', async () => {
+    const { state, turns } = await play(['hiking in lisbon on 2026-03-03']);
+    expect(said(turns[0])).toMatch(/^Tuesday, March 3, 2026 has already passed\. Got it! Lisbon/);
+    expect(state).toMatchObject({ stage: 'date', coords: LISBON, date: null });
+  });
+
+  it('rejects a range that ends before it starts', async () => {
+    const { state, turns } = await play(['hiking in lisbon', 'june 8 to june 3']);
+    expect(said(turns[1])).toContain('is before its start');
+    expect(state).toMatchObject({ stage: 'date', date: null, endDate: null });
+  });
+
+  it('does not read an impossible date', async () => {
+    const { state, turns } = await play(['hiking in lisbon on 2026-02-31']);
+    expect(said(turns[0])).toContain("When's the big day?");
+    expect(state).toMatchObject({ stage: 'date', date: null });
+  });
+
+  it('takes the next occurrence of a month and day that has passed this year', async () => {
+    const { state } = await play(['hiking in lisbon on march 3']);
+    expect(state.date).toBe('2027-03-03');
+  });
+});
@@ -0,0 +1,583 @@
+// lib/conversation.ts
+// The chat as a pure state machine. `step(state, input, context)` returns the
+// next state, the bot's replies and any effects (geocoding, running a report)
+// still to carry out. `runEffect` carries one out against injectable
+// ConversationProviders and turns the outcome into the next input, and
+// `converse` loops the two. The web page, chat platforms and scripted
+// dialogues all drive the same conversation this way.
+import { MAX_RANGE_DAYS, formatAge, formatLongDate, formatTimeWindow, isPastDate, listDatesBetween, minutesSince, toIsoDate } from './dates';
+import { extractSlots, hasSlots, type ExtractedSlots, type Slot } from './intent';
+import { FORECAST_HORIZON_DAYS, isWithinForecastHorizon } from './weather';
+import { MAX_COMPARISON_PLACES, describesSinglePlace, formatCoordinates, formatPlace, hasExplicitPlaceList, isUnambiguous, splitPlaceList } from './geocode';
+import { findActivity, localizeActivity } from './activities';
+import { formatPrecipitation, formatSnowfall, formatSpeed, formatTemperature } from './units';
+import { feelsLikeRange, isThunderstorm } from './risk';
+import { dataKindOf } from './provenance';
+import { DEFAULT_LANGUAGE, fill, languageOf, messagesFor, plural, toEnglishPhrases } from './i18n';
+import type { ActivityProfile, BestDayAnalysis, ChatMessage, ChatState, ComparisonAnalysis, Coordinates, DisplayPreferences, HourlyAnalysis, HourlyWeather, Language, NASAWeatherData, RangeAnalysis, RankedDay, ReportContext, TimeWindow, WeatherAnalysis } from './types';
+
+export type MessageDetails = Pick<ChatMessage, 'riskData' | 'dataSources' | 'provenance' | 'dailyRisks' | 'hourlyRisks' | 'bestDays' | 'comparison' | 'weatherData' | 'percentiles' | 'report'>;
+
+export interface BotReply {
+  text: string;
+  details?: MessageDetails;
+}
+
+// Where the weather and the analyses come from. The browser goes through the
+// /api routes (`apiProviders` in lib/client); server-side channels call the
+// analysis directly, and scripted dialogues use stub data.
+export interface ConversationProviders {
+  // An empty list when nothing matches; rejects when the service is unreachable
+  geocode: (query: string) => Promise<Coordinates[]>;
+  weather: (lat: number, lon: number, date: string, name: string) => Promise<NASAWeatherData>;
+  weatherRange: (lat: number, lon: number, startDate: string, endDate: string, name: string) => Promise<NASAWeatherData[]>;
+  hourlyWeather: (lat: number, lon: number, date: string, window: TimeWindow) => Promise<HourlyWeather[]>;
+  analyzeDay: (weatherData: NASAWeatherData, activity: ActivityProfile, date: string, preferences?: DisplayPreferences) => Promise<WeatherAnalysis>;
+  analyzeRange: (days: NASAWeatherData[], activity: ActivityProfile, preferences?: DisplayPreferences) => Promise<RangeAnalysis>;
+  rankDays: (days: NASAWeatherData[], activity: ActivityProfile, preferences?: DisplayPreferences) => Promise<BestDayAnalysis>;
+  compare: (locations: NASAWeatherData[], activity: ActivityProfile, date: string, preferences?: DisplayPreferences) => Promise<ComparisonAnalysis>;
+  analyzeHours: (hours: HourlyWeather[], place: Coordinates, locationName: string, activity: ActivityProfile, date: string, window: TimeWindow, preferences?: DisplayPreferences) => Promise<HourlyAnalysis>;
+}
+
+export interface ConversationContext {
+  activities: ActivityProfile[];
+  preferences: DisplayPreferences;
+  // Reference time for relative dates and the forecast horizon; defaults to now
+  now?: Date;
+  // Picks between equivalent phrasings; a fixed one makes transcripts repeatable
+  random?: () => number;
+}
+
+// What a report covers; a ranked day already carries its weather
+export type ReportRequest =
+  | { kind: 'day'; weather?: NASAWeatherData }
+  | { kind: 'hourly'; window: TimeWindow }
+  | { kind: 'range' }
+  | { kind: 'best' }
+  | { kind: 'comparison'; places: Coordinates[] };
+
+export type ReportResult =
+  | { kind: 'day'; weather: NASAWeatherData; analysis: WeatherAnalysis }
+  | { kind: 'hourly'; analysis: HourlyAnalysis }
+  | { kind: 'range'; analysis: RangeAnalysis }
+  | { kind: 'best'; analysis: BestDayAnalysis }
+  | { kind: 'comparison'; analysis: ComparisonAnalysis };
+
+// Effects carry the plan they were made for, so their result can be applied
+// to it when it comes back.
+export type LocateEffect = { type: 'locate'; query: string; plan: ChatState; note: string };
+export type LocateAllEffect = { type: 'locateAll'; places: string[]; plan: ChatState; note: string };
+export type ReportEffect = { type: 'report'; request: ReportRequest; activity: ActivityProfile; report: ReportContext; followUp: boolean };
+export type ConversationEffect = LocateEffect | LocateAllEffect | ReportEffect;
+
+export type ConversationInput =
+  | { type: 'message'; text: string }
+  // A quick-reply activity button
+  | { type: 'activity'; activity: ActivityProfile }
+  // One of the candidate places offered
+  | { type: 'place'; place: Coordinates }
+  // "Full report" on a day from a best-day ranking
+  | { type: 'rankedDay'; day: RankedDay; ranking: ReportContext }
+  // Effect results; null candidates or result means the call failed
+  | { type: 'located'; effect: LocateEffect; candidates: Coordinates[] | null }
+  | { type: 'locatedAll'; effect: LocateAllEffect; results: Coordinates[][] }
+  | { type: 'reported'; effect: ReportEffect; result: ReportResult | null };
+
+export interface StepResult {
+  state: ChatState;
+  messages: BotReply[];
+  effects: ConversationEffect[];
+}
+
+export const initialChatState: ChatState = {
+  stage: 'event',
+  eventType: null,
+  location: null,
+  coords: null,
+  candidates: [],
+  date: null,
+  endDate: null,
+  timeWindow: null,
+  bestDay: false,
+  comparison: [],
+};
+
+export const greeting = (language: Language = DEFAULT_LANGUAGE) => messagesFor(language).chat.greeting;
+
+// The slot the bot is waiting for at each stage; after a report nothing is pending
+const expectedSlot = (stage: ChatState['stage']): Slot | null =>
+  stage === 'event' ? 'activity' : stage === 'location' ? 'location' : stage === 'date' ? 'date' : null;
+
+// Says what the listed values are: a live forecast, one served from cache, or
+// seasonal estimates when no forecast could be fetched
+const conditionsHeading = (weatherData: NASAWeatherData, language: Language) => {
+  const { chat } = messagesFor(language);
+  if (weatherData.stale && weatherData.fetchedAt) {
+    return fill(chat.cachedHeading, { age: formatAge(minutesSince(weatherData.fetchedAt), language) });
+  }
+  if (dataKindOf(weatherData.provenance) === 'estimate') return chat.estimateHeading;
+  return weatherData.provenance ? chat.realtimeHeading : chat.weatherHeading;
+};
+
+// The day's readings, with the hazard ones only when the data has them
+const conditionLines = (weather: NASAWeatherData, preferences: DisplayPreferences) => {
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences);
+  const feelsLike = feelsLikeRange(weather);
+  const { conditions } = messagesFor(languageOf(preferences)).chat;
+  const lines = [
+    fill(conditions.temperature, { value: temperature(weather.temperature) }),
+    Math.round(feelsLike.high) !== Math.round(feelsLike.low)
+      ? fill(conditions.feelsLikeRange, { low: temperature(feelsLike.low), high: temperature(feelsLike.high) })
+      : fill(conditions.feelsLike, { value: temperature(feelsLike.high) }),
+    fill(conditions.windSpeed, { value: formatSpeed(weather.windSpeed, preferences) }),
+    weather.windGusts !== undefined && fill(conditions.windGusts, { value: formatSpeed(weather.windGusts, preferences) }),
+    fill(conditions.precipitation, { value: formatPrecipitation(weather.precipitation, preferences) }),
+    weather.snowfall !== undefined && weather.snowfall > 0 && fill(conditions.snowfall, { value: formatSnowfall(weather.snowfall, preferences) }),
+    weather.weatherCode !== undefined && isThunderstorm(weather.weatherCode) && conditions.thunderstorms,
+    fill(conditions.humidity, { value: Math.round(weather.humidity) }),
+    fill(conditions.cloudCover, { value: Math.round(weather.cloudCover) }),
+    weather.uvIndex !== undefined && fill(conditions.uvIndex, { value: Math.round(weather.uvIndex) }),
+    weather.airQuality !== undefined && fill(conditions.airQuality, { value: Math.round(weather.airQuality) }),
+  ];
+  return lines.filter((line): line is string => !!line);
+};
+
+const formatTips = (language: Language, packingTips?: string[], mitigationTips?: string[]) => {
+  const { chat } = messagesFor(language);
+  return [
+    packingTips?.length ? `${chat.pack}\n${packingTips.map((tip) => `• ${tip}`).join('\n')}` : '',
+    mitigationTips?.length ? `${chat.planAhead}\n${mitigationTips.map((tip) => `• ${tip}`).join('\n')}` : '',
+  ].filter(Boolean).join('\n\n');
+};
+
+const withTips = (text: string, analysis: { packingTips?: string[]; mitigationTips?: string[] }, language: Language) => {
+  const tips = formatTips(language, analysis.packingTips, analysis.mitigationTips);
+  return tips ? `${text}\n\n${tips}` : text;
+};
+
+// The chat message for a finished report
+export const reportReply = (result: ReportResult, report: ReportContext, preferences: DisplayPreferences): BotReply => {
+  const temperature = (celsius: number) => formatTemperature(celsius, preferences);
+  const speed = (kmh: number) => formatSpeed(kmh, preferences);
+  const precipitation = (mm: number) => formatPrecipitation(mm, preferences);
+  const language = languageOf(preferences);
+  const { chat } = messagesFor(language);
+
+  switch (result.kind) {
+    case 'comparison': {
+      const { analysis } = result;
+      return {
+        text: withTips(analysis.analysis, analysis, language),
+        details: { riskData: analysis.locations[analysis.bestIndex].risks, dataSources: analysis.dataSources, comparison: analysis.locations, report },
+      };
+    }
+    case 'best': {
+      const { analysis } = result;
+      return {
+        text: withTips(analysis.analysis, analysis, language),
+        details: { riskData: analysis.top[0].risks, dataSources: analysis.dataSources, bestDays: analysis.top, report },
+      };
+    }
+    case 'range': {
+      const { analysis } = result;
+      return {
+        text: withTips(analysis.analysis, analysis, language),
+        details: { riskData: analysis.overall, dataSources: analysis.dataSources, dailyRisks: analysis.days, report },
+      };
+    }
+    case 'hourly': {
+      const { analysis } = result;
+      return {
+        text: withTips(analysis.analysis, analysis, language),
+        details: { riskData: analysis.risks, dataSources: analysis.dataSources, hourlyRisks: analysis.hours, report },
+      };
+    }
+    case 'day': {
+      const { analysis, weather } = result;
+      const climatology = analysis.climatology;
+      const { historical } = chat;
+      const percent = (probability: number) => Math.round(probability);
+      const text = climatology
+        ? `${analysis.analysis}\n\n${fill(historical.heading, { start: climatology.startYear, end: climatology.endYear, days: climatology.sampleSize, years: climatology.yearsUsed.length })}\n${[
+          fill(historical.hot, { value: temperature(climatology.thresholds.hotMaxTemp), percent: percent(climatology.probabilities.hot) }),
+          fill(historical.cold, { value: temperature(climatology.thresholds.coldMinTemp), percent: percent(climatology.probabilities.cold) }),
+          fill(historical.windy, { value: speed(climatology.thresholds.windyMaxSpeed), percent: percent(climatology.probabilities.windy) }),
+          fill(historical.wet, { value: precipitation(climatology.thresholds.wetPrecipitation), percent: percent(climatology.probabilities.wet) }),
+          fill(historical.uncomfortable, { value: temperature(climatology.thresholds.uncomfortableTemp), humidity: climatology.thresholds.uncomfortableHumidity, percent: percent(climatology.probabilities.uncomfortable) }),
+          fill(historical.snow, { value: formatSnowfall(climatology.thresholds.snowfall, preferences), percent: percent(climatology.probabilities.snow) }),
+        ].map((line) => `• ${line}`).join('\n')}`
+        : `${analysis.analysis}\n\n${conditionsHeading(weather, language)}\n${conditionLines(weather, preferences).map((line) => `• ${line}`).join('\n')}`;
+      return {
+        text: withTips(text, analysis, language),
+        details: { riskData: analysis.risks, dataSources: analysis.dataSources, provenance: analysis.provenance, weatherData: weather, percentiles: analysis.percentiles, report },
+      };
+    }
+  }
+};
+
+// One step of the conversation. Pure: the same state, input and context
+// always give the same result.
+export const step = (state: ChatState, input: ConversationInput, context: ConversationContext): StepResult => {
+  const { preferences } = context;
+  const language = languageOf(preferences);
+  const { chat } = messagesFor(language);
+  // Built-in activities answer to their names in the chosen language too
+  const activities = context.activities.map((profile) => localizeActivity(profile, language));
+  const list = (items: string[]) => items.join(chat.listSeparator);
+  const now = context.now ?? new Date();
+  const random = context.random ?? Math.random;
+  const longDate = (iso: string) => formatLongDate(iso, preferences.locale);
+  const pickResponse = (responses: string[]) => responses[Math.floor(random() * responses.length)];
+  const reply = (next: ChatState, ...texts: string[]): StepResult => ({ state: next, messages: texts.map((text) => ({ text })), effects: [] });
+
+  // Past, reversed or over-long dates are rejected whatever else is in the plan
+  const datesProblem = ({ start, end }: { start: Date; end: Date }, bestDay: boolean) => {
+    if (isPastDate(start, now)) {
+      return { reason: fill(chat.datePassed, { date: longDate(toIsoDate(start)) }), question: chat.askUpcomingDate };
+    }
+    const date = toIsoDate(start);
+    const endDate = toIsoDate(end);
+    if (endDate < date) {
+      return { reason: fill(chat.rangeReversed, { date: longDate(endDate) }), question: chat.askDatesAgain };
+    }
+    const dayCount = listDatesBetween(date, endDate).length;
+    if (dayCount > MAX_RANGE_DAYS) {
+      return { reason: fill(bestDay ? chat.rangeTooLongSearch : chat.rangeTooLongBreakDown, { count: dayCount, max: MAX_RANGE_DAYS }), question: chat.askShorterRange };
+    }
+    return null;
+  };
+
+  // Date problems that depend on the rest of the plan
+  const planProblem = (plan: ChatState) => {
+    const single = plan.date === plan.endDate;
+    if (plan.comparison.length > 0 && !single) {
+      return fill(chat.comparisonNeedsOneDay, { location: plan.location! });
+    }
+    if (plan.bestDay && single) {
+      return chat.bestDayNeedsWindow;
+    }
+    return null;
+  };
+
+  const noSlotsReply = (message: string) => {
+    if (state.stage === 'date') {
+      return fill(chat.noDate, { message });
+    }
+    if (state.stage === 'complete') {
+      return chat.nextPlan;
+    }
+    return fill(chat.unknownActivity, { activities: list(activities.map((profile) => profile.label.toLowerCase())) });
+  };
+
+  // Fills whichever slots the message carried, then asks for the first missing
+  // one. After a report, a correction edits that plan and re-runs it; anything
+  // else starts a new plan.
+  const applySlots = (slots: ExtractedSlots, message: string): StepResult => {
+    const revising = state.stage === 'complete' && slots.correction;
+    const base = state.stage === 'complete' && !slots.correction ? initialChatState : state;
+
+    if (!hasSlots(slots)) return reply(state, noSlotsReply(message));
+
+    const next: ChatState = { ...base, candidates: slots.location ? [] : base.candidates };
+    const changed: (keyof typeof chat.changes)[] = [];
+    let note = '';
+
+    if (slots.activity && slots.activity.id !== base.eventType) {
+      next.eventType = slots.activity.id;
+      changed.push('activity');
+    }
+    // Comparisons are always for a single day
+    if (slots.bestDay && next.comparison.length === 0) next.bestDay = true;
+    if (slots.dates) {
+      const problem = datesProblem(slots.dates, next.bestDay);
+      if (problem) {
+        Object.assign(next, { date: null, endDate: null, timeWindow: null });
+        // With only the date left to settle, ask again straight away
+        if (!slots.location && next.eventType && (next.coords || next.comparison.length > 0)) {
+          return reply({ ...next, stage: 'date' }, `${problem.reason} ${problem.question}`);
+        }
+        note = `${problem.reason} `;
+      } else {
+        next.date = toIsoDate(slots.dates.start);
+        next.endDate = toIsoDate(slots.dates.end);
+        next.timeWindow = slots.timeWindow;
+        // Picking one day after a best-day search means a report for that day
+        if (revising && next.date === next.endDate && !slots.bestDay) next.bestDay = false;
+        changed.push('date');
+      }
+    } else if (slots.timeWindow && next.date) {
+      next.timeWindow = slots.timeWindow;
+      changed.push('time');
+    }
+    if (slots.location) changed.push('place');
+
+    if (revising && changed.length > 0 && !note) {
+      note = `${fill(chat.updating, { changes: changed.map((slot) => chat.changes[slot]).join(chat.changesJoin) })}\n\n`;
+    }
+    if (slots.location) return locate(slots.location, next, note);
+    return advance(next, note);
+  };
+
+  // A list of places is compared; a single one is geocoded and may need picking
+  const locate = (query: string, plan: ChatState, note: string): StepResult => {
+    const places = splitPlaceList(query);
+    if (places.length > 1 && hasExplicitPlaceList(query)) return locateAll(places, plan, note);
+    return { state, messages: [], effects: [{ type: 'locate', query, plan, note }] };
+  };
+
+  const locateAll = (places: string[], plan: ChatState, note: string): StepResult => {
+    if (places.length > MAX_COMPARISON_PLACES) {
+      return reply({ ...plan, stage: 'location' }, fill(chat.tooManyPlaces, { max: MAX_COMPARISON_PLACES }));
+    }
+    return { state, messages: [], effects: [{ type: 'locateAll', places, plan, note }] };
+  };
+
+  const located = ({ query, plan, note }: LocateEffect, candidates: Coordinates[] | null): StepResult => {
+    if (!candidates) {
+      return reply({ ...plan, stage: 'location' }, chat.geocodingUnreachable);
+    }
+    // "Lisbon, Porto, Faro" is a list of places, "Springfield, Illinois" is one
+    const places = splitPlaceList(query);
+    if (places.length > 1 && !describesSinglePlace(query, candidates)) return locateAll(places, plan, note);
+
+    if (candidates.length === 0) {
+      return reply({ ...plan, stage: 'location' }, fill(chat.placeNotFound, { query }));
+    }
+    if (isUnambiguous(candidates)) return selectLocation(plan, candidates[0], note);
+
+    return reply(
+      { ...plan, candidates, stage: 'location' },
+      `${fill(chat.whichPlace, { query })}\n\n${candidates
+        .map((place, index) => `${index + 1}. ${formatPlace(place)} (${formatCoordinates(place)})`)
+        .join('\n')}`,
+    );
+  };
+
+  // Each place takes its best-ranked match; the reply lists what was picked so
+  // the user can correct it.
+  const locatedAll = ({ places, plan, note }: LocateAllEffect, results: Coordinates[][]): StepResult => {
+    const found = results.map((candidates) => candidates[0]).filter((place): place is Coordinates => !!place);
+    const missing = places.filter((_, index) => results[index].length === 0);
+    const quoted = list(missing.map((place) => fill(chat.quote, { text: place })));
+    if (found.length < 2) {
+      return reply({ ...plan, stage: 'location' }, fill(chat.comparisonNeedsTwo, { missing: quoted }));
+    }
+
+    const labels = found.map(formatPlace);
+    const skipped = missing.length > 0 ? `\n\n${fill(plural(chat.leftOut, missing.length, language), { missing: quoted })}` : '';
+    return advance(
+      { ...plan, comparison: found, location: labels.join(' vs '), coords: null, candidates: [], bestDay: false },
+      `${note}${fill(chat.comparing, { count: found.length })}\n\n${found.map((place, index) => `${index + 1}. ${labels[index]} (${formatCoordinates(place)})`).join('\n')}${skipped}\n\n`,
+    );
+  };
+
+  const selectLocation = (plan: ChatState, place: Coordinates, note = '') => {
+    const label = formatPlace(place);
+    return advance(
+      { ...plan, location: label, coords: place, candidates: [], comparison: [] },
+      `${note}${fill(chat.placeChosen, { place: `${label} (${formatCoordinates(place)})` })}`,
+    );
+  };
+
+  // Asks for the first missing slot, or runs the report once all are filled.
+  // `note` is said first, e.g. a confirmation or why a date was rejected.
+  const advance = (plan: ChatState, note = ''): StepResult => {
+    const activity = plan.eventType ? findActivity(plan.eventType, activities) : null;
+    const say = (next: ChatState, text: string) => reply(next, `${note}${text}`);
+
+    if (!activity) {
+      return say({ ...plan, stage: 'event' }, fill(chat.askActivity, { activities: list(activities.map((profile) => profile.label.toLowerCase())) }));
+    }
+    if (!plan.coords && plan.comparison.length === 0) {
+      return say({ ...plan, stage: 'location' }, fill(pickResponse(chat.askLocation), { activity: activity.label, activityLower: activity.label.toLowerCase() }));
+    }
+    if (!plan.date) {
+      return say({ ...plan, stage: 'date' }, plan.comparison.length > 0 ? chat.askComparisonDate : pickResponse(chat.askDate));
+    }
+
+    const problem = planProblem(plan);
+    if (problem) return say({ ...plan, stage: 'date', date: null, endDate: null, timeWindow: null }, problem);
+    return runReport(plan, activity, note);
+  };
+
+  const runReport = (plan: ChatState, activity: ActivityProfile, note: string): StepResult => {
+    const date = plan.date!;
+    const endDate = plan.endDate!;
+    const { bestDay } = plan;
+    const dayCount = listDatesBetween(date, endDate).length;
+    const inHorizon = (iso: string) => isWithinForecastHorizon(iso, now);
+    // Hour-level detail only exists for a single day inside the forecast horizon
+    const timeWindow = plan.timeWindow && dayCount === 1 && inHorizon(date) ? plan.timeWindow : null;
+
+    const source = fill(
+      inHorizon(date) && inHorizon(endDate) ? chat.forecastSource : !inHorizon(date) ? chat.climatologySource : chat.mixedSource,
+      { days: FORECAST_HORIZON_DAYS },
+    );
+    const when = bestDay
+      ? fill(chat.searching, { count: dayCount, start: longDate(date), end: longDate(endDate) })
+      : dayCount > 1
+        ? fill(chat.dateRange, { start: longDate(date), end: longDate(endDate), count: dayCount })
+        : timeWindow
+          ? `${longDate(date)}, ${formatTimeWindow(timeWindow, preferences.locale)}`
+          : longDate(date);
+    const windowNote = plan.timeWindow && !timeWindow
+      ? `\n\n${plural(chat.windowUnavailable, dayCount, language)}`
+      : '';
+
+    const report: ReportContext = {
+      activityId: activity.id,
+      activityLabel: activity.label,
+      location: plan.location!,
+      lat: plan.coords?.lat,
+      lon: plan.coords?.lon,
+      date,
+      endDate,
+      timeWindow,
+      generatedAt: now.toISOString(),
+    };
+    const request: ReportRequest = plan.comparison.length > 0 ? { kind: 'comparison', places: plan.comparison }
+      : bestDay ? { kind: 'best' }
+        : endDate !== date ? { kind: 'range' }
+          : timeWindow ? { kind: 'hourly', window: timeWindow }
+            : { kind: 'day' };
+
+    return {
+      state: { ...plan, stage: 'complete' },
+      messages: [
+        { text: `${note}📅 ${when}. ${source}${windowNote}\n\n${chat.accessing}` },
+        { text: chat.connecting },
+      ],
+      effects: [{ type: 'report', request, activity, report, followUp: true }],
+    };
+  };
+
+  switch (input.type) {
+    case 'message': {
+      // A number answers the list of candidate places
+      const choice = Number(toEnglishPhrases(input.text, language).trim());
+      if (state.candidates.length > 0 && Number.isInteger(choice) && choice >= 1 && choice <= state.candidates.length) {
+        return selectLocation(state, state.candidates[choice - 1]);
+      }
+      return applySlots(extractSlots(input.text, activities, expectedSlot(state.stage), now, language), input.text);
+    }
+    case 'activity':
+      return applySlots({ activity: localizeActivity(input.activity, language), location: null, dates: null, timeWindow: null, bestDay: false, correction: false }, input.activity.label);
+    case 'place':
+      return selectLocation(state, input.place);
+    case 'rankedDay': {
+      const activity = findActivity(input.ranking.activityId, activities);
+      if (!activity) return reply(state);
+      const report = { ...input.ranking, date: input.day.date, endDate: input.day.date, generatedAt: now.toISOString() };
+      return { state, messages: [], effects: [{ type: 'report', request: { kind: 'day', weather: input.day.weather }, activity, report, followUp: false }] };
+    }
+    case 'located':
+      return located(input.effect, input.candidates);
+    case 'locatedAll':
+      return locatedAll(input.effect, input.results);
+    case 'reported': {
+      const { effect, result } = input;
+      if (!result) return reply(state, chat.reportFailed);
+      const messages = [reportReply(result, effect.report, preferences)];
+      if (effect.followUp) messages.push({ text: chat.followUp });
+      return { state, messages, effects: [] };
+    }
+  }
+};
+
+const fetchReport = async ({ request, activity, report }: ReportEffect, providers: ConversationProviders, preferences: DisplayPreferences): Promise<ReportResult> => {
+  const { date, endDate, location } = report;
+  if (request.kind === 'comparison') {
+    const locations = await Promise.all(request.places.map((place) => providers.weather(place.lat, place.lon, date, formatPlace(place))));
+    return { kind: 'comparison', analysis: await providers.compare(locations, activity, date, preferences) };
+  }
+
+  // Coordinates were resolved and confirmed in the location stage
+  const coords = { lat: report.lat!, lon: report.lon!, name: location };
+  switch (request.kind) {
+    case 'best': {
+      const days = await providers.weatherRange(coords.lat, coords.lon, date, endDate, location);
+      return { kind: 'best', analysis: await providers.rankDays(days, activity, preferences) };
+    }
+    case 'range': {
+      const days = await providers.weatherRange(coords.lat, coords.lon, date, endDate, location);
+      return { kind: 'range', analysis: await providers.analyzeRange(days, activity, preferences) };
+    }
+    case 'hourly': {
+      const hours = await providers.hourlyWeather(coords.lat, coords.lon, date, request.window);
+      return { kind: 'hourly', analysis: await providers.analyzeHours(hours, coords, location, activity, date, request.window, preferences) };
+    }
+    case 'day': {
+      const weather = request.weather ?? await providers.weather(coords.lat, coords.lon, date, location);
+      return { kind: 'day', weather, analysis: await providers.analyzeDay(weather, activity, date, preferences) };
+    }
+  }
+};
+
+// Carries out one effect; failures come back as inputs too, so the
+// conversation can say what went wrong.
+export const runEffect = async (effect: ConversationEffect, providers: ConversationProviders, context: ConversationContext): Promise<ConversationInput> => {
+  switch (effect.type) {
+    case 'locate':
+      try {
+        return { type: 'located', effect, candidates: await providers.geocode(effect.query) };
+      } catch (error) {
+        console.error('Error resolving location:', error);
+        return { type: 'located', effect, candidates: null };
+      }
+    case 'locateAll': {
+      const results = await Promise.all(effect.places.map((place) =>
+        providers.geocode(place).catch((error) => {
+          console.error(`Error resolving ${place}:`, error);
+          return [] as Coordinates[];
+        })));
+      return { type: 'locatedAll', effect, results };
+    }
+    case 'report':
+      try {
+        return { type: 'reported', effect, result: await fetchReport(effect, providers, context.preferences) };
+      } catch (error) {
+        console.error('Error generating report:', error);
+        return { type: 'reported', effect, result: null };
+      }
+  }
+};
+
+// Steps through an input and every effect it leads to. `onStep` sees each
+// step's state and replies as they happen, and may return a promise to pace them.
+export const converse = async (
+  state: ChatState,
+  input: ConversationInput,
+  context: ConversationContext,
+  providers: ConversationProviders,
+  onStep?: (result: StepResult) => void | Promise<void>,
+): Promise<{ state: ChatState; messages: BotReply[] }> => {
+  const messages: BotReply[] = [];
+  const pending: ConversationInput[] = [input];
+  while (pending.length > 0) {
+    const result = step(state, pending.shift()!, context);
+    state = result.state;
+    messages.push(...result.messages);
+    await onStep?.(result);
+    for (const effect of result.effects) {
+      pending.push(await runEffect(effect, providers, context));
+    }
+  }
+  return { state, messages };
+};
+
+export interface ScriptTurn {
+  user: string;
+  bot: string[];
+}
+
+// Plays user messages through the conversation in order, e.g. against stub
+// providers, and returns what the bot said after each one.
+export const runScript = async (lines: string[], context: ConversationContext, providers: ConversationProviders, state: ChatState = initialChatState) => {
+  const turns: ScriptTurn[] = [];
+  for (const line of lines) {
+    const result = await converse(state, { type: 'message', text: line }, context, providers);
+    state = result.state;
+    turns.push({ user: line, bot: result.messages.map((message) => message.text) });
+  }
+  return { state, turns };
+};
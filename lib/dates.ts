@@ -0,0 +1,255 @@
+// lib/dates.ts
+// Natural-language date parsing for the chat's date stage. All results are
+// calendar dates in the user's local time zone, formatted as YYYY-MM-DD.
+
+import { DEFAULT_LANGUAGE, fill, messagesFor } from './i18n';
+import type { Language, TimeWindow } from './types';
+
+// Longest trip we analyse day by day.
+export const MAX_RANGE_DAYS = 14;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const isValidCalendarDate = (year: number, month: number, day: number) => {
+  const date = new Date(year, month, day);
+  return date.getFullYear() === year && date.getMonth() === month && date.getDate() === day;
+};
+
+export const toIsoDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromIsoDate = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const formatLongDate = (iso: string, locale = 'en-US') =>
+  fromIsoDate(iso).toLocaleDateString(locale, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+// "Sat, Nov 7" style label for table rows and compact lists
+export const formatShortDate = (iso: string, locale = 'en-US') =>
+  fromIsoDate(iso).toLocaleDateString(locale, { weekday: 'short', month: 'short', day: 'numeric' });
+
+const findMonth = (token: string) => {
+  const lower = token.toLowerCase();
+  return lower.length >= 3 ? MONTHS.findIndex((month) => month.startsWith(lower)) : -1;
+};
+
+const findWeekday = (token: string) => {
+  const lower = token.toLowerCase();
+  return lower.length >= 3 ? WEEKDAYS.findIndex((weekday) => weekday.startsWith(lower)) : -1;
+};
+
+// Month/day without a year means the next occurrence of that date.
+const resolveMonthDay = (month: number, day: number, year: number | null, today: Date): Date | null => {
+  if (year !== null) {
+    return isValidCalendarDate(year, month, day) ? new Date(year, month, day) : null;
+  }
+  for (const candidateYear of [today.getFullYear(), today.getFullYear() + 1]) {
+    if (isValidCalendarDate(candidateYear, month, day) && new Date(candidateYear, month, day) >= today) {
+      return new Date(candidateYear, month, day);
+    }
+  }
+  return null;
+};
+
+/**
+ * Parses inputs such as "2026-11-07", "today", "tomorrow", "next Saturday",
+ * "July 4", "4th of July 2027" and "in 3 weeks". Returns null when nothing matches;
+ * past dates are returned as-is so the caller can explain the problem.
+ */
+export const parseNaturalDate = (input: string, now = new Date()): Date | null => {
+  const today = startOfDay(now);
+  const text = input.trim().toLowerCase().replace(/[,.]/g, ' ').replace(/\s+/g, ' ');
+
+  const iso = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (iso) {
+    const [year, month, day] = [Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])];
+    return isValidCalendarDate(year, month, day) ? new Date(year, month, day) : null;
+  }
+
+  if (/\b(today|tonight)\b/.test(text)) return today;
+  if (/\bday after tomorrow\b/.test(text)) return addDays(today, 2);
+  if (/\btomorrow\b/.test(text)) return addDays(today, 1);
+  if (/\bnext week\b/.test(text)) return addDays(today, 7);
+
+  const relative = text.match(/\bin (\d+|a|an|one|two|three|four|five|six) (day|week|month)s?\b/);
+  if (relative) {
+    const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6 };
+    const amount = words[relative[1]] ?? Number(relative[1]);
+    if (relative[2] === 'day') return addDays(today, amount);
+    if (relative[2] === 'week') return addDays(today, amount * 7);
+    return new Date(today.getFullYear(), today.getMonth() + amount, today.getDate());
+  }
+
+  const weekday = text.match(/\b(?:(this|next|coming)\s+)?([a-z]+)\b/g)
+    ?.map((phrase) => phrase.split(' '))
+    .find((words) => findWeekday(words[words.length - 1]) !== -1 && findMonth(words[words.length - 1]) === -1);
+  if (weekday) {
+    const target = findWeekday(weekday[weekday.length - 1]);
+    let offset = (target - today.getDay() + 7) % 7;
+    if (offset === 0 && weekday[0] === 'next') offset = 7;
+    return addDays(today, offset);
+  }
+
+  // "July 4", "Jul 4th 2027", "4 July", "4th of July"
+  const monthFirst = text.match(/\b([a-z]{3,})\s+(\d{1,2})(?:st|nd|rd|th)?(?:\s+(\d{4}))?\b/);
+  if (monthFirst && findMonth(monthFirst[1]) !== -1) {
+    return resolveMonthDay(findMonth(monthFirst[1]), Number(monthFirst[2]), monthFirst[3] ? Number(monthFirst[3]) : null, today);
+  }
+  const dayFirst = text.match(/\b(\d{1,2})(?:st|nd|rd|th)?\s+(?:of\s+)?([a-z]{3,})(?:\s+(\d{4}))?\b/);
+  if (dayFirst && findMonth(dayFirst[2]) !== -1) {
+    return resolveMonthDay(findMonth(dayFirst[2]), Number(dayFirst[1]), dayFirst[3] ? Number(dayFirst[3]) : null, today);
+  }
+
+  return null;
+};
+
+// "12 min ago", "3 h ago", "2 days ago"
+export const formatAge = (minutes: number, language: Language = DEFAULT_LANGUAGE) => {
+  const { age } = messagesFor(language);
+  if (minutes < 1) return age.justNow;
+  if (minutes < 60) return fill(age.minutes, { count: minutes });
+  if (minutes < 48 * 60) return fill(age.hours, { count: Math.round(minutes / 60) });
+  return fill(age.days, { count: Math.round(minutes / (24 * 60)) });
+};
+
+export const minutesSince = (iso: string, now = new Date()) =>
+  Math.max(0, Math.round((now.getTime() - new Date(iso).getTime()) / 60000));
+
+// 0-364 from an ISO date. A fixed non-leap year folds Feb 29 onto Feb 28 so
+// seasonal windows line up across years.
+export const dayOfYear = (date: string) => {
+  const [, month, day] = date.split('-').map(Number);
+  const safeDay = month === 2 && day === 29 ? 28 : day;
+  return Math.round((Date.UTC(2001, month - 1, safeDay) - Date.UTC(2001, 0, 1)) / 86400000);
+};
+
+export const isPastDate = (date: Date, now = new Date()) => startOfDay(date) < startOfDay(now);
+
+export const listDatesBetween = (startIso: string, endIso: string) => {
+  const dates: string[] = [];
+  const end = fromIsoDate(endIso);
+  for (let day = fromIsoDate(startIso); day <= end; day = addDays(day, 1)) {
+    dates.push(toIsoDate(day));
+  }
+  return dates;
+};
+
+/**
+ * Parses a single date or a range such as "2026-11-06 to 2026-11-09",
+ * "from July 4 until July 7" or "between Nov 1 and Nov 14". A single date
+ * yields a one-day range.
+ */
+export const parseDateRange = (input: string, now = new Date()): { start: Date; end: Date } | null => {
+  const text = input.trim().replace(/^(from|between)\s+/i, '');
+  const parts = text.split(/\s+(?:to|through|thru|until|till|and|-)\s+|\s*[–—]\s*/i);
+
+  if (parts.length === 2) {
+    const start = parseNaturalDate(parts[0], now);
+    const end = parseNaturalDate(parts[1], now);
+    return start && end ? { start, end } : null;
+  }
+
+  const date = parseNaturalDate(text, now);
+  return date ? { start: date, end: date } : null;
+};
+
+// The phrases parseNaturalDate understands, so a date can be found inside a
+// longer message. Matches are re-parsed, which weeds out words like "Sunnyvale".
+const MONTH_NAME = '(?:jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*';
+const DATE_ATOM = [
+  '\\d{4}-\\d{1,2}-\\d{1,2}',
+  'day after tomorrow|today|tonight|tomorrow|next week',
+  'in (?:\\d+|an?|one|two|three|four|five|six) (?:day|week|month)s?',
+  '(?:(?:this|next|coming)\\s+)?(?:sun|mon|tue|wed|thu|fri|sat)[a-z]*',
+  `${MONTH_NAME}\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?`,
+  `\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_NAME}(?:,?\\s+\\d{4})?`,
+].map((pattern) => `(?:${pattern})`).join('|');
+const DATE_PHRASE = new RegExp(
+  `\\b(?:(?:on|from|between)\\s+)?(?:${DATE_ATOM})(?:(?:\\s+(?:to|through|thru|until|till|and|-)\\s+|\\s*[–—]\\s*)(?:${DATE_ATOM}))?\\b`,
+  'gi',
+);
+
+/**
+ * Finds the first date or date range inside a message such as "hiking in
+ * Boulder next Saturday" and returns it with the rest of the message.
+ */
+export const findDateExpression = (input: string, now = new Date()): { start: Date; end: Date; rest: string } | null => {
+  for (const match of input.matchAll(DATE_PHRASE)) {
+    const range = parseDateRange(match[0].replace(/^on\s+/i, ''), now);
+    if (range) {
+      return { ...range, rest: `${input.slice(0, match.index)} ${input.slice(match.index! + match[0].length)}`.replace(/\s+/g, ' ').trim() };
+    }
+  }
+  return null;
+};
+
+const NAMED_WINDOWS: Record<string, TimeWindow> = {
+  morning: { startHour: 6, endHour: 12 },
+  afternoon: { startHour: 12, endHour: 18 },
+  evening: { startHour: 17, endHour: 21 },
+};
+
+// "Good morning!" is a greeting, so a bare "morning" only counts after a cue
+// ("in the morning", "what about the afternoon?") or next to a date
+// ("Saturday morning", "evening of June 5")
+const NAMED_WINDOW = /\b((?:in|during)\s+(?:the\s+)?|the\s+|this\s+)?(morning|afternoon|evening)\b(?:\s+of\b)?/gi;
+
+const isDateAt = (text: string, edge: 'start' | 'end') =>
+  [...text.matchAll(DATE_PHRASE)].some((match) =>
+    (edge === 'start' ? match.index === 0 : match.index! + match[0].length === text.length) && parseDateRange(match[0].replace(/^on\s+/i, '')) !== null);
+
+const TIME = '(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm)?';
+const TIME_RANGE = new RegExp(`\\b${TIME}\\s*(?:-|–|—|to|until|till)\\s*${TIME}(?![\\w-])`, 'i');
+
+const to24Hour = (hour: number, meridiem: string | undefined) => {
+  if (!meridiem) return hour;
+  if (meridiem.toLowerCase() === 'pm') return hour === 12 ? 12 : hour + 12;
+  return hour === 12 ? 0 : hour;
+};
+
+/**
+ * Pulls an hour window such as "2pm-6pm", "2-6pm", "14:00–18:00" or
+ * "Saturday afternoon" out of a message and returns the remaining text, so
+ * "Saturday 2pm-6pm" parses as a date plus a window. Both ends are inclusive.
+ */
+export const extractTimeWindow = (input: string): { window: TimeWindow | null; rest: string } => {
+  const match = input.match(TIME_RANGE);
+  // Plain "11-06" is more likely part of a date than a time range
+  if (match && (match[3] || match[6] || match[2] || match[5])) {
+    // "6:30pm" still needs the 7pm reading to cover the end of the window
+    const endHour = to24Hour(Number(match[4]), match[6]) + (Number(match[5] ?? 0) > 0 ? 1 : 0);
+    let startHour = to24Hour(Number(match[1]), match[3] ?? match[6]);
+    // "11-2pm" means 11am to 2pm
+    if (!match[3] && match[6] && startHour > endHour) startHour = to24Hour(Number(match[1]), 'am');
+    if (startHour < endHour && endHour <= 23) {
+      return { window: { startHour, endHour }, rest: input.replace(match[0], ' ').trim() };
+    }
+  }
+
+  for (const named of input.matchAll(NAMED_WINDOW)) {
+    const before = input.slice(0, named.index).trimEnd();
+    const after = input.slice(named.index! + named[0].length).trimStart();
+    if (named[1] || isDateAt(before, 'end') || isDateAt(after, 'start')) {
+      return { window: NAMED_WINDOWS[named[2].toLowerCase()], rest: input.replace(named[0], ' ').trim() };
+    }
+  }
+
+  return { window: null, rest: input };
+};
+
+// Without a locale hours use the compact chat style ("2pm"); with one, the
+// locale's own clock convention ("14:00", "2:00 PM").
+export const formatHour = (hour: number, locale?: string) =>
+  locale
+    ? new Date(2000, 0, 1, hour).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' })
+    : hour === 0 ? '12am' : hour < 12 ? `${hour}am` : hour === 12 ? '12pm' : `${hour - 12}pm`;
+
+export const formatTimeWindow = (window: TimeWindow, locale?: string) =>
+  `${formatHour(window.startHour, locale)}–${formatHour(window.endHour, locale)}`;
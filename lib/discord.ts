@@ -0,0 +1,118 @@
+// lib/discord.ts
+// Discord interactions endpoint for a `/weather message:<text>` slash command.
+// The command is acknowledged straight away as deferred; replies then edit the
+// "thinking…" message and follow it up, with the risks as an embed coloured by
+// the highest one. Requests are verified with the application's Ed25519 public key.
+import { createPublicKey, verify } from 'crypto';
+import { NextResponse } from 'next/server';
+import { jsonError } from './http';
+import { RISK_LEVEL_EMOJI, isFreshTimestamp, languageFromLocale, logFailures, peakRisk, replyInChat, riskEntries, riskLevel, truncate, type ChannelDeps, type ChannelResult, type OutgoingCall } from './channels';
+import { DEFAULT_LANGUAGE, fill, messagesFor } from './i18n';
+import type { BotReply } from './conversation';
+import type { Language } from './types';
+
+export interface DiscordConfig {
+  // Hex, from the application's General Information page
+  publicKey: string;
+  // Overridden by the fake-platform harness
+  apiUrl?: string;
+}
+
+export const DISCORD_COMMAND = 'weather';
+export const DISCORD_COMMAND_OPTION = 'message';
+
+const DEFAULT_API_URL = 'https://discord.com/api/v10';
+const CONTENT_LIMIT = 2000;
+const EMBED_DESCRIPTION_LIMIT = 4096;
+const EMBED_FOOTER_LIMIT = 2048;
+
+const InteractionType = { PING: 1, APPLICATION_COMMAND: 2 } as const;
+const ResponseType = { PONG: 1, DEFERRED_CHANNEL_MESSAGE: 5 } as const;
+
+const EMBED_COLORS = { low: 0x22c55e, moderate: 0xeab308, high: 0xef4444 } as const;
+
+// DER prefix that turns a raw 32-byte Ed25519 key into an SPKI public key
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export const discordConfig = (): DiscordConfig | null => {
+  const { DISCORD_PUBLIC_KEY, DISCORD_API_URL } = process.env;
+  return DISCORD_PUBLIC_KEY ? { publicKey: DISCORD_PUBLIC_KEY, apiUrl: DISCORD_API_URL } : null;
+};
+
+export const verifyDiscordRequest = (headers: Headers, body: string, publicKey: string, now = Date.now()) => {
+  const signature = headers.get('x-signature-ed25519');
+  const timestamp = headers.get('x-signature-timestamp');
+  if (!signature || !isFreshTimestamp(timestamp, now) || !/^[0-9a-f]{128}$/i.test(signature) || !/^[0-9a-f]{64}$/i.test(publicKey)) {
+    return false;
+  }
+  const key = createPublicKey({ key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]), format: 'der', type: 'spki' });
+  return verify(null, Buffer.from(timestamp + body), key, Buffer.from(signature, 'hex'));
+};
+
+// Plain replies are message content; reports go in an embed, which has room
+// for the narrative and shows the risks as fields
+export const discordMessage = ({ text, details }: BotReply, language: Language = DEFAULT_LANGUAGE) => {
+  if (!details?.riskData) return { content: truncate(text, CONTENT_LIMIT) };
+  const { channels, report } = messagesFor(language);
+  return {
+    embeds: [{
+      title: details.report ? fill(report.title, { activity: details.report.activityLabel, location: details.report.location }) : undefined,
+      description: truncate(text, EMBED_DESCRIPTION_LIMIT),
+      color: EMBED_COLORS[riskLevel(peakRisk(details.riskData))],
+      fields: riskEntries(details.riskData, language).map((entry) => ({
+        name: `${entry.icon} ${entry.label}`,
+        value: `${RISK_LEVEL_EMOJI[entry.level]} ${entry.value}%`,
+        inline: true,
+      })),
+      footer: details.dataSources?.length ? { text: truncate(fill(channels.sources, { sources: details.dataSources.join(' • ') }), EMBED_FOOTER_LIMIT) } : undefined,
+    }],
+  };
+};
+
+// The first reply replaces the deferred "thinking…" message; the rest follow it
+const replyCall = (config: DiscordConfig, applicationId: string, token: string, reply: BotReply, first: boolean, language: Language): OutgoingCall => {
+  const webhook = `${config.apiUrl ?? DEFAULT_API_URL}/webhooks/${applicationId}/${token}`;
+  return first
+    ? { url: `${webhook}/messages/@original`, method: 'PATCH', body: discordMessage(reply, language) }
+    : { url: webhook, method: 'POST', body: discordMessage(reply, language) };
+};
+
+export const handleDiscordRequest = async (request: Request, config: DiscordConfig, deps: ChannelDeps): Promise<ChannelResult> => {
+  const body = await request.text();
+  if (!verifyDiscordRequest(request.headers, body, config.publicKey)) {
+    return { response: jsonError('Invalid Discord signature', 401) };
+  }
+
+  let interaction: any;
+  try {
+    interaction = JSON.parse(body);
+  } catch {
+    return { response: jsonError('Request body must be valid JSON', 400) };
+  }
+  if (!interaction || typeof interaction !== 'object') {
+    return { response: jsonError('Request body must be a JSON object', 400) };
+  }
+  if (interaction.type === InteractionType.PING) {
+    return { response: NextResponse.json({ type: ResponseType.PONG }) };
+  }
+
+  const text = interaction.data?.options?.find((option: any) => option.name === DISCORD_COMMAND_OPTION)?.value;
+  if (interaction.type !== InteractionType.APPLICATION_COMMAND || interaction.data?.name !== DISCORD_COMMAND || typeof text !== 'string') {
+    return { response: jsonError(`Only the /${DISCORD_COMMAND} command is supported`, 400) };
+  }
+
+  // Guild commands carry the member, direct messages the user
+  const userId = interaction.member?.user?.id ?? interaction.user?.id;
+  const key = `discord:${interaction.guild_id ?? 'dm'}:${interaction.channel_id}:${userId}`;
+  // The invoking user's client language, e.g. "es-ES"
+  const language = languageFromLocale(interaction.locale);
+  return {
+    response: NextResponse.json({ type: ResponseType.DEFERRED_CHANNEL_MESSAGE }),
+    work: logFailures('Discord', async () => {
+      const replies = await replyInChat(key, text, deps, language);
+      for (const [index, reply] of replies.entries()) {
+        await deps.transport(replyCall(config, interaction.application_id, interaction.token, reply, index === 0, language));
+      }
+    }),
+  };
+};
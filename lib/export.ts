@@ -0,0 +1,279 @@
+// lib/export.ts
+// Turns a report message into files people can forward or archive: a printable
+// HTML summary (saved as PDF through the browser's print dialog), an .ics
+// calendar event, and JSON/CSV with the full inputs. Machine-readable formats
+// stay metric; only the human-facing ones follow the display preferences.
+import { RISK_KEYS } from './risk';
+import { formatHour, formatLongDate, formatShortDate, formatTimeWindow } from './dates';
+import { formatPrecipitation, formatSpeed, formatTemperature } from './units';
+import { DEFAULT_LANGUAGE, fill, languageOf, messagesFor, textDirection } from './i18n';
+import type { ChatMessage, DisplayPreferences, HourlyWeather, Language, NASAWeatherData, ReportContext, RiskData } from './types';
+
+export type ExportFormat = 'html' | 'ics' | 'json' | 'csv';
+
+export type ExportableMessage = ChatMessage & { riskData: RiskData; report: ReportContext };
+
+export const isExportable = (message: ChatMessage): message is ExportableMessage => !!message.riskData && !!message.report;
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 40);
+
+export const exportFilename = ({ report }: ExportableMessage, format: ExportFormat) =>
+  `weather-${slug(report.activityLabel)}-${slug(report.location)}-${report.date}.${format}`;
+
+const riskSummary = (risks: RiskData, language: Language) => {
+  const { chat, risks: labels } = messagesFor(language);
+  return RISK_KEYS.map((key) => `${labels[key]} ${Math.round(risks[key])}%`).join(chat.listSeparator);
+};
+
+// Strips the chat's **bold** markers for plain-text formats
+const plainText = (text: string) => text.replace(/\*\*/g, '');
+
+export const toReportJSON = (message: ExportableMessage) =>
+  JSON.stringify({
+    activity: { id: message.report.activityId, label: message.report.activityLabel },
+    location: message.report.location,
+    lat: message.report.lat,
+    lon: message.report.lon,
+    date: message.report.date,
+    endDate: message.report.endDate,
+    timeWindow: message.report.timeWindow ?? null,
+    generatedAt: message.report.generatedAt,
+    units: { temperature: '°C', windSpeed: 'km/h', precipitation: 'mm', snowfall: 'cm', humidity: '%', cloudCover: '%', airQuality: 'US AQI', risks: '%' },
+    risks: message.riskData,
+    weatherData: message.weatherData,
+    days: message.dailyRisks,
+    hours: message.hourlyRisks,
+    bestDays: message.bestDays,
+    comparison: message.comparison,
+    analysis: plainText(message.text),
+    dataSources: message.dataSources ?? [],
+    provenance: message.provenance,
+  }, null, 2);
+
+const csvCell = (value: string | number | undefined) => {
+  if (value === undefined) return '';
+  const text = typeof value === 'number' ? String(Math.round(value * 100) / 100) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const WEATHER_COLUMNS = [
+  'temperature_c', 'precipitation_mm', 'humidity_pct', 'wind_speed_kmh', 'cloud_cover_pct',
+  'feels_like_max_c', 'feels_like_min_c', 'wind_gusts_kmh', 'snowfall_cm', 'uv_index', 'weather_code', 'us_aqi',
+];
+
+// Hazard readings are blank when the data had none
+const weatherCells = (weather: NASAWeatherData) =>
+  [weather.temperature, weather.precipitation, weather.humidity, weather.windSpeed, weather.cloudCover,
+    weather.feelsLikeMax, weather.feelsLikeMin, weather.windGusts, weather.snowfall, weather.uvIndex, weather.weatherCode, weather.airQuality];
+
+const hourCells = (hour: HourlyWeather) =>
+  [hour.temperature, hour.precipitation, hour.humidity, hour.windSpeed, hour.cloudCover,
+    hour.feelsLike, hour.feelsLike, hour.windGusts, hour.snowfall, hour.uvIndex, hour.weatherCode, hour.airQuality];
+
+// One row per scored unit: the day, each day of a range or ranking, each hour
+// of a window, or each place of a comparison.
+export const toReportCSV = (message: ExportableMessage) => {
+  const { report } = message;
+  const header = ['row', 'date', 'location', 'lat', 'lon', ...WEATHER_COLUMNS, ...RISK_KEYS.map((key) => `${key}_risk_pct`), 'combined_risk_pct'];
+  const rows: (string | number | undefined)[][] = [];
+  const risks = (values: RiskData) => RISK_KEYS.map((key) => values[key]);
+
+  if (message.comparison) {
+    message.comparison.forEach((entry) => rows.push(['place', report.date, entry.weather.locationName, entry.weather.lat, entry.weather.lon, ...weatherCells(entry.weather), ...risks(entry.risks), entry.score]));
+  } else if (message.bestDays) {
+    message.bestDays.forEach((day) => rows.push([`rank ${day.rank}`, day.date, day.weather.locationName, day.weather.lat, day.weather.lon, ...weatherCells(day.weather), ...risks(day.risks), day.score]));
+  } else if (message.dailyRisks) {
+    message.dailyRisks.forEach((day) => rows.push(['day', day.date, day.weather.locationName, day.weather.lat, day.weather.lon, ...weatherCells(day.weather), ...risks(day.risks), undefined]));
+  } else if (message.hourlyRisks) {
+    message.hourlyRisks.forEach((hour) => rows.push([`hour ${hour.time}`, report.date, report.location, report.lat, report.lon, ...hourCells(hour.weather), ...risks(hour.risks), undefined]));
+  } else if (message.weatherData) {
+    rows.push(['day', report.date, report.location, report.lat, report.lon, ...weatherCells(message.weatherData), ...risks(message.riskData), undefined]);
+  }
+  rows.push(['overall', report.date === report.endDate ? report.date : `${report.date}/${report.endDate}`, report.location, report.lat, report.lon, ...WEATHER_COLUMNS.map(() => undefined), ...risks(message.riskData), undefined]);
+
+  const sources = `# Data sources: ${(message.dataSources ?? []).join('; ')}`;
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).concat(csvCell(sources)).join('\r\n');
+};
+
+// RFC 5545 text escaping and 75-octet line folding
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const foldLine = (line: string) => {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (new TextEncoder().encode(current + char).length > limit) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const icsDate = (iso: string) => iso.replace(/-/g, '');
+
+const nextDay = (iso: string) => {
+  const [year, month, day] = iso.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + 1));
+  return date.toISOString().slice(0, 10);
+};
+
+const icsTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// All-day for dates and ranges; a floating local-time event for an hour window.
+export const toReportICS = (message: ExportableMessage, language: Language = DEFAULT_LANGUAGE) => {
+  const { report } = message;
+  const { chat, exports } = messagesFor(language);
+  const { timeWindow } = report;
+  const timing = timeWindow
+    ? [
+      `DTSTART:${icsDate(report.date)}T${String(timeWindow.startHour).padStart(2, '0')}0000`,
+      `DTEND:${icsDate(report.date)}T${String(timeWindow.endHour).padStart(2, '0')}0000`,
+    ]
+    : [`DTSTART;VALUE=DATE:${icsDate(report.date)}`, `DTEND;VALUE=DATE:${icsDate(nextDay(report.endDate))}`];
+
+  const description = [
+    fill(exports.calendarRisk[message.comparison ? 'bestPlace' : message.bestDays ? 'bestDay' : 'peak'], { risks: riskSummary(message.riskData, language) }),
+    '',
+    plainText(message.text),
+    '',
+    fill(exports.calendarSources, { sources: (message.dataSources ?? []).join(chat.listSeparator) }),
+    fill(exports.calendarGenerated, { time: report.generatedAt }),
+  ].join('\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//NASA WeatherBot//Weather Report//EN',
+    'CALSCALE:GREGORIAN',
+    'BEGIN:VEVENT',
+    `UID:${message.id}-${report.date}@weatherbot`,
+    `DTSTAMP:${icsTimestamp(new Date())}`,
+    ...timing,
+    `SUMMARY:${icsText(`${report.activityLabel} – ${report.location}`)}`,
+    `LOCATION:${icsText(report.location)}`,
+    ...(report.lat !== undefined && report.lon !== undefined ? [`GEO:${report.lat.toFixed(4)};${report.lon.toFixed(4)}`] : []),
+    `DESCRIPTION:${icsText(description)}`,
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const riskColor = (value: number) => (value >= 60 ? '#fee2e2' : value >= 30 ? '#fef9c3' : '#dcfce7');
+
+const riskRow = (label: string, risks: RiskData, extra = '') =>
+  `<tr><th>${escapeHtml(label)}</th>${RISK_KEYS.map((key) => (typeof risks[key] === 'number'
+    ? `<td style="background:${riskColor(risks[key])}">${Math.round(risks[key])}%</td>`
+    // Older saved reports predate some dimensions
+    : '<td>–</td>')).join('')}${extra}</tr>`;
+
+// Standalone page with inline styles so it prints the same anywhere.
+export const toReportHTML = (message: ExportableMessage, preferences: DisplayPreferences) => {
+  const { report } = message;
+  const { locale } = preferences;
+  const language = languageOf(preferences);
+  const { risks, exports } = messagesFor(language);
+  const when = report.timeWindow
+    ? `${formatLongDate(report.date, locale)}, ${formatTimeWindow(report.timeWindow, locale)}`
+    : report.endDate !== report.date
+      ? `${formatLongDate(report.date, locale)} – ${formatLongDate(report.endDate, locale)}`
+      : formatLongDate(report.date, locale);
+  const weatherLine = (weather: Pick<NASAWeatherData, 'temperature' | 'windSpeed' | 'precipitation' | 'humidity'>) =>
+    fill(exports.weather, {
+      temperature: formatTemperature(weather.temperature, preferences),
+      wind: formatSpeed(weather.windSpeed, preferences),
+      precipitation: formatPrecipitation(weather.precipitation, preferences),
+      humidity: Math.round(weather.humidity),
+    });
+
+  const rows = message.comparison
+    ? message.comparison.map((entry) => riskRow(entry.weather.locationName, entry.risks, `<td>${escapeHtml(weatherLine(entry.weather))}</td>`))
+    : message.bestDays
+      ? message.bestDays.map((day) => riskRow(`#${day.rank} ${formatShortDate(day.date, locale)}`, day.risks, `<td>${escapeHtml(day.reasons.join('; '))}</td>`))
+      : message.dailyRisks
+        ? message.dailyRisks.map((day) => riskRow(formatShortDate(day.date, locale), day.risks, `<td>${escapeHtml(weatherLine(day.weather))}</td>`))
+        : message.hourlyRisks
+          ? message.hourlyRisks.map((hour) => riskRow(formatHour(hour.hour, locale), hour.risks, `<td>${escapeHtml(weatherLine(hour.weather))}</td>`))
+          : [];
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}" dir="${textDirection(language)}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${report.activityLabel} – ${report.location} – ${report.date}`)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+  .meta { color: #4b5563; margin-top: 0; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; font-size: 0.9rem; }
+  th, td { border: 1px solid #e5e7eb; padding: 0.35rem 0.5rem; text-align: center; }
+  th:first-child { text-align: start; }
+  .analysis { white-space: pre-line; line-height: 1.5; }
+  .sources { background: #eff6ff; border: 1px solid #bfdbfe; border-radius: 6px; padding: 0.5rem 1rem; font-size: 0.9rem; }
+  footer { color: #6b7280; font-size: 0.8rem; margin-top: 2rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(`${report.activityLabel} – ${report.location}`)}</h1>
+<p class="meta">${escapeHtml(when)}</p>
+<table>
+<thead><tr><th></th>${RISK_KEYS.map((key) => `<th>${escapeHtml(risks[key])}</th>`).join('')}${rows.length > 0 ? `<th>${escapeHtml(exports.details)}</th>` : ''}</tr></thead>
+<tbody>
+${riskRow(message.comparison ? exports.bestPlace : message.bestDays ? exports.bestDay : exports.overall, message.riskData, rows.length > 0 ? '<td></td>' : '')}
+${rows.join('\n')}
+</tbody>
+</table>
+${message.weatherData ? `<p><strong>${escapeHtml(exports.conditions)}</strong> ${escapeHtml(fill(exports.cloudCover, { weather: weatherLine(message.weatherData), cloudCover: Math.round(message.weatherData.cloudCover) }))}</p>` : ''}
+<div class="analysis">${escapeHtml(message.text).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')}</div>
+<div class="sources"><p><strong>${escapeHtml(exports.dataSources)}</strong></p><ul>${(message.dataSources ?? []).map((source) => `<li>${escapeHtml(source)}</li>`).join('')}</ul></div>
+<footer>${escapeHtml(fill(exports.generated, { time: new Date(report.generatedAt).toLocaleString(locale) }))}</footer>
+</body>
+</html>
+`;
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  html: 'text/html;charset=utf-8',
+  ics: 'text/calendar;charset=utf-8',
+  json: 'application/json;charset=utf-8',
+  csv: 'text/csv;charset=utf-8',
+};
+
+export const renderExport = (message: ExportableMessage, format: ExportFormat, preferences: DisplayPreferences) => {
+  switch (format) {
+    case 'html': return toReportHTML(message, preferences);
+    case 'ics': return toReportICS(message, languageOf(preferences));
+    case 'json': return toReportJSON(message);
+    case 'csv': return toReportCSV(message);
+  }
+};
+
+// Browser-only helpers
+export const downloadExport = (message: ExportableMessage, format: ExportFormat, preferences: DisplayPreferences) => {
+  const url = URL.createObjectURL(new Blob([renderExport(message, format, preferences)], { type: MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = exportFilename(message, format);
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Opens the HTML summary and the print dialog, where "Save as PDF" is offered.
+export const printReport = (message: ExportableMessage, preferences: DisplayPreferences) => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) return false;
+  printWindow.document.write(toReportHTML(message, preferences));
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+  return true;
+};
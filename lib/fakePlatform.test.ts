@@ -0,0 +1,39 @@
+// lib/fakePlatform.test.ts
+import { describe, expect, it } from 'vitest';
+import { FAKE_PLATFORMS, sendFakeMessage } from './fakePlatform';
+import { createStubProviders } from './providers';
+
+describe('sendFakeMessage', () => {
+  it.each(FAKE_PLATFORMS)('runs a stub report by place name on %s', async (platform) => {
+    const exchange = await sendFakeMessage({ platform, text: 'hiking in lisbon tomorrow', chat: `stub-${platform}` }, createStubProviders());
+    expect(exchange.status).toBe(200);
+    expect(JSON.stringify(exchange.calls)).toContain('Based on the Stub weather data for Lisbon, Portugal');
+  });
+
+  it('asks which of the stub places was meant', async () => {
+    const exchange = await sendFakeMessage({ platform: 'telegram', text: 'picnic in springfield', chat: 'stub-springfield' }, createStubProviders());
+    const sent = JSON.stringify(exchange.calls);
+    expect(sent).toContain('Springfield, Missouri, United States');
+    expect(sent).toContain('Springfield, Illinois, United States');
+  });
+
+  it('replies in the language of the Telegram app', async () => {
+    const exchange = await sendFakeMessage({ platform: 'telegram', text: 'randonnée à lisbon demain', chat: 'stub-fr', locale: 'fr' }, createStubProviders());
+    const sent = JSON.stringify(exchange.calls);
+    expect(sent).toContain('<b>Risques</b>');
+    expect(sent).toContain('Chaleur');
+  });
+
+  it('replies in the language of the Discord client', async () => {
+    const exchange = await sendFakeMessage({ platform: 'discord', text: 'senderismo en lisbon mañana', chat: 'stub-es', locale: 'es-ES' }, createStubProviders());
+    const sent = JSON.stringify(exchange.calls);
+    expect(sent).toContain('Senderismo en Lisbon, Portugal');
+    expect(sent).toContain('Calor');
+  });
+
+  it('rejects a forged signature', async () => {
+    const exchange = await sendFakeMessage({ platform: 'slack', text: 'hiking in lisbon tomorrow', forged: true }, createStubProviders());
+    expect(exchange.status).toBe(401);
+    expect(exchange.calls).toEqual([]);
+  });
+});
@@ -0,0 +1,123 @@
+// lib/fakePlatform.ts
+// A local stand-in for Slack, Telegram and Discord, for trying the chat
+// webhooks without a workspace or bot account. It builds an update the way
+// the platform would, signs it with secrets generated for this process, runs
+// it through the same handler as the real route, and records the API calls
+// the bot makes in reply instead of sending them.
+import { generateKeyPairSync, randomBytes, sign } from 'crypto';
+import { createMemoryChatStore, type ChannelResult, type OutgoingCall } from './channels';
+import { handleSlackRequest, slackSignature, type SlackConfig } from './slack';
+import { handleTelegramRequest, type TelegramConfig } from './telegram';
+import { DISCORD_COMMAND, DISCORD_COMMAND_OPTION, handleDiscordRequest, type DiscordConfig } from './discord';
+import type { ConversationProviders } from './conversation';
+
+export type FakePlatform = 'slack' | 'telegram' | 'discord';
+
+export const FAKE_PLATFORMS: FakePlatform[] = ['slack', 'telegram', 'discord'];
+
+export interface FakeMessage {
+  platform: FakePlatform;
+  text: string;
+  // Each chat and user pair has its own conversation
+  chat?: string;
+  user?: string;
+  // The sender's app language on Telegram and Discord, e.g. "fr"
+  locale?: string;
+  // Sign with the wrong secret, to see the request rejected
+  forged?: boolean;
+}
+
+export interface FakeExchange {
+  // The webhook's own answer
+  status: number;
+  response: unknown;
+  // What the bot would have sent to the platform's API
+  calls: OutgoingCall[];
+}
+
+const FAKE_API_URL = 'https://fake-platform.invalid';
+
+const secret = () => randomBytes(16).toString('hex');
+const discordKeys = generateKeyPairSync('ed25519');
+
+const slack: SlackConfig = { signingSecret: secret(), botToken: 'xoxb-fake', language: 'en', apiUrl: FAKE_API_URL };
+const telegram: TelegramConfig = { secretToken: secret(), botToken: 'fake-token', apiUrl: FAKE_API_URL };
+const discord: DiscordConfig = {
+  publicKey: Buffer.from(discordKeys.publicKey.export({ format: 'jwk' }).x!, 'base64url').toString('hex'),
+  apiUrl: FAKE_API_URL,
+};
+
+// Fake conversations live only as long as the server process
+const store = createMemoryChatStore();
+
+// Every field but the locale, which a platform may leave out
+type FakeRequest = Required<Omit<FakeMessage, 'locale'>> & Pick<FakeMessage, 'locale'>;
+
+// Telegram ids are numbers
+const numericId = (value: string) => (/^\d+$/.test(value) ? Number(value) : [...value].reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 1_000_000_007, 7));
+
+const post = (body: string, headers: Record<string, string>) =>
+  new Request(`${FAKE_API_URL}/webhook`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body });
+
+const slackRequest = ({ text, chat, user, forged }: FakeRequest) => {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify({
+    type: 'event_callback',
+    team_id: 'TFAKE',
+    event: { type: 'message', channel_type: 'im', channel: chat, user, text, ts: `${timestamp}.000100` },
+  });
+  return post(body, {
+    'x-slack-request-timestamp': timestamp,
+    'x-slack-signature': slackSignature(forged ? secret() : slack.signingSecret, timestamp, body),
+  });
+};
+
+const telegramRequest = ({ text, chat, user, locale, forged }: FakeRequest) => post(
+  JSON.stringify({
+    update_id: Date.now(),
+    message: { message_id: Date.now(), date: Math.floor(Date.now() / 1000), chat: { id: numericId(chat), type: 'private' }, from: { id: numericId(user), is_bot: false, language_code: locale }, text },
+  }),
+  { 'x-telegram-bot-api-secret-token': forged ? secret() : telegram.secretToken },
+);
+
+const discordRequest = ({ text, chat, user, locale, forged }: FakeRequest) => {
+  const timestamp = String(Math.floor(Date.now() / 1000));
+  const body = JSON.stringify({
+    type: 2,
+    application_id: 'fake-application',
+    token: 'fake-interaction-token',
+    guild_id: 'fake-guild',
+    channel_id: chat,
+    member: { user: { id: user } },
+    locale,
+    data: { name: DISCORD_COMMAND, options: [{ name: DISCORD_COMMAND_OPTION, type: 3, value: text }] },
+  });
+  const signature = forged
+    ? randomBytes(64)
+    : sign(null, Buffer.from(timestamp + body), discordKeys.privateKey);
+  return post(body, { 'x-signature-ed25519': signature.toString('hex'), 'x-signature-timestamp': timestamp });
+};
+
+// Sends one message as the platform would and waits for every reply
+export const sendFakeMessage = async (message: FakeMessage, providers: ConversationProviders): Promise<FakeExchange> => {
+  const calls: OutgoingCall[] = [];
+  const deps = { store, providers, transport: async (call: OutgoingCall) => { calls.push(call); } };
+  const full = { ...message, chat: message.chat ?? 'fake-chat', user: message.user ?? 'fake-user', forged: message.forged ?? false };
+
+  let result: ChannelResult;
+  switch (message.platform) {
+    case 'slack':
+      result = await handleSlackRequest(slackRequest(full), slack, deps);
+      break;
+    case 'telegram':
+      result = await handleTelegramRequest(telegramRequest(full), telegram, deps);
+      break;
+    case 'discord':
+      result = await handleDiscordRequest(discordRequest(full), discord, deps);
+      break;
+  }
+
+  await result.work?.();
+  const text = await result.response.text();
+  return { status: result.response.status, response: text ? JSON.parse(text) : null, calls };
+};
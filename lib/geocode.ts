@@ -0,0 +1,120 @@
+// lib/geocode.ts
+import { createTTLCache } from './cache';
+import type { Coordinates } from './types';
+
+// Offline fallback for when the geocoding service itself is unreachable.
+// Only exact city names match; anything else is reported as unresolved.
+const fallbackCities: Record<string, Coordinates> = {
+  'new york': { lat: 40.7128, lon: -74.0060, name: 'New York', region: 'New York', country: 'United States' },
+  'london': { lat: 51.5074, lon: -0.1278, name: 'London', region: 'England', country: 'United Kingdom' },
+  'tokyo': { lat: 35.6762, lon: 139.6503, name: 'Tokyo', region: 'Tokyo', country: 'Japan' },
+  'paris': { lat: 48.8566, lon: 2.3522, name: 'Paris', region: 'Île-de-France', country: 'France' },
+  'sydney': { lat: -33.8688, lon: 151.2093, name: 'Sydney', region: 'New South Wales', country: 'Australia' },
+  'mumbai': { lat: 19.0760, lon: 72.8777, name: 'Mumbai', region: 'Maharashtra', country: 'India' },
+};
+
+export const DEFAULT_CANDIDATE_COUNT = 5;
+
+// Accepts "39.74,-104.99", "39.74, -104.99" or "39.74 -104.99".
+export const parseLatLon = (input: string): Coordinates | null => {
+  const match = input.trim().match(/^(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+  const lat = Number(match[1]);
+  const lon = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon, name: `${lat.toFixed(4)}, ${lon.toFixed(4)}` };
+};
+
+export const formatPlace = (place: Coordinates) =>
+  [place.name, place.region, place.country].filter(Boolean).join(', ');
+
+export const formatCoordinates = (place: Coordinates) =>
+  `${Math.abs(place.lat).toFixed(2)}°${place.lat >= 0 ? 'N' : 'S'}, ${Math.abs(place.lon).toFixed(2)}°${place.lon >= 0 ? 'E' : 'W'}`;
+
+// Open-Meteo only matches the place name, so "Springfield, Illinois" searches
+// for "Springfield" and the remaining parts narrow the results by region/country.
+const matchesQualifiers = (place: Coordinates, qualifiers: string[]) =>
+  qualifiers.every((qualifier) =>
+    [place.region, place.country].some((field) => field?.toLowerCase().includes(qualifier)));
+
+// Several places can be compared at once: "Lisbon; Porto", "Lisbon vs Porto",
+// "Lisbon, Porto or Faro". Commas alone are ambiguous with qualifiers, so see
+// describesSinglePlace for that case.
+export const MAX_COMPARISON_PLACES = 5;
+
+const EXPLICIT_LIST_SEPARATOR = /\s*(?:;|\||\bvs\.?(?=\s)|\bversus\b|\bor\b|\band\b)\s*/i;
+
+export const splitPlaceList = (input: string) => {
+  if (parseLatLon(input)) return [input.trim()];
+  return input
+    .split(new RegExp(`${EXPLICIT_LIST_SEPARATOR.source}|\\s*,\\s*`, 'i'))
+    .map((part) => part.trim())
+    .filter(Boolean);
+};
+
+export const hasExplicitPlaceList = (input: string) => EXPLICIT_LIST_SEPARATOR.test(input);
+
+// True when the parts after the first comma narrowed the search, i.e. they
+// were a region or country ("Springfield, Illinois") rather than more places.
+export const describesSinglePlace = (query: string, candidates: Coordinates[]) => {
+  const qualifiers = query.split(',').slice(1).map((part) => part.trim().toLowerCase()).filter(Boolean);
+  return qualifiers.length === 0 || candidates.some((place) => matchesQualifiers(place, qualifiers));
+};
+
+// Place names rarely move, so matches are kept for a week
+const GEOCODE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const geocodeCache = createTTLCache<Coordinates[]>({ ttlMs: GEOCODE_TTL_MS });
+
+const requestPlaces = async (name: string, count: number): Promise<Coordinates[]> => {
+  const response = await fetch(
+    `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(name)}&count=${count}&language=en&format=json`
+  );
+  if (!response.ok) {
+    throw new Error(`Geocoding request failed with status ${response.status}`);
+  }
+  const data = await response.json();
+  return (data.results ?? []).map((result: any) => ({
+    lat: result.latitude,
+    lon: result.longitude,
+    name: result.name,
+    region: result.admin1,
+    country: result.country,
+    population: result.population,
+  }));
+};
+
+// Returns up to `count` candidates, best match first. An empty list means the
+// place could not be resolved; callers must not substitute a default.
+export const searchLocations = async (location: string, count = DEFAULT_CANDIDATE_COUNT): Promise<Coordinates[]> => {
+  const coordinates = parseLatLon(location);
+  if (coordinates) return [coordinates];
+
+  const [name, ...rest] = location.split(',').map((part) => part.trim()).filter(Boolean);
+  const qualifiers = rest.map((part) => part.toLowerCase());
+
+  const fetchCount = qualifiers.length > 0 ? 20 : count;
+  let places: Coordinates[];
+  try {
+    ({ value: places } = await geocodeCache.get(`${(name ?? '').toLowerCase()}:${fetchCount}`, () => requestPlaces(name ?? '', fetchCount)));
+  } catch (error) {
+    console.error('Error geocoding location:', error);
+    const fallback = fallbackCities[(name ?? '').toLowerCase()];
+    if (fallback) return [fallback];
+    throw error;
+  }
+
+  const narrowed = places.filter((place) => matchesQualifiers(place, qualifiers));
+  return (narrowed.length > 0 ? narrowed : places).slice(0, count);
+};
+
+// A candidate list is unambiguous when it has one entry, or when the top result
+// is at least ten times as populous as the runner-up (Paris, France vs Paris, Texas).
+export const isUnambiguous = (candidates: Coordinates[]) =>
+  candidates.length === 1 ||
+  (candidates.length > 1 && !!candidates[0].population && candidates[0].population >= 10 * (candidates[1].population ?? 0));
+
+export const getCoordinatesFromLocation = async (location: string): Promise<Coordinates | null> => {
+  const [best] = await searchLocations(location, 1);
+  return best ?? null;
+};
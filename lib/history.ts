@@ -0,0 +1,134 @@
+// lib/history.ts
+// Saved chat history. The page only talks to a ConversationStore, so the
+// browser stores here can be swapped for a server-backed one later.
+import { findActivity } from './activities';
+import { formatShortDate } from './dates';
+import { DEFAULT_LANGUAGE, messagesFor } from './i18n';
+import type { ActivityProfile, ChatMessage, ChatState, ConversationSummary, Language, SavedConversation } from './types';
+
+export interface ConversationStore {
+  name: string;
+  // Newest first
+  list: () => Promise<ConversationSummary[]>;
+  get: (id: string) => Promise<SavedConversation | null>;
+  save: (conversation: SavedConversation) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+const toSummary = ({ id, title, updatedAt }: SavedConversation): ConversationSummary => ({ id, title, updatedAt });
+
+const newestFirst = (a: ConversationSummary, b: ConversationSummary) => b.updatedAt.localeCompare(a.updatedAt);
+
+// JSON turns message timestamps into strings; bring them back as Dates.
+const reviveMessages = (messages: ChatMessage[]): ChatMessage[] =>
+  messages.map((message) => ({ ...message, timestamp: new Date(message.timestamp) }));
+
+const STORAGE_KEY = 'weatherbot.conversations';
+
+export const createLocalStorageStore = (): ConversationStore => {
+  const readAll = (): SavedConversation[] => {
+    try {
+      const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (error) {
+      console.error('Error loading saved conversations:', error);
+      return [];
+    }
+  };
+  const writeAll = (conversations: SavedConversation[]) =>
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(conversations));
+
+  return {
+    name: 'localStorage',
+    list: async () => readAll().map(toSummary).sort(newestFirst),
+    get: async (id) => {
+      const conversation = readAll().find((entry) => entry.id === id);
+      return conversation ? { ...conversation, messages: reviveMessages(conversation.messages) } : null;
+    },
+    save: async (conversation) => {
+      writeAll([...readAll().filter((entry) => entry.id !== conversation.id), conversation]);
+    },
+    remove: async (id) => {
+      writeAll(readAll().filter((entry) => entry.id !== id));
+    },
+  };
+};
+
+const DB_NAME = 'weatherbot';
+const DB_STORE = 'conversations';
+
+const promisify = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// IndexedDB keeps Date objects intact and has no 5 MB quota, so it is
+// preferred whenever the browser offers it.
+export const createIndexedDBStore = (): ConversationStore => {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = () => {
+    db ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(DB_STORE, { keyPath: 'id' });
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+  const objectStore = async (mode: IDBTransactionMode) => (await open()).transaction(DB_STORE, mode).objectStore(DB_STORE);
+
+  return {
+    name: 'IndexedDB',
+    list: async () => {
+      const all = await promisify<SavedConversation[]>((await objectStore('readonly')).getAll());
+      return all.map(toSummary).sort(newestFirst);
+    },
+    get: async (id) => (await promisify<SavedConversation | undefined>((await objectStore('readonly')).get(id))) ?? null,
+    save: async (conversation) => {
+      await promisify((await objectStore('readwrite')).put(conversation));
+    },
+    remove: async (id) => {
+      await promisify((await objectStore('readwrite')).delete(id));
+    },
+  };
+};
+
+let store: ConversationStore | null = null;
+
+// Browser-only: call from effects and event handlers, not during render.
+export const getConversationStore = (): ConversationStore => {
+  store ??= typeof indexedDB !== 'undefined' ? createIndexedDBStore() : createLocalStorageStore();
+  return store;
+};
+
+export const renameConversation = async (store: ConversationStore, id: string, title: string) => {
+  const conversation = await store.get(id);
+  if (conversation) {
+    await store.save({ ...conversation, title, titleEdited: true });
+  }
+};
+
+export const createConversation = (messages: ChatMessage[], chatState: ChatState, language: Language = DEFAULT_LANGUAGE): SavedConversation => {
+  const now = new Date().toISOString();
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title: messagesFor(language).history.newChat,
+    createdAt: now,
+    updatedAt: now,
+    messages,
+    chatState,
+  };
+};
+
+// "Hiking · Denver, Colorado · Sat, Nov 7", built from whatever has been chosen so far.
+export const conversationTitle = (chatState: ChatState, activities: ActivityProfile[], locale?: string) => {
+  const activity = chatState.eventType ? findActivity(chatState.eventType, activities) : null;
+  const dates = chatState.date
+    ? chatState.endDate && chatState.endDate !== chatState.date
+      ? `${formatShortDate(chatState.date, locale)} – ${formatShortDate(chatState.endDate, locale)}`
+      : formatShortDate(chatState.date, locale)
+    : null;
+  const parts = [activity?.label ?? chatState.eventType, chatState.location, dates].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
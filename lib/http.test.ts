@@ -0,0 +1,53 @@
+// lib/http.test.ts
+import { describe, expect, it } from 'vitest';
+import { isIsoDate, parseHour, readJsonObject } from './http';
+
+describe('isIsoDate', () => {
+  it('accepts real calendar dates', () => {
+    expect(isIsoDate('2026-06-01')).toBe(true);
+    expect(isIsoDate('2028-02-29')).toBe(true);
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(isIsoDate('2026-02-31')).toBe(false);
+    expect(isIsoDate('2026-02-29')).toBe(false);
+    expect(isIsoDate('2026-13-01')).toBe(false);
+    expect(isIsoDate('2026-04-00')).toBe(false);
+  });
+
+  it('rejects other formats', () => {
+    expect(isIsoDate('2026-6-1')).toBe(false);
+    expect(isIsoDate('2026-06-01T12:00:00Z')).toBe(false);
+    expect(isIsoDate('')).toBe(false);
+    expect(isIsoDate(null)).toBe(false);
+    expect(isIsoDate(20260601 as unknown as string)).toBe(false);
+  });
+});
+
+describe('readJsonObject', () => {
+  const post = (body: string) => new Request('http://localhost/api/risk', { method: 'POST', body });
+
+  it('returns a JSON object body', async () => {
+    expect(await readJsonObject(post('{"date":"2026-06-01"}'))).toEqual({ date: '2026-06-01' });
+  });
+
+  it('returns null for malformed JSON and for anything but an object', async () => {
+    for (const body of ['{', '', 'null', '[]', '42', '"text"', 'true']) {
+      expect(await readJsonObject(post(body))).toBeNull();
+    }
+  });
+});
+
+describe('parseHour', () => {
+  it('reads whole hours from 0 to 23', () => {
+    expect(parseHour('0')).toBe(0);
+    expect(parseHour('09')).toBe(9);
+    expect(parseHour('23')).toBe(23);
+  });
+
+  it('rejects missing, blank and out-of-range values', () => {
+    for (const value of [null, '', ' ', '24', '-1', '14.5', '2pm', '1e1']) {
+      expect(parseHour(value)).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,59 @@
+// lib/http.ts
+import { NextResponse } from 'next/server';
+import type { NASAWeatherData, TimeWindow } from './types';
+
+export interface ApiError {
+  error: string;
+}
+
+export const jsonError = (error: string, status: number) =>
+  NextResponse.json<ApiError>({ error }, { status });
+
+// Null unless the body parses to a JSON object; `null`, arrays and bare
+// values are as unusable to a route as malformed JSON
+export const readJsonObject = async <T>(request: Request): Promise<Partial<T> | null> => {
+  try {
+    const body = await request.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+};
+
+export const parseCoordinate = (value: string | null, limit: number): number | null => {
+  if (value === null || value.trim() === '') return null;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || Math.abs(parsed) > limit) return null;
+  return parsed;
+};
+
+// Date rolls 2026-02-31 over to March 3rd, so the date has to survive a round trip
+export const isIsoDate = (value: string | null): value is string => {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(parsed.getTime()) && parsed.toISOString().slice(0, 10) === value;
+};
+
+// Whole hours of the day; a missing or blank value is null, not midnight
+export const parseHour = (value: string | null): number | null => {
+  if (value === null || !/^\d{1,2}$/.test(value.trim())) return null;
+  const hour = Number(value);
+  return hour <= 23 ? hour : null;
+};
+
+// The same hours as parseHour, from a JSON body; the end comes after the start
+export const isHourWindow = (value: any): value is TimeWindow =>
+  !!value && [value.startHour, value.endHour].every((hour) => Number.isInteger(hour) && hour >= 0 && hour <= 23) &&
+  value.startHour < value.endHour;
+
+const isFiniteNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+// Hazard readings are optional, but must be numbers when given
+export const hasOptionalNumbers = (value: any, keys: string[]) =>
+  keys.every((key) => value[key] === undefined || isFiniteNumber(value[key]));
+
+export const isWeatherData = (value: any): value is NASAWeatherData =>
+  !!value &&
+  ['temperature', 'precipitation', 'humidity', 'windSpeed', 'cloudCover', 'lat', 'lon'].every((key) => isFiniteNumber(value[key])) &&
+  hasOptionalNumbers(value, ['temperatureMax', 'temperatureMin', 'feelsLikeMax', 'feelsLikeMin', 'uvIndex', 'windGusts', 'snowfall', 'weatherCode', 'precipitationProbability', 'airQuality']) &&
+  typeof value.locationName === 'string';
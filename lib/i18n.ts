@@ -0,0 +1,109 @@
+// lib/i18n.ts
+// The translation layer. Bot prompts, the report narrative and risk labels
+// come from per-language message catalogs (lib/messages), and messages in
+// another language are read through a phrase table that turns their date,
+// place and correction words into the English slot extraction understands.
+import { en } from './messages/en';
+import { es } from './messages/es';
+import { fr } from './messages/fr';
+import { ar } from './messages/ar';
+import type { DisplayPreferences, Language } from './types';
+
+export type Catalog = typeof en;
+
+// Plural forms as Intl.PluralRules names them; `other` is the fallback
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const LANGUAGES: { value: Language; label: string; dir: 'ltr' | 'rtl'; locale: string }[] = [
+  { value: 'en', label: 'English', dir: 'ltr', locale: 'en-US' },
+  { value: 'es', label: 'Español', dir: 'ltr', locale: 'es-ES' },
+  { value: 'fr', label: 'Français', dir: 'ltr', locale: 'fr-FR' },
+  { value: 'ar', label: 'العربية', dir: 'rtl', locale: 'ar-EG' },
+];
+
+const CATALOGS: Record<Language, Catalog> = { en, es, fr, ar };
+
+export const isLanguage = (value: unknown): value is Language => LANGUAGES.some((language) => language.value === value);
+
+export const languageOf = (preferences?: Pick<DisplayPreferences, 'language'>): Language => preferences?.language ?? DEFAULT_LANGUAGE;
+
+export const messagesFor = (language: Language = DEFAULT_LANGUAGE): Catalog => CATALOGS[language];
+
+export const textDirection = (language: Language = DEFAULT_LANGUAGE) =>
+  LANGUAGES.find((entry) => entry.value === language)!.dir;
+
+// The date format that goes with a language, used when the language is changed
+export const defaultLocale = (language: Language) => LANGUAGES.find((entry) => entry.value === language)!.locale;
+
+// Fills `{name}` placeholders; unknown names are left as they are
+export const fill = (template: string, params: Record<string, string | number> = {}) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in params ? String(params[name]) : placeholder));
+
+export const plural = (forms: PluralForms, count: number, language: Language = DEFAULT_LANGUAGE) =>
+  forms[new Intl.PluralRules(language).select(count)] ?? forms.other;
+
+// Letters that can't sit either side of a phrase, so "en" doesn't match
+// inside "Valencia" and "يوم" doesn't match inside "اليوم"
+const LETTERS = 'A-Za-zÀ-ÖØ-öø-ÿ\\u0600-\\u06FF';
+
+// Accents, hamza seats and the like that people often leave off when typing
+const LOOSE_LETTERS: Record<string, string> = {
+  a: '[aáàâ]', á: '[aá]', à: '[aà]', â: '[aâ]', e: '[eéèê]', é: '[eé]', è: '[eè]', ê: '[eê]',
+  i: '[iíî]', í: '[ií]', î: '[iî]', o: '[oóô]', ó: '[oó]', ô: '[oô]', u: '[uúûù]', ú: '[uú]', û: '[uû]', ù: '[uù]',
+  ñ: '[nñ]', ç: '[cç]', "'": "['’]",
+  ا: '[اأإآ]', أ: '[اأإآ]', إ: '[اأإآ]', آ: '[اأإآ]', ة: '[ةه]', ى: '[ىي]', ي: '[يى]',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const loosePattern = (phrase: string) =>
+  [...phrase].map((char) => LOOSE_LETTERS[char] ?? (char === ' ' ? '\\s+' : escapeRegExp(char))).join('');
+
+const WEEKDAY_NAMES = 'sunday|monday|tuesday|wednesday|thursday|friday|saturday';
+const MONTH_NAMES = 'january|february|march|april|may|june|july|august|september|october|november|december';
+
+// Word order the English date parser doesn't expect, once words are translated:
+// "samedi prochain" is "saturday next", "el 4 de julio" is "el 4 de july".
+// "del" and "du" only mean "from" before a date, not in "Playa del Carmen".
+const DATE_START = `(?:next|this|${WEEKDAY_NAMES}|${MONTH_NAMES}|\\d{1,2})\\b`;
+const ENGLISH_ORDER: [RegExp, string][] = [
+  [new RegExp(`\\b(\\d{1,2})(?:er|º|°)?\\s+(?:de\\s+)?(${MONTH_NAMES})\\b`, 'gi'), '$1 $2'],
+  [new RegExp(`\\b(?:el|la|le)\\s+(?=${DATE_START})`, 'gi'), 'on '],
+  [new RegExp(`\\b(?:del|du)\\s+(?=${DATE_START})`, 'gi'), 'from '],
+  [new RegExp(`\\b(${WEEKDAY_NAMES})\\s+next\\b`, 'gi'), 'next $1'],
+];
+
+const phraseMatchers = new Map<Language, { pattern: RegExp; english: string[] }>();
+
+// One pass over the message with every phrase, longest first, so "pasado
+// mañana" wins over "mañana" and a translated word is never translated again
+const phraseMatcher = (language: Language) => {
+  if (!phraseMatchers.has(language)) {
+    const { phrases } = messagesFor(language);
+    const sorted = Object.keys(phrases).sort((a, b) => b.length - a.length);
+    phraseMatchers.set(language, {
+      pattern: new RegExp(`(^|[^${LETTERS}])(?:${sorted.map((phrase) => `(${loosePattern(phrase)})`).join('|')})(?![${LETTERS}])`, 'gi'),
+      english: sorted.map((phrase) => phrases[phrase]),
+    });
+  }
+  return phraseMatchers.get(language)!;
+};
+
+/**
+ * Rewrites a message's date, place and correction words in English, e.g.
+ * "senderismo en Madrid el próximo sábado" as "senderismo in Madrid on next
+ * saturday", so the English slot extraction can read it. Everything else,
+ * activity words and place names included, is left alone.
+ */
+export const toEnglishPhrases = (message: string, language: Language = DEFAULT_LANGUAGE) => {
+  if (language === DEFAULT_LANGUAGE) return message;
+  const { pattern, english } = phraseMatcher(language);
+  // Arabic-Indic digits as ASCII, and Arabic short-vowel marks dropped
+  const text = message
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[\u064B-\u0652]/g, '')
+    .replace(pattern, (_, before: string, ...groups: unknown[]) => `${before}${english[groups.findIndex((group) => group !== undefined)]}`);
+  return ENGLISH_ORDER.reduce((result, [rule, replacement]) => result.replace(rule, replacement), text);
+};
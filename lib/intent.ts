@@ -0,0 +1,108 @@
+// lib/intent.ts
+// Slot extraction for the chat. Any message can carry any of the activity,
+// place and date ("Hiking in Boulder next Saturday"), and a correction cue
+// ("actually make it Boston") marks it as changing a slot that is already filled.
+// Other languages are read through their phrase tables in lib/i18n.
+import { matchActivity } from './activities';
+import { extractTimeWindow, findDateExpression } from './dates';
+import { DEFAULT_LANGUAGE, toEnglishPhrases } from './i18n';
+import type { ActivityProfile, Language, TimeWindow } from './types';
+
+export type Slot = 'activity' | 'location' | 'date';
+
+export interface ExtractedSlots {
+  activity: ActivityProfile | null;
+  // Raw place text, still to be geocoded; may name several places
+  location: string | null;
+  dates: { start: Date; end: Date } | null;
+  timeWindow: TimeWindow | null;
+  bestDay: boolean;
+  correction: boolean;
+}
+
+export const BEST_DAY_PATTERN = /\b(?:the\s+)?(?:best|ideal|nicest|optimal)\s+(?:day|date)\b|\bwhich day\b/i;
+
+const SLOT_NAMES: Record<string, Slot> = {
+  activity: 'activity',
+  place: 'location',
+  location: 'location',
+  city: 'location',
+  date: 'date',
+  day: 'date',
+};
+
+const LEADING_CUES = [
+  /^(?:no|nope|sorry|oops|wait|hmm)\b[\s,.!]*/i,
+  /^(?:actually|instead)\b[\s,]*/i,
+  /^(?:change|switch|move)\s+(?:it|that|(?:the\s+)?(activity|place|location|city|date|day))\s+to\b\s*/i,
+  /^(?:make\s+(?:it|that)|how\s+about|what\s+about|let'?s\s+(?:do|try|go\s+with)|try)\b\s*/i,
+];
+const TRAILING_CUE = /[\s,]*\b(?:instead|then|actually)\b[\s.!?]*$/i;
+
+// "in Boulder", "at Lake Tahoe"; "to" only counts when nothing better is there
+const PLACE_PREPOSITION = /\b(?:in|at|near|around)\s+/i;
+const TRAVEL_PREPOSITION = /\bto\s+/i;
+const PLACE_TAIL = /\s+(?:for|with|on|this|during)\b.*$/i;
+
+const stripCorrection = (message: string) => {
+  let text = message.trim();
+  let correction = false;
+  let hint: Slot | null = null;
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const cue of LEADING_CUES) {
+      const match = text.match(cue);
+      if (match && match[0]) {
+        text = text.slice(match[0].length);
+        if (match[1]) hint = SLOT_NAMES[match[1].toLowerCase()];
+        correction = changed = true;
+      }
+    }
+  }
+  if (TRAILING_CUE.test(text)) {
+    text = text.replace(TRAILING_CUE, '');
+    correction = true;
+  }
+  return { text: text.trim(), correction, hint };
+};
+
+const cleanPlace = (text: string) => text.replace(PLACE_TAIL, '').replace(/[.!?]+$/, '').trim() || null;
+
+const findPlace = (text: string) => {
+  const match = text.match(PLACE_PREPOSITION) ?? text.match(TRAVEL_PREPOSITION);
+  return match ? cleanPlace(text.slice(match.index! + match[0].length)) : null;
+};
+
+/**
+ * Pulls every slot it can find out of one message. `expecting` is the slot
+ * the bot just asked for: when it is the place, text that isn't a date is
+ * taken as the place even without "in"/"at". `activities` should already be
+ * localized, so their keywords in `language` are matched too.
+ */
+export const extractSlots = (message: string, activities: ActivityProfile[], expecting: Slot | null, now = new Date(), language: Language = DEFAULT_LANGUAGE): ExtractedSlots => {
+  const { text, correction, hint } = stripCorrection(toEnglishPhrases(message, language));
+  const bestDay = BEST_DAY_PATTERN.test(text);
+  const { window: timeWindow, rest: withoutWindow } = extractTimeWindow(text.replace(BEST_DAY_PATTERN, ' '));
+  const found = findDateExpression(withoutWindow, now);
+  const rest = found ? found.rest : withoutWindow;
+  const dates = found && { start: found.start, end: found.end };
+
+  let place = findPlace(rest);
+  // A bare "Boston" is a place when the bot asked for one or the user said
+  // they're changing the place; otherwise it's too ambiguous to guess.
+  // "Actually, camping" while a place is pending still changes the activity.
+  const bareActivity = correction && hint === null && matchActivity(rest, activities);
+  if (!place && rest && !bareActivity && (expecting === 'location' || hint === 'location')) {
+    place = cleanPlace(rest);
+  }
+  // The place itself is left out so "Park City" doesn't read as a picnic
+  const activity = hint === 'location' ? null : matchActivity(place ? rest.replace(place, ' ') : rest, activities);
+  if (!place && !activity && rest && correction && !dates && !timeWindow && !bestDay) {
+    place = cleanPlace(rest);
+  }
+
+  return { activity, location: place, dates, timeWindow, bestDay, correction };
+};
+
+export const hasSlots = (slots: ExtractedSlots) =>
+  !!(slots.activity || slots.location || slots.dates || slots.timeWindow || slots.bestDay);
@@ -0,0 +1,220 @@
+// lib/llm.ts
+// LLM analysis providers. Every provider receives the same prompt and must
+// answer with JSON matching LLMAnalysis; anything else is treated as malformed
+// and the caller falls back to the rule-based analysis.
+import { RISK_KEYS, isThunderstorm } from './risk';
+import { UNIT_SYSTEMS } from './units';
+import { DEFAULT_LANGUAGE, languageOf, messagesFor } from './i18n';
+import type { ActivityProfile, DisplayPreferences, LLMAnalysis, NASAWeatherData, RiskData, WeatherAnalysis } from './types';
+
+export interface LLMProvider {
+  name: string;
+  complete: (prompt: string) => Promise<string>;
+}
+
+export interface AnalysisPromptInput {
+  weatherData: NASAWeatherData;
+  activity: ActivityProfile;
+  date: string;
+  risks: RiskData;
+  historical: boolean;
+  preferences?: DisplayPreferences;
+}
+
+const MAX_ADJUSTMENT = 20;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Only the readings the data actually has; absent ones were estimated or not forecast
+const hazardReadings = (weather: NASAWeatherData) => [
+  weather.feelsLikeMax !== undefined && `- Feels-like high: ${weather.feelsLikeMax.toFixed(1)} °C`,
+  weather.feelsLikeMin !== undefined && `- Feels-like low: ${weather.feelsLikeMin.toFixed(1)} °C`,
+  weather.windGusts !== undefined && `- Max wind gusts: ${weather.windGusts.toFixed(1)} km/h`,
+  weather.uvIndex !== undefined && `- Max UV index: ${weather.uvIndex.toFixed(1)}`,
+  weather.snowfall !== undefined && `- Snowfall: ${weather.snowfall.toFixed(1)} cm`,
+  weather.weatherCode !== undefined && `- Thunderstorms forecast: ${isThunderstorm(weather.weatherCode) ? 'yes' : 'no'}`,
+  weather.airQuality !== undefined && `- Worst US AQI: ${Math.round(weather.airQuality)}`,
+].filter(Boolean).map((line) => `${line}\n`).join('');
+
+export const buildAnalysisPrompt = ({ weatherData, activity, date, risks, historical, preferences }: AnalysisPromptInput) => `You are a weather risk analyst helping someone plan an outdoor ${activity.label.toLowerCase()} on ${date} in ${weatherData.locationName} (${weatherData.lat.toFixed(3)}, ${weatherData.lon.toFixed(3)}).
+
+Activity tolerances: comfortable at feels-like temperatures between ${activity.comfortTemp.min} and ${activity.comfortTemp.max} °C, wind up to ${activity.maxWind} km/h, precipitation up to ${activity.maxPrecipitation} mm.
+
+${historical ? 'Typical conditions from NASA POWER history' : 'Forecast conditions'}:
+- Mean temperature: ${weatherData.temperature.toFixed(1)} °C
+- Precipitation: ${weatherData.precipitation.toFixed(1)} mm
+- Relative humidity: ${weatherData.humidity.toFixed(0)} %
+- Max wind speed: ${weatherData.windSpeed.toFixed(1)} km/h
+- Cloud cover: ${weatherData.cloudCover.toFixed(0)} %
+${hazardReadings(weatherData)}
+Computed risk scores (0-100, ${historical ? 'empirical exceedance frequencies' : 'heuristic scores'}):
+${RISK_KEYS.map((key) => `- ${key}: ${Math.round(risks[key])}`).join('\n')}
+
+Respond with a single JSON object and nothing else, using exactly this shape:
+{
+  "riskAdjustments": { ${RISK_KEYS.map((key) => `"${key}"?: number`).join(', ')} },
+  "narrative": string,
+  "packingTips": string[],
+  "mitigationTips": string[]
+}
+riskAdjustments are optional additive corrections between -${MAX_ADJUSTMENT} and ${MAX_ADJUSTMENT} for this specific activity. Keep the narrative under 80 words and give at most 5 tips per list.${preferences ? `
+Write any measurements in ${UNIT_SYSTEMS.find((system) => system.value === preferences.units)!.label} units and any dates in the style of the ${preferences.locale} locale.` : ''}${languageOf(preferences) !== DEFAULT_LANGUAGE ? `
+Write the narrative and tips in ${messagesFor(languageOf(preferences)).name}.` : ''}`;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.length <= 10 && value.every((item) => typeof item === 'string' && item.trim() !== '');
+
+export const validateLLMAnalysis = (value: unknown): LLMAnalysis | null => {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Record<string, unknown>;
+
+  if (typeof candidate.narrative !== 'string' || candidate.narrative.trim() === '') return null;
+  if (!isStringList(candidate.packingTips) || !isStringList(candidate.mitigationTips)) return null;
+
+  const adjustments = candidate.riskAdjustments ?? {};
+  if (typeof adjustments !== 'object' || Array.isArray(adjustments)) return null;
+  const riskAdjustments: Partial<RiskData> = {};
+  for (const [key, delta] of Object.entries(adjustments)) {
+    if (!RISK_KEYS.includes(key as keyof RiskData)) return null;
+    if (typeof delta !== 'number' || !Number.isFinite(delta) || Math.abs(delta) > MAX_ADJUSTMENT) return null;
+    riskAdjustments[key as keyof RiskData] = delta;
+  }
+
+  return {
+    riskAdjustments,
+    narrative: candidate.narrative.trim(),
+    packingTips: candidate.packingTips,
+    mitigationTips: candidate.mitigationTips,
+  };
+};
+
+// Models like to wrap JSON in markdown fences even when asked not to.
+export const parseLLMOutput = (raw: string): LLMAnalysis | null => {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    return validateLLMAnalysis(JSON.parse(cleaned));
+  } catch {
+    return null;
+  }
+};
+
+export const createGeminiProvider = (apiKey: string, model = process.env.GEMINI_MODEL || 'gemini-2.5-flash'): LLMProvider => ({
+  name: `Google Gemini (${model})`,
+  complete: async (prompt) => {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+      body: JSON.stringify({
+        contents: [{ parts: [{ text: prompt }] }],
+        generationConfig: { responseMimeType: 'application/json', temperature: 0.2 },
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`Gemini request failed with status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.candidates?.[0]?.content?.parts?.[0]?.text ?? '';
+  },
+});
+
+export const createOpenAICompatibleProvider = (
+  apiKey: string,
+  baseUrl = process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+  model = process.env.OPENAI_MODEL || 'gpt-4o-mini',
+): LLMProvider => ({
+  name: `OpenAI-compatible (${model})`,
+  complete: async (prompt) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: 'You reply only with valid JSON.' },
+          { role: 'user', content: prompt },
+        ],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible request failed with status ${response.status}`);
+    }
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content ?? '';
+  },
+});
+
+const mockTips: Record<keyof RiskData, { packing: string; mitigation: string }> = {
+  hot: { packing: 'Extra water and electrolytes', mitigation: 'Schedule strenuous parts for early morning' },
+  cold: { packing: 'Insulating layers and a warm hat', mitigation: 'Keep a heated shelter or car nearby' },
+  windy: { packing: 'Windproof shell and tie-downs', mitigation: 'Avoid exposed ridges and open water' },
+  wet: { packing: 'Rain jacket and waterproof bags', mitigation: 'Have a covered backup location' },
+  uncomfortable: { packing: 'Breathable clothing', mitigation: 'Plan regular shaded breaks' },
+  uv: { packing: 'SPF 30+ sunscreen, sunglasses and a wide-brimmed hat', mitigation: 'Stay in the shade between 11am and 3pm' },
+  airQuality: { packing: 'Well-fitting N95 masks', mitigation: 'Keep exertion light and check the AQI before heading out' },
+  storm: { packing: 'A charged phone for weather alerts', mitigation: 'Know the nearest building or car to shelter in from lightning' },
+  snow: { packing: 'Waterproof boots with traction aids', mitigation: 'Allow extra travel time and check road conditions' },
+  gusts: { packing: 'Extra guy lines and stakes', mitigation: 'Keep clear of trees and take down shades in strong gusts' },
+};
+
+// Deterministic offline provider: derives its answer from the prompt's risk
+// scores so the whole pipeline can run without network access or API keys.
+export const createMockProvider = (): LLMProvider => ({
+  name: 'Mock LLM (offline)',
+  complete: async (prompt) => {
+    const scores = RISK_KEYS.map((key) => {
+      const match = prompt.match(new RegExp(`^- ${key}: (\\d+)$`, 'm'));
+      return { key, score: match ? Number(match[1]) : 0 };
+    }).sort((a, b) => b.score - a.score);
+    const concerns = scores.filter(({ score }) => score >= 30);
+    // The prompt allows at most 5 tips per list
+    const top = concerns.length > 0 ? concerns.slice(0, 5) : scores.slice(0, 1);
+
+    const result: LLMAnalysis = {
+      riskAdjustments: {},
+      narrative: concerns.length > 0
+        ? `Main concerns are ${concerns.map(({ key, score }) => `${key} (${score}%)`).join(', ')}. Prepare accordingly.`
+        : `Conditions look favourable; ${scores[0].key} is the highest risk at ${scores[0].score}%.`,
+      packingTips: top.map(({ key }) => mockTips[key].packing),
+      mitigationTips: top.map(({ key }) => mockTips[key].mitigation),
+    };
+    return JSON.stringify(result);
+  },
+});
+
+// LLM_PROVIDER picks explicitly; otherwise the first configured API key wins.
+// With neither, analysis stays purely rule-based.
+export const getLLMProvider = (): LLMProvider | null => {
+  const choice = process.env.LLM_PROVIDER?.toLowerCase();
+  const geminiKey = process.env.GEMINI_API_KEY;
+  const openaiKey = process.env.OPENAI_API_KEY;
+
+  if (choice === 'mock') return createMockProvider();
+  if ((choice === 'gemini' || !choice) && geminiKey) return createGeminiProvider(geminiKey);
+  if ((choice === 'openai' || !choice) && openaiKey) return createOpenAICompatibleProvider(openaiKey);
+  return null;
+};
+
+const clampRisk = (value: number) => Math.max(0, Math.min(100, value));
+
+// Merges a validated LLM answer into the rule-based analysis. Historical
+// probabilities are measured frequencies, so adjustments only apply to forecast scores.
+export const applyLLMAnalysis = (base: WeatherAnalysis, llm: LLMAnalysis, providerName: string): WeatherAnalysis => {
+  const risks = { ...base.risks };
+  if (!base.climatology) {
+    for (const [key, delta] of Object.entries(llm.riskAdjustments)) {
+      risks[key as keyof RiskData] = clampRisk(risks[key as keyof RiskData] + delta);
+    }
+  }
+
+  return {
+    ...base,
+    risks,
+    analysis: `${base.analysis.split('\n\n')[0]}\n\n${llm.narrative}`,
+    dataSources: [...base.dataSources, providerName],
+    packingTips: llm.packingTips,
+    mitigationTips: llm.mitigationTips,
+  };
+};
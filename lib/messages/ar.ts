@@ -0,0 +1,413 @@
+// lib/messages/ar.ts
+import type { Catalog, PluralForms } from '../i18n';
+
+const plural = (forms: PluralForms) => forms;
+
+export const ar: Catalog = {
+  name: 'Arabic',
+
+  activities: {
+    vacation: { label: 'يوم على الشاطئ', keywords: ['شاطئ', 'شاطىء', 'بحر', 'عطلة', 'إجازة', 'اجازة', 'سفر'] },
+    hiking: { label: 'المشي الجبلي', keywords: ['مشي', 'تسلق', 'جبل', 'الجبال', 'درب', 'هايكنج'] },
+    fishing: { label: 'صيد السمك', keywords: ['صيد', 'سمك'] },
+    picnic: { label: 'نزهة', keywords: ['نزهة', 'نزهه', 'بيكنيك', 'حديقة', 'حديقه'] },
+    sports: { label: 'رياضة', keywords: ['رياضة', 'رياضه', 'مباراة', 'مباراه', 'كرة', 'تمرين', 'جري'] },
+    camping: { label: 'تخييم', keywords: ['تخييم', 'مخيم', 'خيمة', 'خيمه', 'كامب'] },
+  },
+
+  phrases: {
+    // Dates
+    'اليوم': 'today',
+    'الليلة': 'tonight',
+    'غدا': 'tomorrow',
+    'بكرة': 'tomorrow',
+    'بعد غد': 'day after tomorrow',
+    'بعد بكرة': 'day after tomorrow',
+    'الأسبوع القادم': 'next week',
+    'الأسبوع المقبل': 'next week',
+    'القادم': 'next',
+    'القادمة': 'next',
+    'المقبل': 'next',
+    'المقبلة': 'next',
+    'هذا': 'this',
+    'هذه': 'this',
+    'بعد': 'in',
+    'بعد يوم': 'in a day',
+    'بعد يومين': 'in two days',
+    'بعد أسبوع': 'in a week',
+    'بعد أسبوعين': 'in two weeks',
+    'بعد شهر': 'in a month',
+    'بعد شهرين': 'in two months',
+    'أيام': 'days',
+    'أسابيع': 'weeks',
+    'أشهر': 'months',
+    'شهور': 'months',
+    'يوم': 'on',
+    'الأحد': 'sunday',
+    'الاثنين': 'monday',
+    'الإثنين': 'monday',
+    'الثلاثاء': 'tuesday',
+    'الأربعاء': 'wednesday',
+    'الخميس': 'thursday',
+    'الجمعة': 'friday',
+    'السبت': 'saturday',
+    'يناير': 'january',
+    'فبراير': 'february',
+    'مارس': 'march',
+    'أبريل': 'april',
+    'إبريل': 'april',
+    'مايو': 'may',
+    'يونيو': 'june',
+    'يوليو': 'july',
+    'أغسطس': 'august',
+    'سبتمبر': 'september',
+    'أكتوبر': 'october',
+    'نوفمبر': 'november',
+    'ديسمبر': 'december',
+    'كانون الثاني': 'january',
+    'شباط': 'february',
+    'آذار': 'march',
+    'نيسان': 'april',
+    'أيار': 'may',
+    'حزيران': 'june',
+    'تموز': 'july',
+    'آب': 'august',
+    'أيلول': 'september',
+    'تشرين الأول': 'october',
+    'تشرين الثاني': 'november',
+    'كانون الأول': 'december',
+    'من': 'from',
+    'بين': 'between',
+    'إلى': 'to',
+    'حتى': 'until',
+    'صباحا': 'in the morning',
+    'الصباح': 'morning',
+    'بعد الظهر': 'in the afternoon',
+    'العصر': 'afternoon',
+    'مساء': 'in the evening',
+    'المساء': 'evening',
+    'أفضل يوم': 'best day',
+    'أي يوم': 'which day',
+    // Places
+    'في': 'in',
+    'قرب': 'near',
+    'بالقرب من': 'near',
+    'حول': 'around',
+    'أو': 'or',
+    'و': 'and',
+    'لمدة': 'for',
+    'مع': 'with',
+    'خلال': 'during',
+    // Corrections
+    'لا': 'no',
+    'عفوا': 'sorry',
+    'انتظر': 'wait',
+    'في الواقع': 'actually',
+    'بل': 'actually',
+    'بدلا من ذلك': 'instead',
+    'غير': 'change',
+    'النشاط': 'the activity',
+    'المكان': 'the place',
+    'المدينة': 'the city',
+    'التاريخ': 'the date',
+    'ماذا عن': 'how about',
+    'ما رأيك في': 'how about',
+  },
+
+  risks: {
+    hot: 'حر',
+    cold: 'برد',
+    windy: 'رياح',
+    wet: 'أمطار',
+    uncomfortable: 'رطوبة',
+    uv: 'أشعة فوق بنفسجية',
+    airQuality: 'جودة الهواء',
+    storm: 'عواصف رعدية',
+    snow: 'ثلوج',
+    gusts: 'هبّات',
+  },
+
+  age: {
+    justNow: 'الآن',
+    minutes: 'قبل {count} دقيقة',
+    hours: 'قبل {count} ساعة',
+    days: 'قبل {count} يوم',
+  },
+
+  page: {
+    tagline: 'مدعوم ببيانات أقمار رصد الأرض',
+    units: 'الوحدات',
+    language: 'اللغة',
+    dateFormat: 'تنسيق التاريخ والوقت',
+    activities: 'الأنشطة',
+    watches: 'المتابعات',
+    you: 'أنت',
+    overall: 'الإجمالي (كل خطر في أسوأ أيامه)',
+    eventWindow: 'وقت الحدث (كل خطر في أسوأ ساعاته)',
+    bestLocation: 'أفضل مكان ({place})',
+    bestDay: 'أفضل يوم ({date})',
+    worstHour: 'أسوأ ساعة',
+    columns: { day: 'اليوم', place: 'المكان', temperature: '🌡️ الحرارة', wind: '💨 الرياح', rain: '🌧️ المطر', overall: 'الإجمالي' },
+    climatology: 'مناخيات NASA POWER',
+    risk: 'خطر {percent}%',
+    fullReport: 'التقرير الكامل ←',
+    accessing: 'جارٍ الوصول إلى بيانات الأقمار الصناعية...',
+    footer: 'يستخدم بيانات GFS حقيقية وتحليلات الأقمار الصناعية من ناسا • خدمة مجانية',
+  },
+
+  chat: {
+    greeting: 'مرحبًا! 👋 أنا WeatherBot، وأعمل ببيانات حقيقية لرصد الأرض من ناسا. أستطيع أن أتوقع ما إذا كان الطقس السيئ قد يفسد خططك في الهواء الطلق!\n\nسأحلل احتمالات الحر الشديد والبرد والرياح والهبّات والأمطار والعواصف الرعدية والثلوج والأشعة فوق البنفسجية القوية وسوء جودة الهواء والأجواء غير المريحة باستخدام بيانات الأقمار الصناعية وتحليل الذكاء الاصطناعي.\n\nما المغامرة التي تخطط لها في الهواء الطلق؟',
+    followUp: 'هل تريد التحقق من حدث آخر ببيانات ناسا الحقيقية؟ أخبرني فقط بما تخطط له، أو غيّر جزءًا من هذا الحدث، مثل "في الواقع في بوسطن" أو "بل يوم الأحد".',
+    reportFailed: 'واجهت مشكلة في الوصول إلى بيانات ناسا الآنية. يُرجى المحاولة مرة أخرى بعد قليل.',
+    quote: '"{text}"',
+    listSeparator: '، ',
+
+    cachedHeading: '**بيانات مخزنة (جُلبت {age}؛ التوقعات المباشرة غير متاحة):**',
+    estimateHeading: '**تقديرات موسمية (لا تتوفر توقعات مباشرة، والثقة منخفضة):**',
+    realtimeHeading: '**بيانات آنية:**',
+    weatherHeading: '**بيانات الطقس:**',
+    conditions: {
+      temperature: 'درجة الحرارة: {value}',
+      feelsLike: 'الإحساس الفعلي: {value}',
+      feelsLikeRange: 'الإحساس الفعلي: من {low} إلى {high}',
+      windSpeed: 'سرعة الرياح: {value}',
+      windGusts: 'هبّات الرياح: {value}',
+      precipitation: 'الهطول: {value}',
+      snowfall: 'الثلوج: {value}',
+      thunderstorms: 'العواصف الرعدية: متوقعة',
+      humidity: 'الرطوبة: {value}%',
+      cloudCover: 'الغطاء السحابي: {value}%',
+      uvIndex: 'مؤشر الأشعة فوق البنفسجية: {value}',
+      airQuality: 'جودة الهواء: US AQI {value}',
+    },
+    pack: '**خذ معك:**',
+    planAhead: '**خطط مسبقًا:**',
+    historical: {
+      heading: '**الاحتمال التاريخي ({start}–{end}، {days} يومًا من {years} سنة):**',
+      hot: 'حر (العظمى فوق {value}): {percent}%',
+      cold: 'برد (الصغرى دون {value}): {percent}%',
+      windy: 'رياح (هبّات فوق {value}): {percent}%',
+      wet: 'أمطار (أكثر من {value}): {percent}%',
+      uncomfortable: 'رطوبة (فوق {value} ورطوبة {humidity}%): {percent}%',
+      snow: 'ثلوج ({value} أو أكثر في يوم تبقى حرارته قرب التجمد): {percent}%',
+    },
+
+    datePassed: 'لقد مضى {date} بالفعل.',
+    askUpcomingDate: 'ما التاريخ القادم الذي تريد أن أتحقق منه؟',
+    rangeReversed: 'نهاية هذه الفترة ({date}) تسبق بدايتها.',
+    askDatesAgain: 'هل يمكنك إعطائي التواريخ مرة أخرى؟',
+    rangeTooLongSearch: 'هذه {count} يومًا، ويمكنني البحث في {max} يومًا كحد أقصى في المرة الواحدة.',
+    rangeTooLongBreakDown: 'هذه {count} يومًا، ويمكنني تفصيل {max} يومًا كحد أقصى في المرة الواحدة.',
+    askShorterRange: 'هل يمكنك اختيار فترة أقصر؟',
+    comparisonNeedsOneDay: 'أقارن الأماكن يومًا واحدًا في كل مرة. ما التاريخ الذي تريد أن أتحقق فيه من {location}؟',
+    bestDayNeedsWindow: 'لأجد أفضل يوم أحتاج إلى فترة أبحث فيها، مثل "من 1 نوفمبر إلى 14 نوفمبر" أو "من الجمعة القادمة إلى الأحد القادم". ما الأيام المناسبة لك؟',
+    noDate: 'لم أتمكن من استخراج تاريخ من "{message}". جرّب شيئًا مثل "السبت القادم" أو "4 يوليو" أو "غدًا" أو "بعد 3 أسابيع" أو 2026-07-04 أو فترة مثل "من 2026-11-06 إلى 2026-11-09".',
+    nextPlan: 'أخبرني بما تخطط له بعد ذلك، مثل "تخييم في بحيرة تاهو السبت القادم"، أو غيّر جزءًا من هذه الخطة، مثل "في الواقع في بوسطن" أو "بل يوم الأحد".',
+    unknownActivity: 'همم، لست متأكدًا من هذا النشاط. جرّب: {activities}، أو أضف نشاطك الخاص بزر الأنشطة!',
+    updating: '🔄 سأحدّث {changes} وأعيد إعداد التقرير.',
+    changes: { activity: 'النشاط', date: 'التاريخ', time: 'الوقت', place: 'المكان' },
+    changesJoin: ' و',
+
+    tooManyPlaces: 'يمكنني مقارنة {max} أماكن كحد أقصى في المرة الواحدة. أيها أُبقي؟',
+    geocodingUnreachable: 'تعذّر الوصول إلى خدمة تحديد المواقع الآن. يُرجى المحاولة مرة أخرى، أو أرسل إحداثيات مثل 39.74,-104.99.',
+    placeNotFound: 'لم أجد مكانًا باسم "{query}". تحقق من الإملاء، أو أضف منطقة أو دولة (مثل "Springfield, Illinois")، أو أرسل إحداثيات مثل 39.74,-104.99.',
+    whichPlace: 'وجدت عدة أماكن تطابق "{query}". أيها تقصد؟ اضغط على أحدها أدناه أو أرسل رقمه.',
+    comparisonNeedsTwo: 'أحتاج إلى مكانين على الأقل للمقارنة، لكنني لم أجد {missing}. هل يمكنك التحقق من الإملاء أو إضافة الدولة؟',
+    leftOut: plural({
+      one: '(لم أجد {missing}، لذا استبعدته.)',
+      two: '(لم أجد {missing}، لذا استبعدتهما.)',
+      other: '(لم أجد {missing}، لذا استبعدتها.)',
+    }),
+    comparing: 'لنقارن بين {count} أماكن:',
+    placeChosen: 'تمام! {place} إذن! ',
+
+    askActivity: 'ما نوع مغامرتك في الهواء الطلق؟ جرّب: {activities}.',
+    askLocation: [
+      'رائع! {activity} نشاط مذهل! والآن، أين سيكون ذلك؟ أرسل لي اسم مدينة!',
+      'اختيار موفق! {activity} يبدو ممتعًا! ما هو المكان؟',
+      'ممتاز! أحب {activityLower}! إلى أين ستذهب؟',
+    ],
+    askComparisonDate: 'ما التاريخ الذي تريد أن أتحقق منه لها جميعًا؟',
+    askDate: [
+      'متى اليوم الموعود؟ (مثل "السبت القادم 2pm-6pm" أو "4 يوليو" أو فترة مثل "من 2026-11-06 إلى 2026-11-09"، أو اطلب "أفضل يوم بين 1 نوفمبر و 14 نوفمبر")',
+      'ما التاريخ الذي نبحث فيه؟ (مثل "غدًا" أو "بعد 3 أسابيع" أو YYYY-MM-DD)',
+      'والآن، ما التاريخ؟ (مثل "الجمعة القادمة" أو YYYY-MM-DD)',
+    ],
+
+    forecastSource: 'هذا ضمن نافذة التوقعات البالغة {days} يومًا، لذا سأستخدم بيانات التوقعات المباشرة.',
+    climatologySource: 'هذا أبعد من نافذة التوقعات البالغة {days} يومًا، لذا سأستخدم مناخيات NASA POWER لهذا الوقت من السنة.',
+    mixedSource: 'جزء من ذلك أبعد من نافذة التوقعات البالغة {days} يومًا، لذا ستعتمد الأيام الأخيرة على مناخيات NASA POWER.',
+    searching: 'أبحث عن أفضل يوم بين {count} يومًا من {start} إلى {end}',
+    dateRange: 'من {start} إلى {end} ({count} أيام)',
+    windowUnavailable: plural({
+      one: 'التفاصيل ساعة بساعة متاحة فقط ليوم واحد ضمن نافذة التوقعات، لذا سأنظر في اليوم بأكمله بدلًا من ذلك.',
+      other: 'التفاصيل ساعة بساعة متاحة فقط ليوم واحد ضمن نافذة التوقعات، لذا سأنظر في الأيام كاملة بدلًا من ذلك.',
+    }),
+    accessing: '🛰️ جارٍ الوصول إلى بيانات الأقمار الصناعية من ناسا والنماذج الجوية...',
+    connecting: '📡 جارٍ الاتصال بمصادر بيانات ناسا وتحليل الأنماط...',
+
+    planning: 'أخطط لـ{activity}',
+    fullReport: 'أرني التقرير الكامل ليوم {date}',
+    inputPlaceholder: 'اسأل عن حالة الطقس لفعاليتك...',
+  },
+
+  report: {
+    headlines: {
+      hot: 'الحر الشديد',
+      cold: 'درجات الحرارة دون التجمد',
+      windy: 'الرياح القوية',
+      wet: 'الأمطار الغزيرة',
+      uncomfortable: 'الأجواء غير المريحة',
+      uv: 'التعرض القوي للأشعة فوق البنفسجية',
+      airQuality: 'سوء جودة الهواء',
+      storm: 'العواصف الرعدية والبرق',
+      snow: 'تساقط الثلوج',
+      gusts: 'هبّات الرياح القوية',
+    },
+    nouns: {
+      hot: 'الحر',
+      cold: 'البرد',
+      windy: 'الرياح',
+      wet: 'المطر',
+      uncomfortable: 'عدم الارتياح',
+      uv: 'الأشعة فوق البنفسجية',
+      airQuality: 'جودة الهواء',
+      storm: 'العواصف الرعدية',
+      snow: 'الثلوج',
+      gusts: 'الهبّات',
+    },
+
+    climatologyIntro: 'استنادًا إلى {count} يومًا من سجل NASA POWER ({start}–{end}، ±{window} أيام حول هذا التاريخ) لـ{location} في {when}:',
+    estimateIntro: 'لم تتوفر توقعات مباشرة، لذا يعتمد هذا على تقديرات موسمية تقريبية لـ{location} في {when} (الثقة منخفضة):',
+    forecastIntro: 'استنادًا إلى بيانات {source} لـ{location} في {when}:',
+    suppliedSource: 'المقدمة',
+
+    excellent: '✅ أجواء ممتازة لـ{event}! جميع المؤشرات الجوية ضمن النطاقات المثالية. ',
+    excellentConditions: 'درجة الحرارة: {temperature}، الرياح: {wind}، الهطول: {precipitation}.',
+    moderate: '⚠️ خطر متوسط من {risk} على {event}. ',
+    moderateAdvice: 'استعد لاحتمال {percent}% لأجواء صعبة. ',
+    moderateConditions: {
+      climatology: 'الأجواء المعتادة: {temperature}، ورياح {wind}.',
+      estimate: 'التقدير الموسمي: {temperature}، ورياح {wind}.',
+      forecast: 'التوقعات الحالية: {temperature}، ورياح {wind}.',
+    },
+    high: '🚨 خطر مرتفع من {risk} على {event}! ',
+    highAdvice: 'فكّر جديًا في تغيير الموعد، فاحتمال الأجواء السيئة {percent}%. ',
+    highConditions: {
+      climatology: 'متوسط السجل {temperature} مع هطول {precipitation}.',
+      estimate: 'تشير التقديرات الموسمية إلى {temperature} مع هطول {precipitation}.',
+      forecast: 'تُظهر التوقعات {temperature} مع هطول {precipitation}.',
+    },
+
+    hazards: {
+      humidHeat: '🥵 مع الرطوبة، ستبدو {temperature} أقرب إلى {feelsLike}.',
+      windChill: '🥶 مع برودة الرياح، ستبدو {temperature} أقرب إلى {feelsLike}.',
+      thunderstorms: '⛈️ يُتوقع حدوث عواصف رعدية. البرق هو الخطر الأكبر في الهواء الطلق: ابقَ قريبًا من مأوى وتوقف عندما تسمع الرعد.',
+      thunderstormsChance: '⛈️ يُتوقع حدوث عواصف رعدية (احتمال المطر {percent}%). البرق هو الخطر الأكبر في الهواء الطلق: ابقَ قريبًا من مأوى وتوقف عندما تسمع الرعد.',
+      uvAround: '☀️ مؤشر الأشعة فوق البنفسجية نحو {value} ({category}): واقٍ من الشمس وقبعة وظل وقت الظهيرة.',
+      uvUpTo: '☀️ مؤشر الأشعة فوق البنفسجية حتى {value} ({category}): واقٍ من الشمس وقبعة وظل وقت الظهيرة.',
+      uvCategories: { moderate: 'متوسط', high: 'مرتفع', veryHigh: 'مرتفع جدًا', extreme: 'شديد' },
+      airQuality: '😷 تصل جودة الهواء إلى US AQI {value} ({category}) بسبب الدخان أو التلوث. خفّف من المجهود الشاق، خاصة مع الربو أو أمراض القلب.',
+      aqiCategories: {
+        moderate: 'متوسطة',
+        sensitive: 'غير صحية للفئات الحساسة',
+        unhealthy: 'غير صحية',
+        veryUnhealthy: 'غير صحية جدًا',
+        hazardous: 'خطرة',
+      },
+      snowHistory: '🌨️ تساقطت الثلوج في {percent}% من هذه الأيام في السنوات الماضية.',
+      snowExpected: '🌨️ يُتوقع تساقط نحو {amount} من الثلوج: احسب حساب الأرض الزلقة وبطء التنقل.',
+      snowPossible: '🌨️ قد يتساقط نحو {amount} من الثلوج: احسب حساب الأرض الزلقة وبطء التنقل.',
+      gusts: '🌬️ هبّات تصل إلى {speed}: ثبّت المظلات والخيام وكل ما قد يتطاير.',
+      likelyGusts: '🌬️ هبّات محتملة تصل إلى {speed}: ثبّت المظلات والخيام وكل ما قد يتطاير.',
+      thunderstormsName: 'العواصف الرعدية',
+      airQualityName: 'جودة الهواء',
+      namesJoin: ' أو ',
+      noHistory: plural({
+        one: 'ℹ️ لا يوجد سجل لـ{hazards} يمكن الاستناد إليه، لذا فهذه الدرجة مجرد خط أساس.',
+        other: 'ℹ️ لا يوجد سجل لـ{hazards} يمكن الاستناد إليه، لذا فهذه الدرجات مجرد خط أساس.',
+      }),
+      noForecast: plural({
+        one: 'ℹ️ لا تغطي أي توقعات {hazards} في هذا التاريخ، لذا فهذه الدرجة مجرد خط أساس.',
+        other: 'ℹ️ لا تغطي أي توقعات {hazards} في هذا التاريخ، لذا فهذه الدرجات مجرد خط أساس.',
+      }),
+    },
+
+    rangeHeader: '📆 توقعات {count} أيام من {start} إلى {end}. أسوأ يوم هو {worst} بذروة خطر {percent}%؛ وتعرض البطاقات العامة كل خطر في أسوأ أيامه.',
+    bestDayHeader: '🏆 أفضل يوم لـ{event} بين {start} و{end} هو {best} (الخطر المجمّع {percent}%).',
+    runnersUp: ' يليه: {days}.',
+    comparisonHeader: '📍 مقارنة {count} أماكن لـ{event} في {date}. الخيار الأفضل هو {best} (الخطر المجمّع {percent}%)، متقدمًا على {others}.',
+    worstHour: '⏰ أسوأ ساعة هي {hour} (ذروة الخطر {percent}%).',
+    mainConcern: 'مصدر القلق الرئيسي هو {risk} ({percent}%)',
+    noSingleRisk: 'لا يتجاوز أي خطر 30%',
+    lowestRisk: 'أدنى خطر من {risk} في الفترة',
+    typicalConditions: 'عادةً {temperature}، ورياح {wind}، ومطر {precipitation}',
+    forecastConditions: 'التوقعات: {temperature}، ورياح {wind}، ومطر {precipitation}',
+    title: '{activity} في {location}',
+  },
+
+  history: {
+    newChat: 'محادثة جديدة',
+    empty: 'ستظهر المحادثات السابقة هنا.',
+    saveName: 'حفظ الاسم',
+    cancelRename: 'إلغاء إعادة التسمية',
+    rename: 'إعادة تسمية المحادثة',
+    remove: 'حذف المحادثة',
+  },
+
+  sharedReport: {
+    defaultTitle: 'تقرير مخاطر الطقس',
+    description: 'مخاطر الطقس: {risks}',
+    incomplete: 'رابط التقرير هذا غير مكتمل',
+    planWithBot: 'خطط مع WeatherBot ←',
+    fetchedHistory: 'جُلبت البيانات في {time} بالتوقيت العالمي ({age}) من السجلات التاريخية.',
+    fetchedForecast: 'جُلبت البيانات في {time} بالتوقيت العالمي ({age}) من التوقعات.',
+    stale: '⚠️ قديمة: {reason}',
+    staleReasons: {
+      datePassed: 'هذا التاريخ قد مضى.',
+      forecastUpdated: 'ربما حُدّثت التوقعات منذ جلب هذه البيانات.',
+    },
+    typicalTemperature: 'درجة الحرارة المعتادة: {value}',
+    temperature: 'درجة الحرارة: {value}',
+    wind: 'الرياح: {value}',
+    precipitation: 'الهطول: {value}',
+    humidity: 'الرطوبة: {value}%',
+    tips: 'نصائح',
+    planYourOwn: 'خطط لنشاطك مع WeatherBot ←',
+  },
+
+  exports: {
+    label: 'تصدير:',
+    calendar: 'التقويم',
+    copyLink: 'نسخ الرابط',
+    copied: 'تم النسخ!',
+    weather: '{temperature}، ورياح {wind}، ومطر {precipitation}، ورطوبة {humidity}%',
+    cloudCover: '{weather}، وغطاء سحابي {cloudCover}%',
+    conditions: 'الظروف:',
+    details: 'التفاصيل',
+    bestPlace: 'أفضل مكان',
+    bestDay: 'أفضل يوم',
+    overall: 'الإجمالي',
+    calendarRisk: {
+      bestPlace: 'مخاطر الطقس (أفضل مكان): {risks}',
+      bestDay: 'مخاطر الطقس (أفضل يوم): {risks}',
+      peak: 'مخاطر الطقس (الذروة): {risks}',
+    },
+    dataSources: 'مصادر البيانات',
+    calendarSources: 'مصادر البيانات: {sources}',
+    generated: 'أُنشئ في {time} بواسطة NASA WeatherBot',
+    calendarGenerated: 'أُنشئ في {time}',
+  },
+
+  channels: {
+    risks: 'المخاطر',
+    sources: 'المصادر: {sources}',
+  },
+
+  alerts: {
+    rose: 'ارتفع خطر «{risk}» فوق {threshold}% ({before}% ← {now}%)',
+    fell: 'انخفض خطر «{risk}» تحت {threshold}% ({before}% ← {now}%)',
+    up: 'ارتفع خطر «{risk}» {points} نقطة إلى {now}%',
+    down: 'انخفض خطر «{risk}» {points} نقطة إلى {now}%',
+  },
+};
@@ -0,0 +1,332 @@
+// lib/messages/en.ts
+// The reference catalog: every other language has exactly these keys.
+// `{name}` placeholders are filled in by `fill` in lib/i18n.
+import type { PluralForms } from '../i18n';
+
+const plural = (forms: PluralForms) => forms;
+
+export const en = {
+  // As the language is named in an LLM prompt
+  name: 'English',
+
+  // Built-in activities by id. English labels and keywords live on the
+  // profiles themselves.
+  activities: {
+    vacation: { label: 'Beach Day', keywords: [] as string[] },
+    hiking: { label: 'Hiking', keywords: [] as string[] },
+    fishing: { label: 'Fishing', keywords: [] as string[] },
+    picnic: { label: 'Picnic', keywords: [] as string[] },
+    sports: { label: 'Sports', keywords: [] as string[] },
+    camping: { label: 'Camping', keywords: [] as string[] },
+  },
+
+  // Words and phrases slot extraction should read as the English in brackets,
+  // e.g. "mañana" as "tomorrow". English needs none.
+  phrases: {} as Record<string, string>,
+
+  // Risk card and table labels
+  risks: {
+    hot: 'Hot',
+    cold: 'Cold',
+    windy: 'Windy',
+    wet: 'Wet',
+    uncomfortable: 'Humid',
+    uv: 'UV',
+    airQuality: 'Air quality',
+    storm: 'Storms',
+    snow: 'Snow',
+    gusts: 'Gusts',
+  },
+
+  // How long ago data was fetched
+  age: {
+    justNow: 'just now',
+    minutes: '{count} min ago',
+    hours: '{count} h ago',
+    days: '{count} days ago',
+  },
+
+  // The chat page around the conversation
+  page: {
+    tagline: 'Powered by Earth Observation Satellite Data',
+    units: 'Units',
+    language: 'Language',
+    dateFormat: 'Date and time format',
+    activities: 'Activities',
+    watches: 'Watches',
+    you: 'You',
+    overall: 'Overall (each risk on its worst day)',
+    eventWindow: 'Event window (each risk in its worst hour)',
+    bestLocation: 'Best location ({place})',
+    bestDay: 'Best day ({date})',
+    worstHour: 'Worst hour',
+    columns: { day: 'Day', place: 'Place', temperature: '🌡️ Temp', wind: '💨 Wind', rain: '🌧️ Rain', overall: 'Overall' },
+    climatology: 'NASA POWER climatology',
+    risk: '{percent}% risk',
+    fullReport: 'Full report →',
+    accessing: 'Accessing satellite data...',
+    footer: 'Uses real NASA GFS data and satellite analysis • Free service',
+  },
+
+  chat: {
+    greeting: "Hey! 👋 I'm WeatherBot, powered by real NASA Earth observation data. I can predict if adverse weather might ruin your outdoor plans!\n\nI'll analyze chances of extreme heat, cold, wind and gusts, rain, thunderstorms, snow, strong UV, poor air quality and uncomfortable conditions using satellite data and AI analysis.\n\nWhat kind of outdoor adventure are you planning?",
+    followUp: 'Want to check another event with real NASA data? Just tell me what you\'re planning - or change part of this one, like "actually make it Boston" or "make it Sunday".',
+    reportFailed: 'I encountered an issue accessing real-time NASA data. Please try again in a moment.',
+    quote: '"{text}"',
+    listSeparator: ', ',
+
+    cachedHeading: '**Cached Data (fetched {age}; live forecast unreachable):**',
+    estimateHeading: '**Seasonal Estimates (no live forecast available, low confidence):**',
+    realtimeHeading: '**Real-time Data:**',
+    weatherHeading: '**Weather Data:**',
+    conditions: {
+      temperature: 'Temperature: {value}',
+      feelsLike: 'Feels Like: {value}',
+      feelsLikeRange: 'Feels Like: {low} to {high}',
+      windSpeed: 'Wind Speed: {value}',
+      windGusts: 'Wind Gusts: {value}',
+      precipitation: 'Precipitation: {value}',
+      snowfall: 'Snowfall: {value}',
+      thunderstorms: 'Thunderstorms: forecast',
+      humidity: 'Humidity: {value}%',
+      cloudCover: 'Cloud Cover: {value}%',
+      uvIndex: 'UV Index: {value}',
+      airQuality: 'Air Quality: US AQI {value}',
+    },
+    pack: '**Pack:**',
+    planAhead: '**Plan ahead:**',
+    historical: {
+      heading: '**Historical Likelihood ({start}–{end}, {days} days from {years} years):**',
+      hot: 'Hot (max above {value}): {percent}%',
+      cold: 'Cold (min below {value}): {percent}%',
+      windy: 'Windy (gusts above {value}): {percent}%',
+      wet: 'Wet (more than {value}): {percent}%',
+      uncomfortable: 'Uncomfortable (above {value} and {humidity}% humidity): {percent}%',
+      snow: 'Snow ({value} or more on a day that stays near freezing): {percent}%',
+    },
+
+    datePassed: '{date} has already passed.',
+    askUpcomingDate: 'Which upcoming date should I check?',
+    rangeReversed: 'The end of that range ({date}) is before its start.',
+    askDatesAgain: 'Could you give me the dates again?',
+    rangeTooLongSearch: "That's {count} days - I can search up to {max} days at a time.",
+    rangeTooLongBreakDown: "That's {count} days - I can break down up to {max} days at a time.",
+    askShorterRange: 'Could you pick a shorter range?',
+    comparisonNeedsOneDay: 'I compare places one day at a time. Which single date should I check {location} for?',
+    bestDayNeedsWindow: 'To find the best day I need a window to search, like "Nov 1 to Nov 14" or "next Friday to next Sunday". Which days are you flexible on?',
+    noDate: 'I couldn\'t work out a date from "{message}". Try something like "next Saturday", "July 4", "tomorrow", "in 3 weeks", 2026-07-04 or a range like "2026-11-06 to 2026-11-09".',
+    nextPlan: 'Tell me what you\'re planning next - e.g. "camping at Lake Tahoe next Saturday" - or change part of this plan, like "actually make it Boston" or "make it Sunday".',
+    unknownActivity: "Hmm, I'm not quite sure about that activity. Try: {activities} - or add your own with the Activities button!",
+    updating: '🔄 Updating {changes} and re-running the report.',
+    changes: { activity: 'the activity', date: 'the date', time: 'the time', place: 'the place' },
+    changesJoin: ' and ',
+
+    tooManyPlaces: 'I can compare up to {max} places at a time. Which ones should I keep?',
+    geocodingUnreachable: "I couldn't reach the geocoding service just now. Please try again, or send coordinates like 39.74,-104.99.",
+    placeNotFound: 'I couldn\'t find a place called "{query}". Check the spelling, add a region or country (e.g. "Springfield, Illinois"), or send coordinates like 39.74,-104.99.',
+    whichPlace: 'I found a few places matching "{query}". Which one did you mean? Tap one below or reply with its number.',
+    comparisonNeedsTwo: "I need at least two places to compare, but I couldn't find {missing}. Could you check the spelling or add a country?",
+    leftOut: plural({ one: "(I couldn't find {missing}, so I've left it out.)", other: "(I couldn't find {missing}, so I've left them out.)" }),
+    comparing: "Let's compare {count} places:",
+    placeChosen: 'Got it! {place} it is! ',
+
+    askActivity: 'What kind of outdoor adventure is it? Try: {activities}.',
+    askLocation: [
+      'Awesome! {activity} is amazing! Now, where\'s this happening? Drop me a city name!',
+      'Nice choice! {activity} sounds fun! What\'s the location?',
+      'Perfect! I love {activityLower}! Where are you heading?',
+    ],
+    askComparisonDate: 'Which date should I check them all for?',
+    askDate: [
+      'When\'s the big day? (e.g. "next Saturday 2pm-6pm", "July 4" or a range like "2026-11-06 to 2026-11-09" - or ask for the "best day between Nov 1 and Nov 14")',
+      'What date are we looking at? (e.g. "tomorrow", "in 3 weeks" or YYYY-MM-DD)',
+      'Now, what\'s the date? (e.g. "next Friday" or YYYY-MM-DD)',
+    ],
+
+    forecastSource: "That's within the {days}-day forecast window, so I'll use live forecast data.",
+    climatologySource: "That's beyond the {days}-day forecast window, so I'll use NASA POWER climatology for that time of year.",
+    mixedSource: 'Part of that is beyond the {days}-day forecast window, so later days will use NASA POWER climatology.',
+    searching: 'Searching {count} days from {start} to {end} for the best one',
+    dateRange: '{start} to {end} ({count} days)',
+    windowUnavailable: plural({
+      one: "Hour-by-hour detail is only available for a single day within the forecast window, so I'll look at the whole day instead.",
+      other: "Hour-by-hour detail is only available for a single day within the forecast window, so I'll look at the whole days instead.",
+    }),
+    accessing: '🛰️ Accessing NASA satellite data and atmospheric models...',
+    connecting: '📡 Connecting to NASA data sources and analyzing patterns...',
+
+    // What the quick replies and ranked-day buttons say for the user
+    planning: "I'm planning {activity}",
+    fullReport: 'Show me the full report for {date}',
+    // The message box, before anything is typed
+    inputPlaceholder: 'Ask about weather conditions for your event...',
+  },
+
+  report: {
+    // The headline risk, as in "High risk of extreme heat"
+    headlines: {
+      hot: 'extreme heat',
+      cold: 'freezing temperatures',
+      windy: 'high winds',
+      wet: 'heavy precipitation',
+      uncomfortable: 'uncomfortable conditions',
+      uv: 'strong UV exposure',
+      airQuality: 'poor air quality',
+      storm: 'thunderstorms and lightning',
+      snow: 'snowfall',
+      gusts: 'strong wind gusts',
+    },
+    // As in "Main concern is heat" and "Lowest heat risk in the window"
+    nouns: {
+      hot: 'heat',
+      cold: 'cold',
+      windy: 'wind',
+      wet: 'rain',
+      uncomfortable: 'discomfort',
+      uv: 'UV',
+      airQuality: 'air quality',
+      storm: 'thunderstorm',
+      snow: 'snow',
+      gusts: 'gust',
+    },
+
+    climatologyIntro: 'Based on {count} days of NASA POWER history ({start}–{end}, ±{window} days around this date) for {location} on {when}:',
+    estimateIntro: 'No live forecast was available, so this uses rough seasonal estimates for {location} on {when} (low confidence):',
+    forecastIntro: 'Based on the {source} data for {location} on {when}:',
+    suppliedSource: 'supplied',
+
+    excellent: '✅ Excellent conditions for {event}! All weather parameters are within optimal ranges. ',
+    excellentConditions: 'Temperature: {temperature}, Wind: {wind}, Precipitation: {precipitation}.',
+    moderate: '⚠️ Moderate risk of {risk} for {event}. ',
+    moderateAdvice: 'Consider preparing for {percent}% chance of challenging conditions. ',
+    moderateConditions: {
+      climatology: 'Typical conditions: {temperature}, {wind} winds.',
+      estimate: 'Seasonal estimate: {temperature}, {wind} winds.',
+      forecast: 'Current forecast: {temperature}, {wind} winds.',
+    },
+    high: '🚨 High risk of {risk} for {event}! ',
+    highAdvice: 'Strongly consider rescheduling due to {percent}% chance of adverse conditions. ',
+    highConditions: {
+      climatology: 'History averages {temperature} with {precipitation} precipitation.',
+      estimate: 'Seasonal estimates suggest {temperature} with {precipitation} precipitation.',
+      forecast: 'Forecast shows {temperature} with {precipitation} precipitation.',
+    },
+
+    hazards: {
+      humidHeat: '🥵 With the humidity, {temperature} will feel more like {feelsLike}.',
+      windChill: '🥶 Wind chill makes {temperature} feel more like {feelsLike}.',
+      thunderstorms: '⛈️ Thunderstorms are forecast. Lightning is the main danger outdoors: keep shelter within reach and stop when you hear thunder.',
+      thunderstormsChance: '⛈️ Thunderstorms are forecast ({percent}% chance of rain). Lightning is the main danger outdoors: keep shelter within reach and stop when you hear thunder.',
+      uvAround: '☀️ UV index around {value} ({category}): sunscreen, a hat and shade around midday.',
+      uvUpTo: '☀️ UV index up to {value} ({category}): sunscreen, a hat and shade around midday.',
+      uvCategories: { moderate: 'moderate', high: 'high', veryHigh: 'very high', extreme: 'extreme' },
+      airQuality: '😷 Air quality reaches US AQI {value} ({category}), from smoke or pollution. Ease off hard exertion, especially with asthma or heart conditions.',
+      aqiCategories: {
+        moderate: 'moderate',
+        sensitive: 'unhealthy for sensitive groups',
+        unhealthy: 'unhealthy',
+        veryUnhealthy: 'very unhealthy',
+        hazardous: 'hazardous',
+      },
+      snowHistory: '🌨️ Snow fell on {percent}% of these days in past years.',
+      snowExpected: '🌨️ About {amount} of snow expected: allow for slippery ground and slower travel.',
+      snowPossible: '🌨️ About {amount} of snow is possible: allow for slippery ground and slower travel.',
+      gusts: '🌬️ Gusts up to {speed}: tie down shades, tents and anything loose.',
+      likelyGusts: '🌬️ Likely gusts up to {speed}: tie down shades, tents and anything loose.',
+      thunderstormsName: 'thunderstorms',
+      airQualityName: 'air quality',
+      namesJoin: ' or ',
+      noHistory: plural({
+        one: 'ℹ️ There is no history of {hazards} to draw on, so that score is only a baseline.',
+        other: 'ℹ️ There is no history of {hazards} to draw on, so those scores are only a baseline.',
+      }),
+      noForecast: plural({
+        one: 'ℹ️ No forecast covers {hazards} for this date, so that score is only a baseline.',
+        other: 'ℹ️ No forecast covers {hazards} for this date, so those scores are only a baseline.',
+      }),
+    },
+
+    rangeHeader: '📆 {count}-day outlook from {start} to {end}. Worst day is {worst} with a peak risk of {percent}%; the overall cards show each risk on its worst day.',
+    bestDayHeader: '🏆 Best day for {event} between {start} and {end} is {best} (combined risk {percent}%).',
+    runnersUp: ' Runners-up: {days}.',
+    comparisonHeader: '📍 Comparing {count} places for {event} on {date}. Best bet is {best} (combined risk {percent}%), ahead of {others}.',
+    worstHour: '⏰ Worst hour is {hour} (peak risk {percent}%).',
+    mainConcern: 'Main concern is {risk} ({percent}%)',
+    noSingleRisk: 'No single risk above 30%',
+    lowestRisk: 'Lowest {risk} risk in the window',
+    typicalConditions: 'Typically {temperature}, wind {wind}, {precipitation} rain',
+    forecastConditions: 'Forecast {temperature}, wind {wind}, {precipitation} rain',
+    // On the shared page and in Discord embeds
+    title: '{activity} in {location}',
+  },
+
+  // The conversation sidebar
+  history: {
+    newChat: 'New chat',
+    empty: 'Past conversations will appear here.',
+    saveName: 'Save name',
+    cancelRename: 'Cancel rename',
+    rename: 'Rename conversation',
+    remove: 'Delete conversation',
+  },
+
+  // The shared report page (app/report)
+  sharedReport: {
+    defaultTitle: 'Weather risk report',
+    description: 'Weather risks: {risks}',
+    incomplete: 'This report link is incomplete',
+    planWithBot: 'Plan with WeatherBot →',
+    fetchedHistory: 'Data fetched {time} UTC ({age}) from historical records.',
+    fetchedForecast: 'Data fetched {time} UTC ({age}) from the forecast.',
+    stale: '⚠️ Stale: {reason}',
+    staleReasons: {
+      datePassed: 'This date has already passed.',
+      forecastUpdated: 'The forecast has probably been updated since this data was fetched.',
+    },
+    typicalTemperature: 'Typical temperature: {value}',
+    temperature: 'Temperature: {value}',
+    wind: 'Wind: {value}',
+    precipitation: 'Precipitation: {value}',
+    humidity: 'Humidity: {value}%',
+    tips: 'Tips',
+    planYourOwn: 'Plan your own with WeatherBot →',
+  },
+
+  // The export buttons, and the printed and calendar exports
+  exports: {
+    label: 'Export:',
+    calendar: 'Calendar',
+    copyLink: 'Copy link',
+    copied: 'Copied!',
+    weather: '{temperature}, wind {wind}, {precipitation} rain, {humidity}% humidity',
+    cloudCover: '{weather}, {cloudCover}% cloud cover',
+    conditions: 'Conditions:',
+    details: 'Details',
+    bestPlace: 'Best place',
+    bestDay: 'Best day',
+    overall: 'Overall',
+    calendarRisk: {
+      bestPlace: 'Weather risk (best place): {risks}',
+      bestDay: 'Weather risk (best day): {risks}',
+      peak: 'Weather risk (peak): {risks}',
+    },
+    dataSources: 'Data sources',
+    calendarSources: 'Data sources: {sources}',
+    generated: 'Generated {time} by NASA WeatherBot',
+    calendarGenerated: 'Generated {time}',
+  },
+
+  // Replies on Slack, Telegram and Discord
+  channels: {
+    risks: 'Risks',
+    sources: 'Sources: {sources}',
+  },
+
+  // Why a watch raised an alert; {risk} is the card label
+  alerts: {
+    rose: '{risk} risk rose above {threshold}% ({before}% → {now}%)',
+    fell: '{risk} risk fell below {threshold}% ({before}% → {now}%)',
+    up: '{risk} risk up {points} points to {now}%',
+    down: '{risk} risk down {points} points to {now}%',
+  },
+};
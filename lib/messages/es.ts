@@ -0,0 +1,398 @@
+// lib/messages/es.ts
+import type { Catalog, PluralForms } from '../i18n';
+
+const plural = (forms: PluralForms) => forms;
+
+export const es: Catalog = {
+  name: 'Spanish',
+
+  activities: {
+    vacation: { label: 'Día de playa', keywords: ['playa', 'vacaciones', 'viaje', 'escapada'] },
+    hiking: { label: 'Senderismo', keywords: ['senderismo', 'sendero', 'caminata', 'excursión', 'montaña', 'ruta a pie'] },
+    fishing: { label: 'Pesca', keywords: ['pesca', 'pescar'] },
+    picnic: { label: 'Pícnic', keywords: ['pícnic', 'picnic', 'merienda', 'comida al aire libre', 'parque'] },
+    sports: { label: 'Deportes', keywords: ['deporte', 'partido', 'fútbol', 'futbol', 'entrenamiento', 'carrera'] },
+    camping: { label: 'Acampada', keywords: ['acampada', 'acampar', 'campamento', 'tienda de campaña'] },
+  },
+
+  phrases: {
+    // Dates
+    'hoy': 'today',
+    'esta noche': 'tonight',
+    'mañana': 'tomorrow',
+    'pasado mañana': 'day after tomorrow',
+    'la semana que viene': 'next week',
+    'la próxima semana': 'next week',
+    'próxima semana': 'next week',
+    'próximo': 'next',
+    'próxima': 'next',
+    'que viene': 'next',
+    'este': 'this',
+    'esta': 'this',
+    'dentro de': 'in',
+    'un': 'a',
+    'una': 'a',
+    'dos': 'two',
+    'tres': 'three',
+    'cuatro': 'four',
+    'cinco': 'five',
+    'seis': 'six',
+    'día': 'day',
+    'días': 'days',
+    'semana': 'week',
+    'semanas': 'weeks',
+    'mes': 'month',
+    'meses': 'months',
+    'lunes': 'monday',
+    'martes': 'tuesday',
+    'miércoles': 'wednesday',
+    'jueves': 'thursday',
+    'viernes': 'friday',
+    'sábado': 'saturday',
+    'domingo': 'sunday',
+    'enero': 'january',
+    'febrero': 'february',
+    'marzo': 'march',
+    'abril': 'april',
+    'mayo': 'may',
+    'junio': 'june',
+    'julio': 'july',
+    'agosto': 'august',
+    'septiembre': 'september',
+    'setiembre': 'september',
+    'octubre': 'october',
+    'noviembre': 'november',
+    'diciembre': 'december',
+    'desde': 'from',
+    'desde el': 'from',
+    'entre': 'between',
+    'entre el': 'between',
+    'y el': 'and',
+    'al': 'to',
+    'hasta': 'until',
+    'hasta el': 'until',
+    'por la mañana': 'in the morning',
+    'por la tarde': 'in the afternoon',
+    'por la noche': 'in the evening',
+    'el mejor día': 'the best day',
+    'mejor día': 'best day',
+    'qué día': 'which day',
+    // Places
+    'en': 'in',
+    'cerca de': 'near',
+    'a': 'to',
+    'y': 'and',
+    'o': 'or',
+    'para': 'for',
+    'con': 'with',
+    'durante': 'during',
+    // Corrections
+    'en realidad': 'actually',
+    'mejor': 'actually',
+    'perdón': 'sorry',
+    'espera': 'wait',
+    'cambia': 'change',
+    'cambiar': 'change',
+    'la actividad': 'the activity',
+    'el lugar': 'the place',
+    'la ciudad': 'the city',
+    'la fecha': 'the date',
+    'el día': 'the day',
+    'qué tal': 'how about',
+    'en su lugar': 'instead',
+    'entonces': 'then',
+  },
+
+  risks: {
+    hot: 'Calor',
+    cold: 'Frío',
+    windy: 'Viento',
+    wet: 'Lluvia',
+    uncomfortable: 'Bochorno',
+    uv: 'UV',
+    airQuality: 'Calidad del aire',
+    storm: 'Tormentas',
+    snow: 'Nieve',
+    gusts: 'Rachas',
+  },
+
+  age: {
+    justNow: 'hace un momento',
+    minutes: 'hace {count} min',
+    hours: 'hace {count} h',
+    days: 'hace {count} días',
+  },
+
+  page: {
+    tagline: 'Con datos de satélites de observación de la Tierra',
+    units: 'Unidades',
+    language: 'Idioma',
+    dateFormat: 'Formato de fecha y hora',
+    activities: 'Actividades',
+    watches: 'Seguimientos',
+    you: 'Tú',
+    overall: 'En conjunto (cada riesgo en su peor día)',
+    eventWindow: 'Horario del evento (cada riesgo en su peor hora)',
+    bestLocation: 'Mejor lugar ({place})',
+    bestDay: 'Mejor día ({date})',
+    worstHour: 'Peor hora',
+    columns: { day: 'Día', place: 'Lugar', temperature: '🌡️ Temp.', wind: '💨 Viento', rain: '🌧️ Lluvia', overall: 'Total' },
+    climatology: 'Climatología de NASA POWER',
+    risk: '{percent} % de riesgo',
+    fullReport: 'Informe completo →',
+    accessing: 'Consultando datos de satélite...',
+    footer: 'Usa datos reales del GFS y análisis de satélites de la NASA • Servicio gratuito',
+  },
+
+  chat: {
+    greeting: '¡Hola! 👋 Soy WeatherBot y trabajo con datos reales de observación de la Tierra de la NASA. ¡Puedo predecir si el mal tiempo podría arruinar tus planes al aire libre!\n\nAnalizaré las probabilidades de calor extremo, frío, viento y rachas, lluvia, tormentas, nieve, UV intenso, mala calidad del aire y condiciones incómodas con datos de satélite y análisis con IA.\n\n¿Qué aventura al aire libre estás planeando?',
+    followUp: '¿Quieres consultar otro evento con datos reales de la NASA? Solo dime qué estás planeando, o cambia parte de este, por ejemplo "mejor en Boston" o "mejor el domingo".',
+    reportFailed: 'He tenido un problema al acceder a los datos de la NASA en tiempo real. Vuelve a intentarlo en un momento.',
+    quote: '«{text}»',
+    listSeparator: ', ',
+
+    cachedHeading: '**Datos en caché (obtenidos {age}; el pronóstico en directo no está disponible):**',
+    estimateHeading: '**Estimaciones estacionales (sin pronóstico en directo, confianza baja):**',
+    realtimeHeading: '**Datos en tiempo real:**',
+    weatherHeading: '**Datos meteorológicos:**',
+    conditions: {
+      temperature: 'Temperatura: {value}',
+      feelsLike: 'Sensación térmica: {value}',
+      feelsLikeRange: 'Sensación térmica: de {low} a {high}',
+      windSpeed: 'Velocidad del viento: {value}',
+      windGusts: 'Rachas de viento: {value}',
+      precipitation: 'Precipitación: {value}',
+      snowfall: 'Nieve: {value}',
+      thunderstorms: 'Tormentas: previstas',
+      humidity: 'Humedad: {value}%',
+      cloudCover: 'Nubosidad: {value}%',
+      uvIndex: 'Índice UV: {value}',
+      airQuality: 'Calidad del aire: US AQI {value}',
+    },
+    pack: '**Lleva:**',
+    planAhead: '**Planifica:**',
+    historical: {
+      heading: '**Probabilidad histórica ({start}–{end}, {days} días de {years} años):**',
+      hot: 'Calor (máxima por encima de {value}): {percent}%',
+      cold: 'Frío (mínima por debajo de {value}): {percent}%',
+      windy: 'Viento (rachas por encima de {value}): {percent}%',
+      wet: 'Lluvia (más de {value}): {percent}%',
+      uncomfortable: 'Bochorno (por encima de {value} y {humidity}% de humedad): {percent}%',
+      snow: 'Nieve ({value} o más en un día que se mantiene cerca de cero): {percent}%',
+    },
+
+    datePassed: 'El {date} ya ha pasado.',
+    askUpcomingDate: '¿Qué fecha próxima consulto?',
+    rangeReversed: 'El final de ese intervalo ({date}) es anterior a su inicio.',
+    askDatesAgain: '¿Me puedes repetir las fechas?',
+    rangeTooLongSearch: 'Son {count} días: puedo buscar en un máximo de {max} días a la vez.',
+    rangeTooLongBreakDown: 'Son {count} días: puedo desglosar un máximo de {max} días a la vez.',
+    askShorterRange: '¿Puedes elegir un intervalo más corto?',
+    comparisonNeedsOneDay: 'Comparo lugares de día en día. ¿Para qué fecha concreta consulto {location}?',
+    bestDayNeedsWindow: 'Para encontrar el mejor día necesito un intervalo en el que buscar, como "1 de noviembre a 14 de noviembre" o "entre el viernes y el domingo". ¿Qué días tienes libres?',
+    noDate: 'No he podido sacar una fecha de «{message}». Prueba con algo como "el próximo sábado", "4 de julio", "mañana", "dentro de 3 semanas", 2026-07-04 o un intervalo como "2026-11-06 a 2026-11-09".',
+    nextPlan: 'Cuéntame qué planeas ahora, por ejemplo "acampada en el lago Tahoe el próximo sábado", o cambia parte de este plan, como "mejor en Boston" o "mejor el domingo".',
+    unknownActivity: 'Mmm, no tengo claro de qué actividad se trata. Prueba con: {activities}, ¡o añade la tuya con el botón Actividades!',
+    updating: '🔄 Actualizo {changes} y vuelvo a generar el informe.',
+    changes: { activity: 'la actividad', date: 'la fecha', time: 'la hora', place: 'el lugar' },
+    changesJoin: ' y ',
+
+    tooManyPlaces: 'Puedo comparar hasta {max} lugares a la vez. ¿Cuáles me quedo?',
+    geocodingUnreachable: 'Ahora mismo no puedo acceder al servicio de geocodificación. Vuelve a intentarlo o envía coordenadas como 39.74,-104.99.',
+    placeNotFound: 'No he encontrado ningún lugar llamado «{query}». Revisa la ortografía, añade una región o un país (p. ej. "Springfield, Illinois") o envía coordenadas como 39.74,-104.99.',
+    whichPlace: 'He encontrado varios lugares que coinciden con «{query}». ¿Cuál querías decir? Toca uno abajo o responde con su número.',
+    comparisonNeedsTwo: 'Necesito al menos dos lugares para comparar, pero no he encontrado {missing}. ¿Puedes revisar la ortografía o añadir un país?',
+    leftOut: plural({ one: '(No he encontrado {missing}, así que lo he dejado fuera).', other: '(No he encontrado {missing}, así que los he dejado fuera).' }),
+    comparing: 'Comparemos {count} lugares:',
+    placeChosen: '¡Entendido! ¡{place}, pues! ',
+
+    askActivity: '¿Qué tipo de aventura al aire libre es? Prueba con: {activities}.',
+    askLocation: [
+      '¡Genial! ¡{activity} es increíble! Y ahora, ¿dónde será? ¡Dime una ciudad!',
+      '¡Buena elección! ¡{activity} suena divertido! ¿Cuál es el lugar?',
+      '¡Perfecto! ¡Me encanta: {activityLower}! ¿Adónde vas?',
+    ],
+    askComparisonDate: '¿Para qué fecha los consulto todos?',
+    askDate: [
+      '¿Cuándo es el gran día? (p. ej. "el próximo sábado 2pm-6pm", "4 de julio" o un intervalo como "2026-11-06 a 2026-11-09", o pide el "mejor día entre el 1 de noviembre y el 14 de noviembre")',
+      '¿Qué fecha miramos? (p. ej. "mañana", "dentro de 3 semanas" o AAAA-MM-DD)',
+      'Y ahora, ¿qué fecha es? (p. ej. "el próximo viernes" o AAAA-MM-DD)',
+    ],
+
+    forecastSource: 'Está dentro del margen de pronóstico de {days} días, así que usaré datos de pronóstico en directo.',
+    climatologySource: 'Está más allá del margen de pronóstico de {days} días, así que usaré la climatología NASA POWER para esa época del año.',
+    mixedSource: 'Una parte está más allá del margen de pronóstico de {days} días, así que los últimos días usarán la climatología NASA POWER.',
+    searching: 'Busco el mejor de {count} días entre el {start} y el {end}',
+    dateRange: 'Del {start} al {end} ({count} días)',
+    windowUnavailable: plural({
+      one: 'El detalle hora a hora solo está disponible para un único día dentro del margen de pronóstico, así que analizaré el día completo.',
+      other: 'El detalle hora a hora solo está disponible para un único día dentro del margen de pronóstico, así que analizaré los días completos.',
+    }),
+    accessing: '🛰️ Accediendo a los datos de satélite de la NASA y a los modelos atmosféricos...',
+    connecting: '📡 Conectando con las fuentes de datos de la NASA y analizando patrones...',
+
+    planning: 'Estoy planeando: {activity}',
+    fullReport: 'Muéstrame el informe completo del {date}',
+    inputPlaceholder: 'Pregúntame por el tiempo para tu evento...',
+  },
+
+  report: {
+    headlines: {
+      hot: 'calor extremo',
+      cold: 'temperaturas bajo cero',
+      windy: 'viento fuerte',
+      wet: 'precipitaciones intensas',
+      uncomfortable: 'condiciones incómodas',
+      uv: 'exposición UV intensa',
+      airQuality: 'mala calidad del aire',
+      storm: 'tormentas y rayos',
+      snow: 'nevadas',
+      gusts: 'rachas de viento fuertes',
+    },
+    nouns: {
+      hot: 'calor',
+      cold: 'frío',
+      windy: 'viento',
+      wet: 'lluvia',
+      uncomfortable: 'incomodidad',
+      uv: 'UV',
+      airQuality: 'calidad del aire',
+      storm: 'tormenta',
+      snow: 'nieve',
+      gusts: 'rachas',
+    },
+
+    climatologyIntro: 'Según {count} días del historial de NASA POWER ({start}–{end}, ±{window} días alrededor de esta fecha) para {location} el {when}:',
+    estimateIntro: 'No había pronóstico en directo, así que esto usa estimaciones estacionales aproximadas para {location} el {when} (confianza baja):',
+    forecastIntro: 'Según los datos de {source} para {location} el {when}:',
+    suppliedSource: 'la fuente indicada',
+
+    excellent: '✅ ¡Condiciones excelentes para {event}! Todos los parámetros meteorológicos están en rangos óptimos. ',
+    excellentConditions: 'Temperatura: {temperature}, viento: {wind}, precipitación: {precipitation}.',
+    moderate: '⚠️ Riesgo moderado de {risk} para {event}. ',
+    moderateAdvice: 'Conviene prepararse para un {percent}% de probabilidad de condiciones difíciles. ',
+    moderateConditions: {
+      climatology: 'Condiciones típicas: {temperature}, viento de {wind}.',
+      estimate: 'Estimación estacional: {temperature}, viento de {wind}.',
+      forecast: 'Pronóstico actual: {temperature}, viento de {wind}.',
+    },
+    high: '🚨 ¡Riesgo alto de {risk} para {event}! ',
+    highAdvice: 'Plantéate seriamente cambiar la fecha: hay un {percent}% de probabilidad de condiciones adversas. ',
+    highConditions: {
+      climatology: 'La media histórica es de {temperature} con {precipitation} de precipitación.',
+      estimate: 'Las estimaciones estacionales apuntan a {temperature} con {precipitation} de precipitación.',
+      forecast: 'El pronóstico indica {temperature} con {precipitation} de precipitación.',
+    },
+
+    hazards: {
+      humidHeat: '🥵 Con la humedad, {temperature} se sentirán más bien como {feelsLike}.',
+      windChill: '🥶 Con el viento, {temperature} se sentirán más bien como {feelsLike}.',
+      thunderstorms: '⛈️ Se prevén tormentas. Los rayos son el principal peligro al aire libre: ten un refugio a mano y para en cuanto oigas truenos.',
+      thunderstormsChance: '⛈️ Se prevén tormentas ({percent}% de probabilidad de lluvia). Los rayos son el principal peligro al aire libre: ten un refugio a mano y para en cuanto oigas truenos.',
+      uvAround: '☀️ Índice UV en torno a {value} ({category}): protector solar, sombrero y sombra hacia mediodía.',
+      uvUpTo: '☀️ Índice UV de hasta {value} ({category}): protector solar, sombrero y sombra hacia mediodía.',
+      uvCategories: { moderate: 'moderado', high: 'alto', veryHigh: 'muy alto', extreme: 'extremo' },
+      airQuality: '😷 La calidad del aire llega a US AQI {value} ({category}), por humo o contaminación. Evita los esfuerzos intensos, sobre todo con asma o problemas cardíacos.',
+      aqiCategories: {
+        moderate: 'moderada',
+        sensitive: 'dañina para grupos sensibles',
+        unhealthy: 'dañina',
+        veryUnhealthy: 'muy dañina',
+        hazardous: 'peligrosa',
+      },
+      snowHistory: '🌨️ En años anteriores nevó el {percent}% de estos días.',
+      snowExpected: '🌨️ Se esperan unos {amount} de nieve: cuenta con suelo resbaladizo y desplazamientos más lentos.',
+      snowPossible: '🌨️ Podrían caer unos {amount} de nieve: cuenta con suelo resbaladizo y desplazamientos más lentos.',
+      gusts: '🌬️ Rachas de hasta {speed}: sujeta toldos, tiendas y todo lo que pueda volar.',
+      likelyGusts: '🌬️ Probables rachas de hasta {speed}: sujeta toldos, tiendas y todo lo que pueda volar.',
+      thunderstormsName: 'las tormentas',
+      airQualityName: 'la calidad del aire',
+      namesJoin: ' ni ',
+      noHistory: plural({
+        one: 'ℹ️ No hay datos históricos sobre {hazards} en los que basarse, así que esa puntuación es solo una referencia.',
+        other: 'ℹ️ No hay datos históricos sobre {hazards} en los que basarse, así que esas puntuaciones son solo una referencia.',
+      }),
+      noForecast: plural({
+        one: 'ℹ️ Ningún pronóstico cubre {hazards} para esta fecha, así que esa puntuación es solo una referencia.',
+        other: 'ℹ️ Ningún pronóstico cubre {hazards} para esta fecha, así que esas puntuaciones son solo una referencia.',
+      }),
+    },
+
+    rangeHeader: '📆 Previsión de {count} días del {start} al {end}. El peor día es el {worst}, con un riesgo máximo del {percent}%; las tarjetas generales muestran cada riesgo en su peor día.',
+    bestDayHeader: '🏆 El mejor día para {event} entre el {start} y el {end} es el {best} (riesgo combinado del {percent}%).',
+    runnersUp: ' Le siguen: {days}.',
+    comparisonHeader: '📍 Comparo {count} lugares para {event} el {date}. La mejor opción es {best} (riesgo combinado del {percent}%), por delante de {others}.',
+    worstHour: '⏰ La peor hora es las {hour} (riesgo máximo del {percent}%).',
+    mainConcern: 'La principal preocupación es {risk} ({percent}%)',
+    noSingleRisk: 'Ningún riesgo supera el 30%',
+    lowestRisk: 'Menor riesgo de {risk} del intervalo',
+    typicalConditions: 'Normalmente {temperature}, viento de {wind}, {precipitation} de lluvia',
+    forecastConditions: 'Pronóstico: {temperature}, viento de {wind}, {precipitation} de lluvia',
+    title: '{activity} en {location}',
+  },
+
+  history: {
+    newChat: 'Nuevo chat',
+    empty: 'Aquí aparecerán las conversaciones anteriores.',
+    saveName: 'Guardar nombre',
+    cancelRename: 'Cancelar cambio de nombre',
+    rename: 'Cambiar nombre de la conversación',
+    remove: 'Eliminar conversación',
+  },
+
+  sharedReport: {
+    defaultTitle: 'Informe de riesgos meteorológicos',
+    description: 'Riesgos meteorológicos: {risks}',
+    incomplete: 'Este enlace de informe está incompleto',
+    planWithBot: 'Planifica con WeatherBot →',
+    fetchedHistory: 'Datos obtenidos el {time} UTC ({age}) de los registros históricos.',
+    fetchedForecast: 'Datos obtenidos el {time} UTC ({age}) del pronóstico.',
+    stale: '⚠️ Desactualizado: {reason}',
+    staleReasons: {
+      datePassed: 'Esta fecha ya ha pasado.',
+      forecastUpdated: 'Es probable que el pronóstico se haya actualizado desde que se obtuvieron estos datos.',
+    },
+    typicalTemperature: 'Temperatura habitual: {value}',
+    temperature: 'Temperatura: {value}',
+    wind: 'Viento: {value}',
+    precipitation: 'Precipitación: {value}',
+    humidity: 'Humedad: {value} %',
+    tips: 'Consejos',
+    planYourOwn: 'Planifica el tuyo con WeatherBot →',
+  },
+
+  exports: {
+    label: 'Exportar:',
+    calendar: 'Calendario',
+    copyLink: 'Copiar enlace',
+    copied: '¡Copiado!',
+    weather: '{temperature}, viento de {wind}, {precipitation} de lluvia, {humidity} % de humedad',
+    cloudCover: '{weather}, {cloudCover} % de nubosidad',
+    conditions: 'Condiciones:',
+    details: 'Detalles',
+    bestPlace: 'Mejor lugar',
+    bestDay: 'Mejor día',
+    overall: 'En conjunto',
+    calendarRisk: {
+      bestPlace: 'Riesgo meteorológico (mejor lugar): {risks}',
+      bestDay: 'Riesgo meteorológico (mejor día): {risks}',
+      peak: 'Riesgo meteorológico (máximo): {risks}',
+    },
+    dataSources: 'Fuentes de datos',
+    calendarSources: 'Fuentes de datos: {sources}',
+    generated: 'Generado el {time} por NASA WeatherBot',
+    calendarGenerated: 'Generado el {time}',
+  },
+
+  channels: {
+    risks: 'Riesgos',
+    sources: 'Fuentes: {sources}',
+  },
+
+  alerts: {
+    rose: 'Riesgo de «{risk}» por encima del {threshold} % ({before} % → {now} %)',
+    fell: 'Riesgo de «{risk}» por debajo del {threshold} % ({before} % → {now} %)',
+    up: 'Riesgo de «{risk}» sube {points} puntos hasta el {now} %',
+    down: 'Riesgo de «{risk}» baja {points} puntos hasta el {now} %',
+  },
+};
@@ -0,0 +1,397 @@
+// lib/messages/fr.ts
+import type { Catalog, PluralForms } from '../i18n';
+
+const plural = (forms: PluralForms) => forms;
+
+export const fr: Catalog = {
+  name: 'French',
+
+  activities: {
+    vacation: { label: 'Journée plage', keywords: ['plage', 'vacances', 'voyage', 'séjour'] },
+    hiking: { label: 'Randonnée', keywords: ['randonnée', 'rando', 'sentier', 'trek', 'montagne', 'marche'] },
+    fishing: { label: 'Pêche', keywords: ['pêche', 'pêcher'] },
+    picnic: { label: 'Pique-nique', keywords: ['pique-nique', 'pique nique', 'repas en plein air', 'parc'] },
+    sports: { label: 'Sport', keywords: ['sport', 'match', 'foot', 'entraînement', 'course'] },
+    camping: { label: 'Camping', keywords: ['camping', 'camper', 'tente', 'bivouac'] },
+  },
+
+  phrases: {
+    // Dates
+    "aujourd'hui": 'today',
+    'ce soir': 'tonight',
+    'demain': 'tomorrow',
+    'après-demain': 'day after tomorrow',
+    'après demain': 'day after tomorrow',
+    'la semaine prochaine': 'next week',
+    'semaine prochaine': 'next week',
+    'prochain': 'next',
+    'prochaine': 'next',
+    'ce': 'this',
+    'cette': 'this',
+    'dans': 'in',
+    'un': 'a',
+    'une': 'a',
+    'deux': 'two',
+    'trois': 'three',
+    'quatre': 'four',
+    'cinq': 'five',
+    'jour': 'day',
+    'jours': 'days',
+    'semaine': 'week',
+    'semaines': 'weeks',
+    'mois': 'month',
+    'lundi': 'monday',
+    'mardi': 'tuesday',
+    'mercredi': 'wednesday',
+    'jeudi': 'thursday',
+    'vendredi': 'friday',
+    'samedi': 'saturday',
+    'dimanche': 'sunday',
+    'janvier': 'january',
+    'février': 'february',
+    'mars': 'march',
+    'avril': 'april',
+    'mai': 'may',
+    'juin': 'june',
+    'juillet': 'july',
+    'août': 'august',
+    'septembre': 'september',
+    'octobre': 'october',
+    'novembre': 'november',
+    'décembre': 'december',
+    'à partir du': 'from',
+    'entre': 'between',
+    'entre le': 'between',
+    'et le': 'and',
+    'au': 'to',
+    "jusqu'au": 'until',
+    'le matin': 'in the morning',
+    'matin': 'morning',
+    "l'après-midi": 'in the afternoon',
+    'après-midi': 'afternoon',
+    'le soir': 'in the evening',
+    'soir': 'evening',
+    'le meilleur jour': 'the best day',
+    'meilleur jour': 'best day',
+    'quel jour': 'which day',
+    // Places
+    'à': 'at',
+    'en': 'in',
+    'près de': 'near',
+    'autour de': 'around',
+    'vers': 'to',
+    'et': 'and',
+    'ou': 'or',
+    'pour': 'for',
+    'avec': 'with',
+    'pendant': 'during',
+    // Corrections
+    'non': 'no',
+    'pardon': 'sorry',
+    'attends': 'wait',
+    'en fait': 'actually',
+    'finalement': 'actually',
+    'plutôt': 'instead',
+    'changer': 'change',
+    "l'activité": 'the activity',
+    'le lieu': 'the place',
+    'la ville': 'the city',
+    'la date': 'the date',
+    'le jour': 'the day',
+    'et si on essayait': 'how about',
+    'et pour': 'how about',
+  },
+
+  risks: {
+    hot: 'Chaleur',
+    cold: 'Froid',
+    windy: 'Vent',
+    wet: 'Pluie',
+    uncomfortable: 'Lourdeur',
+    uv: 'UV',
+    airQuality: "Qualité de l'air",
+    storm: 'Orages',
+    snow: 'Neige',
+    gusts: 'Rafales',
+  },
+
+  age: {
+    justNow: "à l'instant",
+    minutes: 'il y a {count} min',
+    hours: 'il y a {count} h',
+    days: 'il y a {count} jours',
+  },
+
+  page: {
+    tagline: "Alimenté par les satellites d'observation de la Terre",
+    units: 'Unités',
+    language: 'Langue',
+    dateFormat: "Format de date et d'heure",
+    activities: 'Activités',
+    watches: 'Suivis',
+    you: 'Vous',
+    overall: 'Ensemble (chaque risque à son pire jour)',
+    eventWindow: "Créneau de l'événement (chaque risque à sa pire heure)",
+    bestLocation: 'Meilleur lieu ({place})',
+    bestDay: 'Meilleur jour ({date})',
+    worstHour: 'Pire heure',
+    columns: { day: 'Jour', place: 'Lieu', temperature: '🌡️ Temp.', wind: '💨 Vent', rain: '🌧️ Pluie', overall: 'Global' },
+    climatology: 'Climatologie NASA POWER',
+    risk: '{percent} % de risque',
+    fullReport: 'Rapport complet →',
+    accessing: 'Consultation des données satellite...',
+    footer: 'Utilise les vraies données GFS et les analyses satellite de la NASA • Service gratuit',
+  },
+
+  chat: {
+    greeting: "Salut ! 👋 Je suis WeatherBot, alimenté par de vraies données d'observation de la Terre de la NASA. Je peux prévoir si la météo risque de gâcher vos projets en plein air !\n\nJ'analyse les risques de chaleur extrême, de froid, de vent et de rafales, de pluie, d'orages, de neige, d'UV forts, de mauvaise qualité de l'air et de conditions inconfortables à partir de données satellite et d'une analyse par IA.\n\nQuelle aventure en plein air préparez-vous ?",
+    followUp: "Envie de vérifier un autre événement avec de vraies données de la NASA ? Dites-moi simplement ce que vous prévoyez, ou modifiez une partie de celui-ci, par exemple « en fait à Boston » ou « plutôt dimanche ».",
+    reportFailed: "J'ai rencontré un problème pour accéder aux données de la NASA en temps réel. Réessayez dans un instant.",
+    quote: '« {text} »',
+    listSeparator: ', ',
+
+    cachedHeading: '**Données en cache (récupérées {age} ; prévisions en direct indisponibles) :**',
+    estimateHeading: '**Estimations saisonnières (pas de prévisions en direct, confiance faible) :**',
+    realtimeHeading: '**Données en temps réel :**',
+    weatherHeading: '**Données météo :**',
+    conditions: {
+      temperature: 'Température : {value}',
+      feelsLike: 'Ressenti : {value}',
+      feelsLikeRange: 'Ressenti : de {low} à {high}',
+      windSpeed: 'Vitesse du vent : {value}',
+      windGusts: 'Rafales : {value}',
+      precipitation: 'Précipitations : {value}',
+      snowfall: 'Neige : {value}',
+      thunderstorms: 'Orages : prévus',
+      humidity: 'Humidité : {value} %',
+      cloudCover: 'Couverture nuageuse : {value} %',
+      uvIndex: 'Indice UV : {value}',
+      airQuality: "Qualité de l'air : US AQI {value}",
+    },
+    pack: '**À emporter :**',
+    planAhead: '**À prévoir :**',
+    historical: {
+      heading: '**Probabilité historique ({start}–{end}, {days} jours sur {years} ans) :**',
+      hot: 'Chaleur (max. au-dessus de {value}) : {percent} %',
+      cold: 'Froid (min. en dessous de {value}) : {percent} %',
+      windy: 'Vent (rafales au-dessus de {value}) : {percent} %',
+      wet: 'Pluie (plus de {value}) : {percent} %',
+      uncomfortable: 'Lourdeur (au-dessus de {value} et {humidity} % d\'humidité) : {percent} %',
+      snow: 'Neige ({value} ou plus un jour qui reste proche de zéro) : {percent} %',
+    },
+
+    datePassed: 'Le {date} est déjà passé.',
+    askUpcomingDate: 'Quelle date à venir dois-je vérifier ?',
+    rangeReversed: 'La fin de cette période ({date}) est antérieure à son début.',
+    askDatesAgain: 'Pouvez-vous me redonner les dates ?',
+    rangeTooLongSearch: "Cela fait {count} jours : je peux chercher sur {max} jours au maximum à la fois.",
+    rangeTooLongBreakDown: "Cela fait {count} jours : je peux détailler {max} jours au maximum à la fois.",
+    askShorterRange: 'Pouvez-vous choisir une période plus courte ?',
+    comparisonNeedsOneDay: 'Je compare les lieux un jour à la fois. Pour quelle date précise dois-je vérifier {location} ?',
+    bestDayNeedsWindow: 'Pour trouver le meilleur jour, il me faut une période où chercher, comme « 1er novembre au 14 novembre » ou « vendredi prochain au dimanche prochain ». Quels jours vous conviennent ?',
+    noDate: "Je n'ai pas trouvé de date dans « {message} ». Essayez par exemple « samedi prochain », « 4 juillet », « demain », « dans 3 semaines », 2026-07-04 ou une période comme « 2026-11-06 au 2026-11-09 ».",
+    nextPlan: 'Dites-moi ce que vous prévoyez ensuite, par exemple « camping au lac Tahoe samedi prochain », ou modifiez une partie de ce projet, comme « en fait à Boston » ou « plutôt dimanche ».',
+    unknownActivity: "Hum, je ne suis pas sûr de reconnaître cette activité. Essayez : {activities}, ou ajoutez la vôtre avec le bouton Activités !",
+    updating: '🔄 Je mets à jour {changes} et je relance le rapport.',
+    changes: { activity: "l'activité", date: 'la date', time: "l'heure", place: 'le lieu' },
+    changesJoin: ' et ',
+
+    tooManyPlaces: 'Je peux comparer jusqu\'à {max} lieux à la fois. Lesquels dois-je garder ?',
+    geocodingUnreachable: "Je n'arrive pas à joindre le service de géocodage pour le moment. Réessayez, ou envoyez des coordonnées comme 39.74,-104.99.",
+    placeNotFound: "Je n'ai trouvé aucun lieu appelé « {query} ». Vérifiez l'orthographe, ajoutez une région ou un pays (par ex. « Springfield, Illinois »), ou envoyez des coordonnées comme 39.74,-104.99.",
+    whichPlace: "J'ai trouvé plusieurs lieux correspondant à « {query} ». Lequel vouliez-vous dire ? Touchez-en un ci-dessous ou répondez avec son numéro.",
+    comparisonNeedsTwo: "Il me faut au moins deux lieux à comparer, mais je n'ai pas trouvé {missing}. Pouvez-vous vérifier l'orthographe ou ajouter un pays ?",
+    leftOut: plural({ one: "(Je n'ai pas trouvé {missing}, je l'ai donc laissé de côté.)", other: "(Je n'ai pas trouvé {missing}, je les ai donc laissés de côté.)" }),
+    comparing: 'Comparons {count} lieux :',
+    placeChosen: "C'est noté ! Ce sera {place} ! ",
+
+    askActivity: "Quel genre d'aventure en plein air est-ce ? Essayez : {activities}.",
+    askLocation: [
+      'Génial ! {activity}, c\'est super ! Maintenant, où ça se passe ? Donnez-moi une ville !',
+      'Bon choix ! {activity}, ça a l\'air sympa ! Quel est le lieu ?',
+      'Parfait ! J\'adore ça : {activityLower} ! Où allez-vous ?',
+    ],
+    askComparisonDate: 'Pour quelle date dois-je tous les vérifier ?',
+    askDate: [
+      "C'est pour quand, le grand jour ? (par ex. « samedi prochain 2pm-6pm », « 4 juillet » ou une période comme « 2026-11-06 au 2026-11-09 », ou demandez le « meilleur jour entre le 1er novembre et le 14 novembre »)",
+      'Quelle date regardons-nous ? (par ex. « demain », « dans 3 semaines » ou AAAA-MM-JJ)',
+      'Et quelle est la date ? (par ex. « vendredi prochain » ou AAAA-MM-JJ)',
+    ],
+
+    forecastSource: "C'est dans la fenêtre de prévision de {days} jours, j'utiliserai donc les prévisions en direct.",
+    climatologySource: "C'est au-delà de la fenêtre de prévision de {days} jours, j'utiliserai donc la climatologie NASA POWER pour cette période de l'année.",
+    mixedSource: 'Une partie dépasse la fenêtre de prévision de {days} jours, les derniers jours utiliseront donc la climatologie NASA POWER.',
+    searching: 'Recherche du meilleur jour parmi {count} jours, du {start} au {end}',
+    dateRange: 'Du {start} au {end} ({count} jours)',
+    windowUnavailable: plural({
+      one: "Le détail heure par heure n'est disponible que pour un seul jour dans la fenêtre de prévision, je vais donc examiner la journée entière.",
+      other: "Le détail heure par heure n'est disponible que pour un seul jour dans la fenêtre de prévision, je vais donc examiner les journées entières.",
+    }),
+    accessing: '🛰️ Accès aux données satellite de la NASA et aux modèles atmosphériques...',
+    connecting: '📡 Connexion aux sources de données de la NASA et analyse des tendances...',
+
+    planning: 'Je prévois : {activity}',
+    fullReport: 'Montre-moi le rapport complet du {date}',
+    inputPlaceholder: 'Posez-moi une question sur la météo de votre événement...',
+  },
+
+  report: {
+    headlines: {
+      hot: 'chaleur extrême',
+      cold: 'températures négatives',
+      windy: 'vents forts',
+      wet: 'fortes précipitations',
+      uncomfortable: 'conditions inconfortables',
+      uv: 'forte exposition aux UV',
+      airQuality: "mauvaise qualité de l'air",
+      storm: 'orages et foudre',
+      snow: 'chutes de neige',
+      gusts: 'fortes rafales',
+    },
+    nouns: {
+      hot: 'chaleur',
+      cold: 'froid',
+      windy: 'vent',
+      wet: 'pluie',
+      uncomfortable: 'inconfort',
+      uv: 'UV',
+      airQuality: "qualité de l'air",
+      storm: 'orage',
+      snow: 'neige',
+      gusts: 'rafales',
+    },
+
+    climatologyIntro: "D'après {count} jours d'historique NASA POWER ({start}–{end}, ±{window} jours autour de cette date) pour {location} le {when} :",
+    estimateIntro: "Aucune prévision en direct n'était disponible, ceci repose donc sur des estimations saisonnières approximatives pour {location} le {when} (confiance faible) :",
+    forecastIntro: "D'après les données {source} pour {location} le {when} :",
+    suppliedSource: 'fournies',
+
+    excellent: '✅ Excellentes conditions pour {event} ! Tous les paramètres météo sont dans les plages idéales. ',
+    excellentConditions: 'Température : {temperature}, vent : {wind}, précipitations : {precipitation}.',
+    moderate: '⚠️ Risque modéré de {risk} pour {event}. ',
+    moderateAdvice: 'Prévoyez {percent} % de risque de conditions difficiles. ',
+    moderateConditions: {
+      climatology: 'Conditions habituelles : {temperature}, vent de {wind}.',
+      estimate: 'Estimation saisonnière : {temperature}, vent de {wind}.',
+      forecast: 'Prévision actuelle : {temperature}, vent de {wind}.',
+    },
+    high: '🚨 Risque élevé de {risk} pour {event} ! ',
+    highAdvice: 'Envisagez sérieusement de reporter : {percent} % de risque de conditions défavorables. ',
+    highConditions: {
+      climatology: "En moyenne, l'historique donne {temperature} avec {precipitation} de précipitations.",
+      estimate: 'Les estimations saisonnières indiquent {temperature} avec {precipitation} de précipitations.',
+      forecast: 'La prévision annonce {temperature} avec {precipitation} de précipitations.',
+    },
+
+    hazards: {
+      humidHeat: "🥵 Avec l'humidité, {temperature} donneront plutôt l'impression de {feelsLike}.",
+      windChill: "🥶 Avec le vent, {temperature} donneront plutôt l'impression de {feelsLike}.",
+      thunderstorms: "⛈️ Des orages sont prévus. La foudre est le principal danger en extérieur : gardez un abri à portée et arrêtez-vous dès que vous entendez le tonnerre.",
+      thunderstormsChance: "⛈️ Des orages sont prévus ({percent} % de risque de pluie). La foudre est le principal danger en extérieur : gardez un abri à portée et arrêtez-vous dès que vous entendez le tonnerre.",
+      uvAround: '☀️ Indice UV autour de {value} ({category}) : crème solaire, chapeau et ombre vers midi.',
+      uvUpTo: "☀️ Indice UV jusqu'à {value} ({category}) : crème solaire, chapeau et ombre vers midi.",
+      uvCategories: { moderate: 'modéré', high: 'élevé', veryHigh: 'très élevé', extreme: 'extrême' },
+      airQuality: "😷 La qualité de l'air atteint US AQI {value} ({category}), à cause de fumées ou de pollution. Évitez les efforts intenses, surtout en cas d'asthme ou de problèmes cardiaques.",
+      aqiCategories: {
+        moderate: 'modérée',
+        sensitive: 'mauvaise pour les personnes sensibles',
+        unhealthy: 'mauvaise',
+        veryUnhealthy: 'très mauvaise',
+        hazardous: 'dangereuse',
+      },
+      snowHistory: '🌨️ Il a neigé {percent} % de ces jours les années passées.',
+      snowExpected: '🌨️ Environ {amount} de neige attendus : prévoyez un sol glissant et des trajets plus lents.',
+      snowPossible: '🌨️ Environ {amount} de neige possibles : prévoyez un sol glissant et des trajets plus lents.',
+      gusts: "🌬️ Rafales jusqu'à {speed} : attachez parasols, tentes et tout ce qui peut s'envoler.",
+      likelyGusts: "🌬️ Rafales probables jusqu'à {speed} : attachez parasols, tentes et tout ce qui peut s'envoler.",
+      thunderstormsName: 'les orages',
+      airQualityName: "la qualité de l'air",
+      namesJoin: ' ni ',
+      noHistory: plural({
+        one: "ℹ️ Aucun historique ne couvre {hazards}, ce score n'est donc qu'une base de référence.",
+        other: "ℹ️ Aucun historique ne couvre {hazards}, ces scores ne sont donc qu'une base de référence.",
+      }),
+      noForecast: plural({
+        one: "ℹ️ Aucune prévision ne couvre {hazards} pour cette date, ce score n'est donc qu'une base de référence.",
+        other: "ℹ️ Aucune prévision ne couvre {hazards} pour cette date, ces scores ne sont donc qu'une base de référence.",
+      }),
+    },
+
+    rangeHeader: '📆 Prévisions sur {count} jours du {start} au {end}. Le pire jour est le {worst}, avec un risque maximal de {percent} % ; les cartes globales montrent chaque risque sur son pire jour.',
+    bestDayHeader: '🏆 Le meilleur jour pour {event} entre le {start} et le {end} est le {best} (risque combiné de {percent} %).',
+    runnersUp: ' Ensuite : {days}.',
+    comparisonHeader: '📍 Comparaison de {count} lieux pour {event} le {date}. Le meilleur choix est {best} (risque combiné de {percent} %), devant {others}.',
+    worstHour: "⏰ La pire heure est {hour} (risque maximal de {percent} %).",
+    mainConcern: 'Principale inquiétude : {risk} ({percent} %)',
+    noSingleRisk: 'Aucun risque au-dessus de 30 %',
+    lowestRisk: 'Risque de {risk} le plus bas de la période',
+    typicalConditions: "D'habitude {temperature}, vent de {wind}, {precipitation} de pluie",
+    forecastConditions: 'Prévision : {temperature}, vent de {wind}, {precipitation} de pluie',
+    title: '{activity} à {location}',
+  },
+
+  history: {
+    newChat: 'Nouvelle discussion',
+    empty: 'Vos conversations passées apparaîtront ici.',
+    saveName: 'Enregistrer le nom',
+    cancelRename: 'Annuler le renommage',
+    rename: 'Renommer la conversation',
+    remove: 'Supprimer la conversation',
+  },
+
+  sharedReport: {
+    defaultTitle: 'Rapport des risques météo',
+    description: 'Risques météo : {risks}',
+    incomplete: 'Ce lien de rapport est incomplet',
+    planWithBot: 'Planifiez avec WeatherBot →',
+    fetchedHistory: 'Données récupérées le {time} UTC ({age}) depuis les relevés historiques.',
+    fetchedForecast: 'Données récupérées le {time} UTC ({age}) depuis la prévision.',
+    stale: '⚠️ Obsolète : {reason}',
+    staleReasons: {
+      datePassed: 'Cette date est déjà passée.',
+      forecastUpdated: 'La prévision a probablement été mise à jour depuis la récupération de ces données.',
+    },
+    typicalTemperature: 'Température habituelle : {value}',
+    temperature: 'Température : {value}',
+    wind: 'Vent : {value}',
+    precipitation: 'Précipitations : {value}',
+    humidity: 'Humidité : {value} %',
+    tips: 'Conseils',
+    planYourOwn: 'Planifiez le vôtre avec WeatherBot →',
+  },
+
+  exports: {
+    label: 'Exporter :',
+    calendar: 'Agenda',
+    copyLink: 'Copier le lien',
+    copied: 'Copié !',
+    weather: '{temperature}, vent de {wind}, {precipitation} de pluie, {humidity} % d\'humidité',
+    cloudCover: '{weather}, {cloudCover} % de couverture nuageuse',
+    conditions: 'Conditions :',
+    details: 'Détails',
+    bestPlace: 'Meilleur lieu',
+    bestDay: 'Meilleur jour',
+    overall: 'Ensemble',
+    calendarRisk: {
+      bestPlace: 'Risque météo (meilleur lieu) : {risks}',
+      bestDay: 'Risque météo (meilleur jour) : {risks}',
+      peak: 'Risque météo (pic) : {risks}',
+    },
+    dataSources: 'Sources des données',
+    calendarSources: 'Sources des données : {sources}',
+    generated: 'Généré le {time} par NASA WeatherBot',
+    calendarGenerated: 'Généré le {time}',
+  },
+
+  channels: {
+    risks: 'Risques',
+    sources: 'Sources : {sources}',
+  },
+
+  alerts: {
+    rose: 'Risque « {risk} » au-dessus de {threshold} % ({before} % → {now} %)',
+    fell: 'Risque « {risk} » en dessous de {threshold} % ({before} % → {now} %)',
+    up: 'Risque « {risk} » en hausse de {points} points, à {now} %',
+    down: 'Risque « {risk} » en baisse de {points} points, à {now} %',
+  },
+};
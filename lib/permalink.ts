@@ -0,0 +1,31 @@
+// lib/permalink.ts
+// Shareable links to the server-rendered /report page. Built-in activities are
+// named by id; custom or locally edited profiles travel in the link so the
+// recipient sees the same tolerances.
+import { findActivity } from './activities';
+import { DEFAULT_PREFERENCES } from './units';
+import { DEFAULT_LANGUAGE, languageOf } from './i18n';
+import type { ActivityProfile, DisplayPreferences, ReportContext } from './types';
+
+export const REPORT_PATH = '/report';
+
+// Only whole-day, single-place reports can be re-rendered from a link
+export const reportPermalink = (report: ReportContext, activity: ActivityProfile, preferences: DisplayPreferences = DEFAULT_PREFERENCES) => {
+  if (report.lat === undefined || report.lon === undefined) return null;
+  if (report.endDate !== report.date || report.timeWindow) return null;
+
+  const params = new URLSearchParams({
+    activity: activity.id,
+    lat: report.lat.toFixed(4),
+    lon: report.lon.toFixed(4),
+    date: report.date,
+    name: report.location,
+  });
+  if (JSON.stringify(findActivity(activity.id)) !== JSON.stringify(activity)) {
+    params.set('profile', JSON.stringify(activity));
+  }
+  if (preferences.units !== DEFAULT_PREFERENCES.units) params.set('units', preferences.units);
+  if (preferences.locale !== DEFAULT_PREFERENCES.locale) params.set('locale', preferences.locale);
+  if (languageOf(preferences) !== DEFAULT_LANGUAGE) params.set('lang', languageOf(preferences));
+  return `${REPORT_PATH}?${params}`;
+};
@@ -0,0 +1,21 @@
+// lib/preferencesStore.ts
+// Browser persistence for the unit system and date/time locale.
+import { DEFAULT_PREFERENCES, isDisplayPreferences } from './units';
+import type { DisplayPreferences } from './types';
+
+const STORAGE_KEY = 'weatherbot.preferences';
+
+export const loadPreferences = (): DisplayPreferences => {
+  if (typeof window === 'undefined') return DEFAULT_PREFERENCES;
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isDisplayPreferences(parsed) ? parsed : DEFAULT_PREFERENCES;
+  } catch (error) {
+    console.error('Error loading saved preferences:', error);
+    return DEFAULT_PREFERENCES;
+  }
+};
+
+export const savePreferences = (preferences: DisplayPreferences) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+};
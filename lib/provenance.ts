@@ -0,0 +1,109 @@
+// lib/provenance.ts
+// Which source produced each weather value, what kind of data it is and how
+// far it can be trusted. Data-source lists shown to users are built from this,
+// so they only name what a report actually used.
+import type { ClimatologyData, Confidence, DataKind, FieldProvenance, NASAWeatherData, Provenance, WeatherField } from './types';
+
+export const WEATHER_FIELDS: WeatherField[] = ['temperature', 'precipitation', 'humidity', 'windSpeed', 'cloudCover'];
+
+export const FIELD_LABELS: Record<WeatherField, string> = {
+  temperature: 'temperature',
+  precipitation: 'precipitation',
+  humidity: 'humidity',
+  windSpeed: 'wind',
+  cloudCover: 'cloud cover',
+};
+
+export const FORECAST_SOURCE = 'Open-Meteo Forecast API';
+export const HOURLY_FORECAST_SOURCE = 'Open-Meteo Hourly Forecast';
+export const ESTIMATE_SOURCE = 'Seasonal normals estimated from latitude and date';
+export const AIR_QUALITY_SOURCE = 'Open-Meteo Air Quality API (CAMS)';
+
+const CONFIDENCE_ORDER: Confidence[] = ['low', 'medium', 'high'];
+
+// Last lead day (days after the forecast was made) that still earns each
+// level. Rain and cloud are much harder to forecast than temperature.
+const FORECAST_SKILL: Record<WeatherField, { high: number; medium: number }> = {
+  temperature: { high: 3, medium: 7 },
+  humidity: { high: 3, medium: 7 },
+  windSpeed: { high: 2, medium: 6 },
+  precipitation: { high: 1, medium: 4 },
+  cloudCover: { high: 1, medium: 4 },
+};
+
+// At least this many historical days make climatology a medium-confidence guide
+const MIN_CLIMATOLOGY_SAMPLE = 150;
+
+const uniform = (make: (field: WeatherField) => FieldProvenance) =>
+  Object.fromEntries(WEATHER_FIELDS.map((field) => [field, make(field)])) as Provenance;
+
+const isoParts = (iso: string): [number, number, number] => {
+  const [year, month, day] = iso.split('-').map(Number);
+  return [year, month - 1, day];
+};
+
+const leadDays = (date: string, issuedAt: string) =>
+  Math.round((Date.UTC(...isoParts(date)) - Date.UTC(...isoParts(issuedAt.slice(0, 10)))) / 86400000);
+
+// Confidence falls with the time between the model run and the day forecast,
+// so a cached forecast is judged from when it was fetched, not from now.
+export const forecastProvenance = (date: string, issuedAt: string, source = FORECAST_SOURCE): Provenance =>
+  uniform((field) => {
+    const lead = leadDays(date, issuedAt);
+    const skill = FORECAST_SKILL[field];
+    return { source, kind: 'forecast', confidence: lead <= skill.high ? 'high' : lead <= skill.medium ? 'medium' : 'low' };
+  });
+
+// History says how likely conditions are, never what this particular day holds
+export const climatologyProvenance = (climatology: ClimatologyData): Provenance =>
+  uniform(() => ({
+    source: climatology.source,
+    kind: 'climatology',
+    confidence: climatology.sampleSize >= MIN_CLIMATOLOGY_SAMPLE ? 'medium' : 'low',
+  }));
+
+export const estimateProvenance = (): Provenance =>
+  uniform(() => ({ source: ESTIMATE_SOURCE, kind: 'estimate', confidence: 'low' }));
+
+// Historical means replace the day's values whenever climatology was used
+export const effectiveProvenance = (weather: NASAWeatherData, climatology?: ClimatologyData) =>
+  climatology ? climatologyProvenance(climatology) : weather.provenance;
+
+// A report is only as trustworthy as its weakest field
+export const overallConfidence = (provenance: Provenance): Confidence =>
+  WEATHER_FIELDS.map((field) => provenance[field].confidence)
+    .reduce((lowest, next) => (CONFIDENCE_ORDER.indexOf(next) < CONFIDENCE_ORDER.indexOf(lowest) ? next : lowest));
+
+export const dataKindOf = (provenance: Provenance | undefined): DataKind | null => provenance?.temperature.kind ?? null;
+
+/**
+ * One line per source and kind, e.g. "Open-Meteo Forecast API: forecast,
+ * medium–high confidence (temperature, wind)". Fields are listed only when the
+ * source didn't supply all of them. Entries without provenance are reported
+ * as unverified rather than attributed to anyone.
+ */
+export const describeProvenance = (provenances: (Provenance | undefined)[]): string[] => {
+  const groups = new Map<string, { source: string; kind: DataKind; fields: Set<WeatherField>; confidence: Set<Confidence> }>();
+  for (const provenance of provenances) {
+    if (!provenance) continue;
+    for (const field of WEATHER_FIELDS) {
+      const { source, kind, confidence } = provenance[field];
+      const key = `${source}|${kind}`;
+      const group = groups.get(key) ?? { source, kind, fields: new Set<WeatherField>(), confidence: new Set<Confidence>() };
+      group.fields.add(field);
+      group.confidence.add(confidence);
+      groups.set(key, group);
+    }
+  }
+
+  const lines = Array.from(groups.values()).map(({ source, kind, fields, confidence }) => {
+    const levels = CONFIDENCE_ORDER.filter((level) => confidence.has(level));
+    const range = levels.length > 1 ? `${levels[0]}–${levels[levels.length - 1]}` : levels[0];
+    const covered = fields.size < WEATHER_FIELDS.length ? ` (${WEATHER_FIELDS.filter((field) => fields.has(field)).map((field) => FIELD_LABELS[field]).join(', ')})` : '';
+    return `${source}: ${kind}, ${range} confidence${covered}`;
+  });
+  if (provenances.some((provenance) => !provenance)) {
+    lines.push('Weather values supplied with the request (source not stated)');
+  }
+  return lines;
+};
@@ -0,0 +1,110 @@
+// lib/providers.ts
+// Conversation providers that run in the server process. Data comes from the
+// same services the /api routes use, and analyses are computed directly rather
+// than over HTTP. Chat platforms use these; scripted dialogues swap the data
+// sources for fixed stub weather.
+import { analyzeDateRange, analyzeDay, analyzeTimeWindow, compareLocations, recommendBestDays, type AnalysisMode } from './analysis';
+import { parseLatLon, searchLocations } from './geocode';
+import { getHourlyWeather, getNASAWeatherData, getNASAWeatherRange } from './weather';
+import { getLLMProvider, type LLMProvider } from './llm';
+import { listDatesBetween } from './dates';
+import { forecastProvenance } from './provenance';
+import type { ConversationProviders } from './conversation';
+import type { Coordinates, HourlyWeather, NASAWeatherData } from './types';
+
+export type WeatherSources = Pick<ConversationProviders, 'geocode' | 'weather' | 'weatherRange' | 'hourlyWeather'>;
+
+export const liveSources: WeatherSources = {
+  geocode: (query) => searchLocations(query),
+  weather: getNASAWeatherData,
+  weatherRange: getNASAWeatherRange,
+  hourlyWeather: getHourlyWeather,
+};
+
+export const createLocalProviders = (
+  sources: WeatherSources = liveSources,
+  mode: AnalysisMode = 'auto',
+  provider: LLMProvider | null = getLLMProvider(),
+): ConversationProviders => ({
+  ...sources,
+  analyzeDay: (weatherData, activity, date, preferences) => analyzeDay(weatherData, activity, date, mode, preferences, provider),
+  analyzeRange: (days, activity, preferences) => analyzeDateRange(days, activity, mode, preferences, provider),
+  rankDays: (days, activity, preferences) => recommendBestDays(days, activity, mode, preferences, provider),
+  compare: (locations, activity, date, preferences) => compareLocations(locations, activity, date, mode, preferences, provider),
+  analyzeHours: (hours, place, locationName, activity, date, window, preferences) =>
+    analyzeTimeWindow(hours, { lat: place.lat, lon: place.lon, locationName }, activity, date, window, preferences, provider),
+});
+
+export type StubConditions = Pick<NASAWeatherData, 'temperature' | 'precipitation' | 'humidity' | 'windSpeed' | 'cloudCover'>;
+
+export interface StubOptions {
+  // Geocoding answers by lower-cased query; anything else matches nothing,
+  // except "lat,lon" coordinates. Defaults to STUB_PLACES.
+  places?: Record<string, Coordinates[]>;
+  // The same conditions everywhere, or per date
+  conditions?: StubConditions | ((date: string) => StubConditions);
+}
+
+export const STUB_SOURCE = 'Stub weather';
+
+// A few well-known places, plus an ambiguous name to pick from
+export const STUB_PLACES: Record<string, Coordinates[]> = {
+  boston: [{ lat: 42.36, lon: -71.06, name: 'Boston', region: 'Massachusetts', country: 'United States', population: 675647 }],
+  denver: [{ lat: 39.74, lon: -104.98, name: 'Denver', region: 'Colorado', country: 'United States', population: 715522 }],
+  lisbon: [{ lat: 38.72, lon: -9.14, name: 'Lisbon', country: 'Portugal', population: 545245 }],
+  london: [{ lat: 51.51, lon: -0.13, name: 'London', region: 'England', country: 'United Kingdom', population: 8961989 }],
+  paris: [{ lat: 48.85, lon: 2.35, name: 'Paris', region: 'Île-de-France', country: 'France', population: 2138551 }],
+  porto: [{ lat: 41.15, lon: -8.61, name: 'Porto', country: 'Portugal', population: 231800 }],
+  springfield: [
+    { lat: 37.22, lon: -93.3, name: 'Springfield', region: 'Missouri', country: 'United States', population: 169176 },
+    { lat: 39.8, lon: -89.64, name: 'Springfield', region: 'Illinois', country: 'United States', population: 114394 },
+  ],
+};
+
+const DEFAULT_STUB_CONDITIONS: StubConditions = { temperature: 18, precipitation: 0.5, humidity: 55, windSpeed: 12, cloudCover: 40 };
+
+// Fixed, offline data for scripted dialogues. Every value is marked as a
+// forecast from STUB_SOURCE.
+export const createStubSources = ({ places = STUB_PLACES, conditions = DEFAULT_STUB_CONDITIONS }: StubOptions = {}): WeatherSources => {
+  const conditionsOn = typeof conditions === 'function' ? conditions : () => conditions;
+  const day = (lat: number, lon: number, date: string, locationName: string): NASAWeatherData => ({
+    ...conditionsOn(date),
+    lat,
+    lon,
+    date,
+    locationName,
+    provenance: forecastProvenance(date, new Date().toISOString(), STUB_SOURCE),
+  });
+
+  return {
+    geocode: async (query) => {
+      const coordinates = parseLatLon(query);
+      return coordinates ? [coordinates] : places[query.trim().toLowerCase()] ?? [];
+    },
+    weather: async (lat, lon, date, name) => day(lat, lon, date, name),
+    weatherRange: async (lat, lon, startDate, endDate, name) => listDatesBetween(startDate, endDate).map((date) => day(lat, lon, date, name)),
+    hourlyWeather: async (lat, lon, date, window) => {
+      const { temperature, precipitation, humidity, windSpeed, cloudCover } = conditionsOn(date);
+      const hours: HourlyWeather[] = [];
+      for (let hour = window.startHour; hour <= window.endHour; hour++) {
+        hours.push({
+          time: `${String(hour).padStart(2, '0')}:00`,
+          hour,
+          temperature,
+          precipitationProbability: precipitation > 0 ? 30 : 0,
+          precipitation: precipitation / 24,
+          windSpeed,
+          windGusts: windSpeed * 1.5,
+          humidity,
+          cloudCover,
+        });
+      }
+      return hours;
+    },
+  };
+};
+
+// Deterministic end to end: stub data, forecast-mode scoring (no NASA POWER
+// calls) and no LLM
+export const createStubProviders = (options: StubOptions = {}) =>
+  createLocalProviders(createStubSources(options), 'forecast', null);
@@ -0,0 +1,27 @@
+// lib/redis.ts
+// Redis over the Upstash REST API (also what Vercel's KV integration
+// provides), for the stores on hosts without a persistent disk. Each command
+// is one POST of its arguments as a JSON array.
+const REDIS_TIMEOUT_MS = 10_000;
+
+export type RedisCommand = <T>(...args: string[]) => Promise<T>;
+
+export const createRedisCommand = (url: string, token: string): RedisCommand => async <T>(...args: string[]): Promise<T> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify(args),
+    signal: AbortSignal.timeout(REDIS_TIMEOUT_MS),
+  });
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data || data.error) {
+    throw new Error(`Redis ${args[0]} failed with status ${response.status}${data?.error ? ` (${data.error})` : ''}`);
+  }
+  return data.result;
+};
+
+// KV_REST_API_URL and KV_REST_API_TOKEN, when both are set
+export const redisCredentials = (): { url: string; token: string } | null => {
+  const { KV_REST_API_URL: url, KV_REST_API_TOKEN: token } = process.env;
+  return url && token ? { url, token } : null;
+};
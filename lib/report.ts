@@ -0,0 +1,116 @@
+// lib/report.ts
+// Server side of the shareable /report page: parses the permalink query and
+// runs the same single-day analysis as the chat. Results are cached so link
+// previews and repeat visits don't refetch, and every report records when its
+// data was fetched so the page can say how old it is.
+import { cache } from 'react';
+import { unstable_cache } from 'next/cache';
+import { analyzeDay } from './analysis';
+import { getLLMProvider, type LLMProvider } from './llm';
+import { resolveActivity } from './activities';
+import { getNASAWeatherData } from './weather';
+import { fromIsoDate, isPastDate, minutesSince } from './dates';
+import { isIsoDate, parseCoordinate } from './http';
+import { DEFAULT_PREFERENCES, isDisplayPreferences } from './units';
+import type { ActivityProfile, DisplayPreferences, NASAWeatherData, WeatherAnalysis } from './types';
+
+export interface ReportQuery {
+  activity: ActivityProfile;
+  lat: number;
+  lon: number;
+  date: string;
+  name?: string;
+  preferences: DisplayPreferences;
+}
+
+export interface SharedReport {
+  weatherData: NASAWeatherData;
+  analysis: WeatherAnalysis;
+  fetchedAt: string;
+}
+
+export interface ReportFreshness {
+  ageMinutes: number;
+  stale: boolean;
+  reason?: 'datePassed' | 'forecastUpdated';
+}
+
+type SearchParams = Record<string, string | string[] | undefined>;
+
+// Forecast models update roughly every six hours
+export const FORECAST_STALE_AFTER_MINUTES = 6 * 60;
+const REPORT_CACHE_SECONDS = 60 * 60;
+
+const param = (params: SearchParams, key: string) => {
+  const value = params[key];
+  return (Array.isArray(value) ? value[0] : value) ?? null;
+};
+
+const parseProfile = (value: string | null): unknown => {
+  if (value === null) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+};
+
+// Returns the query, or a message explaining what is wrong with the link.
+export const parseReportQuery = (params: SearchParams): ReportQuery | string => {
+  const lat = parseCoordinate(param(params, 'lat'), 90);
+  const lon = parseCoordinate(param(params, 'lon'), 180);
+  const date = param(params, 'date');
+  if (lat === null || lon === null) {
+    return '"lat" and "lon" must be valid coordinates';
+  }
+  if (!isIsoDate(date)) {
+    return '"date" must use format YYYY-MM-DD';
+  }
+  const activity = resolveActivity(param(params, 'activity'), parseProfile(param(params, 'profile')));
+  if (!activity) {
+    return '"activity" must name a built-in activity, or "profile" must be a valid activity profile';
+  }
+  const preferences = {
+    units: param(params, 'units') ?? DEFAULT_PREFERENCES.units,
+    locale: param(params, 'locale') ?? DEFAULT_PREFERENCES.locale,
+    language: param(params, 'lang'),
+  };
+  if (!isDisplayPreferences(preferences)) {
+    return '"units" must be metric, imperial or mixed, "locale" must be supported and "lang" must be en, es, fr or ar';
+  }
+  return { activity, lat, lon, date, name: param(params, 'name')?.trim() || undefined, preferences };
+};
+
+export const buildSharedReport = async (
+  { activity, lat, lon, date, name, preferences }: ReportQuery,
+  provider: LLMProvider | null = getLLMProvider(),
+): Promise<SharedReport> => {
+  const weatherData = await getNASAWeatherData(lat, lon, date, name);
+  // Cached forecasts keep the time of the upstream call
+  const fetchedAt = weatherData.fetchedAt ?? new Date().toISOString();
+
+  const analysis = await analyzeDay(weatherData, activity, date, 'auto', preferences, provider);
+  return { weatherData, analysis, fetchedAt };
+};
+
+const cachedReport = unstable_cache((query: ReportQuery) => buildSharedReport(query), ['shared-report'], { revalidate: REPORT_CACHE_SECONDS });
+
+// React's cache dedupes the metadata and page renders of one request, which
+// would otherwise both miss a cold cache; it compares arguments by identity,
+// hence the string key.
+const loadReportByKey = cache((key: string) => cachedReport(JSON.parse(key)));
+
+export const loadSharedReport = (query: ReportQuery) => loadReportByKey(JSON.stringify(query));
+
+// Historical likelihoods don't age, but a forecast does, and any report about
+// a day that has already passed is out of date.
+export const reportFreshness = ({ analysis, fetchedAt }: SharedReport, date: string, now = new Date()): ReportFreshness => {
+  const ageMinutes = minutesSince(fetchedAt, now);
+  if (isPastDate(fromIsoDate(date), now)) {
+    return { ageMinutes, stale: true, reason: 'datePassed' };
+  }
+  if (!analysis.climatology && ageMinutes > FORECAST_STALE_AFTER_MINUTES) {
+    return { ageMinutes, stale: true, reason: 'forecastUpdated' };
+  }
+  return { ageMinutes, stale: false };
+};
@@ -0,0 +1,145 @@
+// lib/risk.ts
+import type { ActivityProfile, ClimateThresholds, HourlyWeather, NASAWeatherData, RiskData } from './types';
+
+export const RISK_KEYS: (keyof RiskData)[] = ['hot', 'cold', 'windy', 'wet', 'uncomfortable', 'uv', 'airQuality', 'storm', 'snow', 'gusts'];
+
+// Historical exceedance thresholds used when no activity is given
+export const DEFAULT_THRESHOLDS: ClimateThresholds = {
+  hotMaxTemp: 32,
+  coldMinTemp: 0,
+  windyMaxSpeed: 40,
+  wetPrecipitation: 5,
+  uncomfortableTemp: 26,
+  uncomfortableHumidity: 70,
+  snowfall: 1,
+};
+
+// Typical ratio of the strongest gust to the sustained maximum wind, used
+// when no gust forecast is available and to set an activity's gust limit
+export const GUST_FACTOR = 1.5;
+
+// Score for a hazard that is absent, or that the data can't speak to
+export const BASELINE_RISK = 5;
+
+const clamp = (value: number) => Math.max(BASELINE_RISK, Math.min(95, value));
+
+// US National Weather Service heat index (Rothfusz regression), only
+// meaningful in warm, humid air
+const heatIndex = (celsius: number, humidity: number) => {
+  const t = celsius * 1.8 + 32;
+  const rh = humidity;
+  const fahrenheit = -42.379 + 2.04901523 * t + 10.14333127 * rh - 0.22475541 * t * rh - 0.00683783 * t * t
+    - 0.05481717 * rh * rh + 0.00122874 * t * t * rh + 0.00085282 * t * rh * rh - 0.00000199 * t * t * rh * rh;
+  return (fahrenheit - 32) / 1.8;
+};
+
+// Environment Canada wind chill, for cold air and wind in km/h
+const windChill = (celsius: number, windKmh: number) => {
+  const v = windKmh ** 0.16;
+  return 13.12 + 0.6215 * celsius - 11.37 * v + 0.3965 * celsius * v;
+};
+
+// How the air feels: heat index when hot and humid, wind chill when cold and
+// windy, otherwise the air temperature itself
+export const apparentTemperature = (celsius: number, humidity: number, windKmh: number) => {
+  if (celsius >= 27 && humidity >= 40) return Math.max(celsius, heatIndex(celsius, humidity));
+  if (celsius <= 10 && windKmh > 4.8) return Math.min(celsius, windChill(celsius, windKmh));
+  return celsius;
+};
+
+// The forecast's own apparent temperatures when it has them; otherwise worked
+// out from the high and low (or the mean, for estimates and history)
+export const feelsLikeRange = (weather: NASAWeatherData) => ({
+  high: weather.feelsLikeMax ?? apparentTemperature(weather.temperatureMax ?? weather.temperature, weather.humidity, weather.windSpeed),
+  low: weather.feelsLikeMin ?? apparentTemperature(weather.temperatureMin ?? weather.temperature, weather.humidity, weather.windSpeed),
+});
+
+export const isThunderstorm = (weatherCode: number | undefined) => weatherCode !== undefined && weatherCode >= 95 && weatherCode <= 99;
+
+// Snow only comes with a forecast; otherwise precipitation on a day that stays
+// near freezing is counted as snow, at roughly 1 cm per mm of water
+export const estimatedSnowfall = (weather: NASAWeatherData) =>
+  weather.snowfall ?? ((weather.temperatureMax ?? weather.temperature) <= 1 ? weather.precipitation : 0);
+
+// UV index 3 is where protection is first advised; 11+ is extreme
+const uvRisk = (uvIndex: number | undefined) => (uvIndex === undefined ? BASELINE_RISK : clamp((uvIndex - 2) * 10));
+
+// US AQI 100 is unhealthy for sensitive groups, 200 unhealthy for everyone
+const airQualityRisk = (aqi: number | undefined) => (aqi === undefined ? BASELINE_RISK : clamp((aqi - 50) * 0.6));
+
+// A thunderstorm in the forecast is serious whatever the chance of rain; the
+// chance decides how serious
+const stormRisk = (weatherCode: number | undefined, precipitationProbability: number | undefined) =>
+  isThunderstorm(weatherCode) ? clamp(40 + (precipitationProbability ?? 50) * 0.55) : BASELINE_RISK;
+
+const snowRisk = (snowfall: number, perCm: number) => (snowfall > 0 ? clamp(20 + snowfall * perCm) : BASELINE_RISK);
+
+export const calculateRisksFromRealData = (weatherData: NASAWeatherData, activity: ActivityProfile): RiskData => {
+  const { comfortTemp, maxWind, maxPrecipitation } = activity;
+  const idealTemp = (comfortTemp.min + comfortTemp.max) / 2;
+  const feelsLike = feelsLikeRange(weatherData);
+  const feelsLikeMean = apparentTemperature(weatherData.temperature, weatherData.humidity, weatherData.windSpeed);
+  const gusts = weatherData.windGusts ?? weatherData.windSpeed * GUST_FACTOR;
+  const baseRisks = {
+    hot: clamp((feelsLike.high - comfortTemp.max) * 3),
+    cold: clamp((comfortTemp.min - feelsLike.low) * 4),
+    windy: clamp((weatherData.windSpeed / maxWind) * 50),
+    wet: clamp((weatherData.precipitation / maxPrecipitation) * 50 + weatherData.humidity * 0.3),
+    uncomfortable: clamp(Math.abs(feelsLikeMean - idealTemp) * 2 + weatherData.humidity * 0.2),
+    uv: uvRisk(weatherData.uvIndex),
+    airQuality: airQualityRisk(weatherData.airQuality),
+    storm: stormRisk(weatherData.weatherCode, weatherData.precipitationProbability),
+    snow: snowRisk(estimatedSnowfall(weatherData), 15),
+    gusts: clamp((gusts / (maxWind * GUST_FACTOR)) * 50),
+  };
+
+  return applyActivityWeights(baseRisks, activity);
+};
+
+// Activity-specific adjustments. A weight makes a hazard that is there count
+// for more; one at the baseline (no storm in the forecast, no snow at 18°C)
+// stays there.
+const applyActivityWeights = (baseRisks: RiskData, activity: ActivityProfile): RiskData => {
+  Object.entries(activity.weights).forEach(([key, weight]) => {
+    const k = key as keyof RiskData;
+    if (baseRisks[k] > BASELINE_RISK) baseRisks[k] = clamp(baseRisks[k] + (weight || 0));
+  });
+
+  return baseRisks;
+};
+
+// Same scale as the daily scores, but driven by the hour's own precipitation
+// probability, wind and gusts rather than daily totals and maxima.
+export const calculateHourlyRisks = (hour: HourlyWeather, activity: ActivityProfile): RiskData => {
+  const { comfortTemp, maxWind, maxPrecipitation } = activity;
+  const idealTemp = (comfortTemp.min + comfortTemp.max) / 2;
+  const feelsLike = hour.feelsLike ?? apparentTemperature(hour.temperature, hour.humidity, hour.windSpeed);
+  const baseRisks = {
+    hot: clamp((feelsLike - comfortTemp.max) * 3),
+    cold: clamp((comfortTemp.min - feelsLike) * 4),
+    windy: clamp((hour.windSpeed / maxWind) * 50),
+    wet: clamp(hour.precipitationProbability + (hour.precipitation / maxPrecipitation) * 50),
+    uncomfortable: clamp(Math.abs(feelsLike - idealTemp) * 2 + hour.humidity * 0.2),
+    uv: uvRisk(hour.uvIndex),
+    airQuality: airQualityRisk(hour.airQuality),
+    storm: stormRisk(hour.weatherCode, hour.precipitationProbability),
+    // An hour's snowfall is a fraction of a day's, so each cm counts for more
+    snow: snowRisk(hour.snowfall ?? (hour.temperature <= 1 ? hour.precipitation : 0), 40),
+    gusts: clamp((hour.windGusts / (maxWind * GUST_FACTOR)) * 50),
+  };
+
+  return applyActivityWeights(baseRisks, activity);
+};
+
+// Each other risk adds this share of itself on top of the worst one
+const SECONDARY_RISK_SHARE = 0.25;
+
+// One number per day or place for ranking. The worst risk sets it, and every
+// other risk above the baseline adds a quarter of its chance on the headroom
+// left, so one high risk scores worse than two moderate ones. Baseline
+// scores, which include hazards with no data, add nothing.
+export const combinedRisk = (risks: RiskData) => {
+  const scores = RISK_KEYS.map((key) => Math.min(100, Math.max(0, risks[key])));
+  const [worst = Math.max(...scores), ...others] = scores.filter((risk) => risk > BASELINE_RISK).sort((a, b) => b - a);
+  return 100 * (1 - (1 - worst / 100) * others.reduce((clear, risk) => clear * (1 - (SECONDARY_RISK_SHARE * risk) / 100), 1));
+};
@@ -0,0 +1,140 @@
+// lib/slack.ts
+// Slack Events API webhook. Direct messages and @mentions run through the
+// sender's conversation; replies go back with chat.postMessage, with the risks
+// as a Block Kit section. Requests are verified with the app's signing secret.
+import { createHmac } from 'crypto';
+import { NextResponse } from 'next/server';
+import { jsonError } from './http';
+import { RISK_LEVEL_EMOJI, isFreshTimestamp, languageFromLocale, logFailures, replyInChat, riskEntries, safeEqual, truncate, type ChannelDeps, type ChannelResult, type OutgoingCall } from './channels';
+import { DEFAULT_LANGUAGE, fill, messagesFor } from './i18n';
+import type { BotReply } from './conversation';
+import type { Language } from './types';
+
+export interface SlackConfig {
+  signingSecret: string;
+  botToken: string;
+  // Slack events carry no user locale, so the workspace picks one language
+  language: Language;
+  // Overridden by the fake-platform harness
+  apiUrl?: string;
+}
+
+const DEFAULT_API_URL = 'https://slack.com/api';
+// Block Kit limits
+const SECTION_TEXT_LIMIT = 3000;
+const MAX_BLOCKS = 50;
+
+export const slackConfig = (): SlackConfig | null => {
+  const { SLACK_SIGNING_SECRET, SLACK_BOT_TOKEN, SLACK_LANGUAGE, SLACK_API_URL } = process.env;
+  return SLACK_SIGNING_SECRET && SLACK_BOT_TOKEN
+    ? { signingSecret: SLACK_SIGNING_SECRET, botToken: SLACK_BOT_TOKEN, language: languageFromLocale(SLACK_LANGUAGE), apiUrl: SLACK_API_URL }
+    : null;
+};
+
+export const slackSignature = (signingSecret: string, timestamp: string, body: string) =>
+  `v0=${createHmac('sha256', signingSecret).update(`v0:${timestamp}:${body}`).digest('hex')}`;
+
+export const verifySlackRequest = (headers: Headers, body: string, signingSecret: string, now = Date.now()) => {
+  const timestamp = headers.get('x-slack-request-timestamp');
+  const signature = headers.get('x-slack-signature');
+  return isFreshTimestamp(timestamp, now) && !!signature && safeEqual(signature, slackSignature(signingSecret, timestamp!, body));
+};
+
+// Slack escapes &, < and >, and wraps mentions and links in angle brackets
+const fromSlackText = (text: string) => text
+  .replace(/<@[A-Z0-9]+>/g, '')
+  .replace(/<(?:https?|mailto):[^|>]+\|([^>]+)>/g, '$1')
+  .replace(/<([^>]+)>/g, '$1')
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&amp;/g, '&')
+  .trim();
+
+// The chat's **bold** is *bold* in Slack's mrkdwn
+const toMrkdwn = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\*\*(.+?)\*\*/g, '*$1*');
+
+const textSections = (text: string) => {
+  const sections = [];
+  for (let start = 0; start < text.length; start += SECTION_TEXT_LIMIT) {
+    sections.push({ type: 'section', text: { type: 'mrkdwn', text: text.slice(start, start + SECTION_TEXT_LIMIT) } });
+  }
+  return sections;
+};
+
+export const slackBlocks = ({ text, details }: BotReply, language: Language = DEFAULT_LANGUAGE) => {
+  const blocks: object[] = textSections(toMrkdwn(text));
+  if (details?.riskData) {
+    blocks.push(
+      { type: 'divider' },
+      {
+        type: 'section',
+        fields: riskEntries(details.riskData, language).map((entry) => ({
+          type: 'mrkdwn',
+          text: `${entry.icon} *${entry.label}*\n${RISK_LEVEL_EMOJI[entry.level]} ${entry.value}%`,
+        })),
+      },
+    );
+  }
+  if (details?.dataSources?.length) {
+    blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: truncate(toMrkdwn(fill(messagesFor(language).channels.sources, { sources: details.dataSources.join(' • ') })), SECTION_TEXT_LIMIT) }] });
+  }
+  return blocks.slice(0, MAX_BLOCKS);
+};
+
+const postMessage = (config: SlackConfig, channel: string, threadTs: string | undefined, reply: BotReply): OutgoingCall => ({
+  url: `${config.apiUrl ?? DEFAULT_API_URL}/chat.postMessage`,
+  method: 'POST',
+  headers: { Authorization: `Bearer ${config.botToken}` },
+  // `text` is the notification and screen-reader fallback for the blocks
+  body: { channel, thread_ts: threadTs, text: truncate(reply.text, SECTION_TEXT_LIMIT), blocks: slackBlocks(reply, config.language) },
+});
+
+export const handleSlackRequest = async (request: Request, config: SlackConfig, deps: ChannelDeps): Promise<ChannelResult> => {
+  const body = await request.text();
+  if (!verifySlackRequest(request.headers, body, config.signingSecret)) {
+    return { response: jsonError('Invalid Slack signature', 401) };
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return { response: jsonError('Request body must be valid JSON', 400) };
+  }
+  if (!payload || typeof payload !== 'object') {
+    return { response: jsonError('Request body must be a JSON object', 400) };
+  }
+  if (payload.type === 'url_verification') {
+    return { response: NextResponse.json({ challenge: payload.challenge }) };
+  }
+
+  const ok = new Response(null, { status: 200 });
+  const event = payload.event;
+  // Slack retries when the first answer is slow; the first delivery is
+  // already being handled. Bot messages (ours included) and edits are ignored.
+  if (
+    payload.type !== 'event_callback' || request.headers.has('x-slack-retry-num') ||
+    !event || !['message', 'app_mention'].includes(event.type) || event.bot_id || event.subtype || typeof event.text !== 'string'
+  ) {
+    return { response: ok };
+  }
+  // In channels only mentions are for us; direct messages always are
+  if (event.type === 'message' && event.channel_type !== 'im') {
+    return { response: ok };
+  }
+
+  const key = `slack:${payload.team_id}:${event.channel}:${event.user}`;
+  const threadTs = event.type === 'app_mention' ? event.thread_ts ?? event.ts : undefined;
+  return {
+    response: ok,
+    work: logFailures('Slack', async () => {
+      for (const reply of await replyInChat(key, fromSlackText(event.text), deps, config.language)) {
+        await deps.transport(postMessage(config, event.channel, threadTs, reply));
+      }
+    }),
+  };
+};
@@ -0,0 +1,101 @@
+// lib/telegram.ts
+// Telegram bot webhook. Each text message runs through the sender's
+// conversation in that chat; replies go back with sendMessage as HTML, with
+// the risks as a list. Telegram proves a request is genuine by echoing the
+// secret token given to setWebhook.
+import { jsonError } from './http';
+import { RISK_LEVEL_EMOJI, languageFromLocale, logFailures, replyInChat, restartChat, riskEntries, safeEqual, type ChannelDeps, type ChannelResult, type OutgoingCall } from './channels';
+import { DEFAULT_LANGUAGE, fill, messagesFor } from './i18n';
+import type { BotReply } from './conversation';
+import type { Language } from './types';
+
+export interface TelegramConfig {
+  secretToken: string;
+  botToken: string;
+  // Overridden by the fake-platform harness
+  apiUrl?: string;
+}
+
+const DEFAULT_API_URL = 'https://api.telegram.org';
+const MESSAGE_LIMIT = 4096;
+
+export const telegramConfig = (): TelegramConfig | null => {
+  const { TELEGRAM_WEBHOOK_SECRET, TELEGRAM_BOT_TOKEN, TELEGRAM_API_URL } = process.env;
+  return TELEGRAM_WEBHOOK_SECRET && TELEGRAM_BOT_TOKEN
+    ? { secretToken: TELEGRAM_WEBHOOK_SECRET, botToken: TELEGRAM_BOT_TOKEN, apiUrl: TELEGRAM_API_URL }
+    : null;
+};
+
+export const verifyTelegramRequest = (headers: Headers, secretToken: string) => {
+  const token = headers.get('x-telegram-bot-api-secret-token');
+  return !!token && safeEqual(token, secretToken);
+};
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// The chat's **bold** becomes <b>; everything else is escaped
+export const telegramHtml = ({ text, details }: BotReply, language: Language = DEFAULT_LANGUAGE) => {
+  const { channels } = messagesFor(language);
+  const parts = [escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')];
+  if (details?.riskData) {
+    parts.push(`<b>${channels.risks}</b>\n${riskEntries(details.riskData, language)
+      .map((entry) => `${RISK_LEVEL_EMOJI[entry.level]} ${entry.icon} ${entry.label}: <b>${entry.value}%</b>`)
+      .join('\n')}`);
+  }
+  if (details?.dataSources?.length) {
+    parts.push(`<i>${escapeHtml(fill(channels.sources, { sources: details.dataSources.join(' • ') }))}</i>`);
+  }
+  return parts.join('\n\n');
+};
+
+// Long replies are cut at a line break, so no HTML tag is left open
+const fitMessage = (html: string) => {
+  if (html.length <= MESSAGE_LIMIT) return html;
+  const cut = html.lastIndexOf('\n', MESSAGE_LIMIT - 1);
+  return `${html.slice(0, cut > 0 ? cut : MESSAGE_LIMIT - 1)}\n…`;
+};
+
+const sendMessage = (config: TelegramConfig, chatId: number, reply: BotReply, language: Language): OutgoingCall => ({
+  url: `${config.apiUrl ?? DEFAULT_API_URL}/bot${config.botToken}/sendMessage`,
+  method: 'POST',
+  body: { chat_id: chatId, text: fitMessage(telegramHtml(reply, language)), parse_mode: 'HTML', link_preview_options: { is_disabled: true } },
+});
+
+export const handleTelegramRequest = async (request: Request, config: TelegramConfig, deps: ChannelDeps): Promise<ChannelResult> => {
+  if (!verifyTelegramRequest(request.headers, config.secretToken)) {
+    return { response: jsonError('Invalid Telegram secret token', 401) };
+  }
+
+  let update: any;
+  try {
+    update = await request.json();
+  } catch {
+    return { response: jsonError('Request body must be valid JSON', 400) };
+  }
+
+  // Anything but a text message (edits, stickers, joins) is acknowledged and dropped
+  const ok = new Response(null, { status: 200 });
+  const message = update?.message;
+  if (typeof message?.text !== 'string' || typeof message.chat?.id !== 'number' || message.from?.is_bot) {
+    return { response: ok };
+  }
+
+  const chatId: number = message.chat.id;
+  // The sender's app language, e.g. "fr"
+  const language = languageFromLocale(message.from?.language_code);
+  const key = `telegram:${chatId}:${message.from?.id ?? chatId}`;
+  // Commands may be addressed to the bot by name in groups, e.g. /start@WeatherBot.
+  // Other commands pass their text on, so "/weather hiking in Denver" works too.
+  const command = message.text.match(/^\/(\w+)(?:@\w+)?\s*([\s\S]*)$/);
+  return {
+    response: ok,
+    work: logFailures('Telegram', async () => {
+      const replies = command?.[1] === 'start'
+        ? await restartChat(key, deps, language)
+        : await replyInChat(key, command ? command[2] || command[1] : message.text, deps, language);
+      for (const reply of replies) {
+        await deps.transport(sendMessage(config, chatId, reply, language));
+      }
+    }),
+  };
+};
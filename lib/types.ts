@@ -0,0 +1,395 @@
+// lib/types.ts
+export interface RiskData {
+  hot: number;
+  cold: number;
+  windy: number;
+  wet: number;
+  uncomfortable: number;
+  uv: number;
+  airQuality: number;
+  storm: number;
+  snow: number;
+  gusts: number;
+}
+
+export interface NASAWeatherData {
+  // Daily mean; forecasts also carry the high and low
+  temperature: number;
+  temperatureMax?: number;
+  temperatureMin?: number;
+  precipitation: number;
+  humidity: number;
+  windSpeed: number;
+  cloudCover: number;
+  // The hazard readings below come only from forecasts; scores estimate the
+  // missing ones where they can. Apparent temperature (°C) of the high and low:
+  feelsLikeMax?: number;
+  feelsLikeMin?: number;
+  uvIndex?: number;
+  // Strongest gust, km/h
+  windGusts?: number;
+  // cm
+  snowfall?: number;
+  // Most severe WMO weather code of the day; 95-99 are thunderstorms
+  weatherCode?: number;
+  // Highest hourly chance of precipitation, %
+  precipitationProbability?: number;
+  // Worst hourly US AQI; only a few days ahead
+  airQuality?: number;
+  lat: number;
+  lon: number;
+  locationName: string;
+  date?: string;
+  // When the forecast was fetched upstream (ISO); absent for estimated data
+  fetchedAt?: string;
+  // Served from cache after the live service failed
+  stale?: boolean;
+  // Seasonal estimates standing in for a forecast the service failed to
+  // return; dates past the horizon are estimated without this flag
+  forecastUnavailable?: boolean;
+  // Absent when the caller supplied the values without saying where they came from
+  provenance?: Provenance;
+}
+
+// forecast: a live model run; climatology: decades of history around the date;
+// estimate: seasonal normals used when neither was available
+export type DataKind = 'forecast' | 'climatology' | 'estimate';
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export type WeatherField = 'temperature' | 'precipitation' | 'humidity' | 'windSpeed' | 'cloudCover';
+
+export interface FieldProvenance {
+  source: string;
+  kind: DataKind;
+  confidence: Confidence;
+}
+
+export type Provenance = Record<WeatherField, FieldProvenance>;
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+  name: string;
+  region?: string;
+  country?: string;
+  population?: number;
+}
+
+export interface WeatherAnalysis {
+  risks: RiskData;
+  analysis: string;
+  dataSources: string[];
+  // Where each value behind the narrative came from
+  provenance?: Provenance;
+  climatology?: ClimatologyData;
+  // Past values for the date, when history could be fetched
+  percentiles?: ClimatePercentiles;
+  packingTips?: string[];
+  mitigationTips?: string[];
+}
+
+export interface LLMAnalysis {
+  riskAdjustments: Partial<RiskData>;
+  narrative: string;
+  packingTips: string[];
+  mitigationTips: string[];
+}
+
+export interface HistoricalDay {
+  date: string;
+  meanTemp: number;
+  maxTemp: number;
+  minTemp: number;
+  precipitation: number;
+  maxWindSpeed: number;
+  humidity: number;
+  cloudCover: number;
+}
+
+export interface ClimateThresholds {
+  hotMaxTemp: number;
+  coldMinTemp: number;
+  windyMaxSpeed: number;
+  wetPrecipitation: number;
+  uncomfortableTemp: number;
+  uncomfortableHumidity: number;
+  // cm of snow (about mm of water) on a day that stays near freezing
+  snowfall: number;
+}
+
+// NASA POWER has no gust, lightning, UV or air quality history, so those
+// dimensions keep their forecast-style scores alongside the historical ones
+export type HistoricalRiskKey = 'hot' | 'cold' | 'windy' | 'wet' | 'uncomfortable' | 'snow';
+
+export type HistoricalRisks = Pick<RiskData, HistoricalRiskKey>;
+
+export interface ClimatologyData {
+  probabilities: HistoricalRisks;
+  thresholds: ClimateThresholds;
+  sampleSize: number;
+  windowDays: number;
+  startYear: number;
+  endYear: number;
+  yearsUsed: number[];
+  means: {
+    temperature: number;
+    precipitation: number;
+    humidity: number;
+    windSpeed: number;
+    cloudCover: number;
+  };
+  source: string;
+}
+
+export interface Percentiles {
+  p10: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p90: number;
+}
+
+// Spread of past values around one date, for placing a forecast in context
+export interface ClimatePercentiles {
+  maxTemp: Percentiles;
+  minTemp: Percentiles;
+  precipitation: Percentiles;
+  windSpeed: Percentiles;
+  sampleSize: number;
+  windowDays: number;
+  startYear: number;
+  endYear: number;
+}
+
+export interface DayRisk {
+  date: string;
+  weather: NASAWeatherData;
+  risks: RiskData;
+  climatology?: ClimatologyData;
+}
+
+export interface RangeAnalysis {
+  days: DayRisk[];
+  overall: RiskData;
+  worstDay: string;
+  // The worst day's scores with any LLM adjustments applied; `days` and
+  // `overall` keep the rule-based scores
+  worstDayRisks: RiskData;
+  analysis: string;
+  dataSources: string[];
+  packingTips?: string[];
+  mitigationTips?: string[];
+}
+
+export interface RankedDay extends DayRisk {
+  // 1 is the best day in the window
+  rank: number;
+  // Chance that at least one risk materialises, 0-100
+  score: number;
+  reasons: string[];
+}
+
+export interface BestDayAnalysis {
+  // Every day in the window, best first
+  days: RankedDay[];
+  top: RankedDay[];
+  analysis: string;
+  dataSources: string[];
+  packingTips?: string[];
+  mitigationTips?: string[];
+}
+
+export interface LocationRisk {
+  weather: NASAWeatherData;
+  risks: RiskData;
+  // Combined risk used for ranking, 0-100
+  score: number;
+  climatology?: ClimatologyData;
+}
+
+export interface ComparisonAnalysis {
+  date: string;
+  // In the order the places were given
+  locations: LocationRisk[];
+  bestIndex: number;
+  analysis: string;
+  dataSources: string[];
+  packingTips?: string[];
+  mitigationTips?: string[];
+}
+
+export interface TimeWindow {
+  startHour: number;
+  endHour: number;
+}
+
+export interface HourlyWeather {
+  time: string;
+  hour: number;
+  temperature: number;
+  precipitationProbability: number;
+  precipitation: number;
+  windSpeed: number;
+  windGusts: number;
+  humidity: number;
+  cloudCover: number;
+  // Absent from hours fetched before these were added, or when not forecast
+  feelsLike?: number;
+  uvIndex?: number;
+  // cm
+  snowfall?: number;
+  weatherCode?: number;
+  airQuality?: number;
+}
+
+export interface HourRisk {
+  time: string;
+  hour: number;
+  weather: HourlyWeather;
+  risks: RiskData;
+}
+
+export interface HourlyAnalysis {
+  hours: HourRisk[];
+  risks: RiskData;
+  worstHour: string;
+  analysis: string;
+  dataSources: string[];
+  packingTips?: string[];
+  mitigationTips?: string[];
+}
+
+export interface ActivityProfile {
+  id: string;
+  label: string;
+  emoji: string;
+  keywords: string[];
+  // Feels-like highs and lows (°C) inside this range add no hot/cold risk
+  comfortTemp: { min: number; max: number };
+  // km/h of wind at which the windy score reaches 50%; gusts get GUST_FACTOR times more
+  maxWind: number;
+  // mm of daily precipitation at which the wet score reaches 50%
+  maxPrecipitation: number;
+  // Extra points added to each base risk score for this activity
+  weights: Partial<RiskData>;
+  custom?: boolean;
+}
+
+// metric: °C, km/h, mm; imperial: °F, mph, in; mixed: °C, mph, mm (UK style)
+export type UnitSystem = 'metric' | 'imperial' | 'mixed';
+
+// Languages the chat and the report narrative are written in
+export type Language = 'en' | 'es' | 'fr' | 'ar';
+
+export interface DisplayPreferences {
+  units: UnitSystem;
+  // BCP 47 tag used for dates and times, e.g. "en-GB"
+  locale: string;
+  // Defaults to English; saved before languages existed
+  language?: Language;
+}
+
+export interface ChatMessage {
+  id: string;
+  text: string;
+  sender: 'bot' | 'user';
+  timestamp: Date;
+  riskData?: RiskData;
+  dataSources?: string[];
+  provenance?: Provenance;
+  dailyRisks?: DayRisk[];
+  hourlyRisks?: HourRisk[];
+  bestDays?: RankedDay[];
+  comparison?: LocationRisk[];
+  // Single-day reports keep the inputs they were scored from
+  weatherData?: NASAWeatherData;
+  percentiles?: ClimatePercentiles;
+  report?: ReportContext;
+}
+
+// What a report message was about, for exports and reopening its days
+export interface ReportContext {
+  activityId: string;
+  activityLabel: string;
+  location: string;
+  // Absent for multi-place comparisons
+  lat?: number;
+  lon?: number;
+  date: string;
+  endDate: string;
+  timeWindow?: TimeWindow | null;
+  generatedAt: string;
+}
+
+export interface ChatState {
+  // What the bot is waiting for; 'complete' once a report has run, so a
+  // correction can still change any slot
+  stage: 'event' | 'location' | 'date' | 'complete';
+  eventType: string | null;
+  location: string | null;
+  coords: Coordinates | null;
+  candidates: Coordinates[];
+  date: string | null;
+  endDate: string | null;
+  timeWindow: TimeWindow | null;
+  // Rank every day in the range instead of reporting on all of them
+  bestDay: boolean;
+  // Two or more places to score side by side; empty for a single location
+  comparison: Coordinates[];
+}
+
+export interface SavedConversation {
+  id: string;
+  title: string;
+  // Set once the user renames it, so automatic titles stop overwriting theirs
+  titleEdited?: boolean;
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+  chatState: ChatState;
+}
+
+export type ConversationSummary = Pick<SavedConversation, 'id' | 'title' | 'updatedAt'>;
+
+export interface WatchThresholds {
+  // Alert when any risk crosses this score (0-100) in either direction
+  crossing: number;
+  // Alert when any risk has moved this many points since the last alert
+  change: number;
+}
+
+export type WatchChannel = { type: 'browser' } | { type: 'webhook'; url: string };
+
+export interface WatchAlert {
+  id: string;
+  createdAt: string;
+  reasons: string[];
+  risks: RiskData;
+  previous: RiskData;
+  // False when the webhook could not be reached; browser alerts are picked up by polling
+  delivered: boolean;
+}
+
+// A planned single-day event the server re-checks as the forecast updates
+export interface WatchedEvent {
+  id: string;
+  // Random id kept in the browser that created the watch; lists are scoped to it
+  owner: string;
+  activity: ActivityProfile;
+  location: Coordinates;
+  date: string;
+  preferences: DisplayPreferences;
+  thresholds: WatchThresholds;
+  channel: WatchChannel;
+  createdAt: string;
+  lastCheckedAt: string;
+  // Scores from the latest check
+  risks: RiskData;
+  // Scores at the last alert (or when the watch was created); changes are measured from here
+  baseline: RiskData;
+  // Newest first
+  alerts: WatchAlert[];
+  // Set once the date has passed; expired watches are no longer checked
+  expired?: boolean;
+}
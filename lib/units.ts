@@ -0,0 +1,98 @@
+// lib/units.ts
+// The one place where measurements are converted and formatted for display.
+// Everything else in the app works in metric (°C, km/h, mm, cm of snow) and calls these
+// formatters when it builds user-facing text.
+import { isLanguage } from './i18n';
+import type { DisplayPreferences, UnitSystem } from './types';
+
+export const DEFAULT_PREFERENCES: DisplayPreferences = { units: 'metric', locale: 'en-US' };
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: 'Metric (°C, km/h, mm)' },
+  { value: 'imperial', label: 'Imperial (°F, mph, in)' },
+  { value: 'mixed', label: 'Mixed (°C, mph, mm)' },
+];
+
+export const LOCALES: { value: string; label: string }[] = [
+  { value: 'en-US', label: 'English (US)' },
+  { value: 'en-GB', label: 'English (UK)' },
+  { value: 'de-DE', label: 'Deutsch' },
+  { value: 'es-ES', label: 'Español' },
+  { value: 'fr-FR', label: 'Français' },
+  { value: 'ja-JP', label: '日本語' },
+  { value: 'ar-EG', label: 'العربية' },
+];
+
+export type Quantity = 'temperature' | 'speed' | 'precipitation' | 'snowfall';
+
+interface UnitSpec {
+  symbol: string;
+  // Spaces between number and symbol, e.g. "12 km/h" but "12°C"
+  spaced: boolean;
+  decimals: number;
+  fromMetric: (value: number) => number;
+  toMetric: (value: number) => number;
+}
+
+const identity = (value: number) => value;
+
+const CELSIUS: UnitSpec = { symbol: '°C', spaced: false, decimals: 0, fromMetric: identity, toMetric: identity };
+const FAHRENHEIT: UnitSpec = { symbol: '°F', spaced: false, decimals: 0, fromMetric: (c) => (c * 9) / 5 + 32, toMetric: (f) => ((f - 32) * 5) / 9 };
+const KMH: UnitSpec = { symbol: 'km/h', spaced: true, decimals: 0, fromMetric: identity, toMetric: identity };
+const MPH: UnitSpec = { symbol: 'mph', spaced: true, decimals: 0, fromMetric: (kmh) => kmh / 1.609344, toMetric: (mph) => mph * 1.609344 };
+const MM: UnitSpec = { symbol: 'mm', spaced: false, decimals: 1, fromMetric: identity, toMetric: identity };
+const INCHES: UnitSpec = { symbol: 'in', spaced: false, decimals: 2, fromMetric: (mm) => mm / 25.4, toMetric: (inches) => inches * 25.4 };
+const CM: UnitSpec = { symbol: 'cm', spaced: false, decimals: 0, fromMetric: identity, toMetric: identity };
+const SNOW_INCHES: UnitSpec = { symbol: 'in', spaced: false, decimals: 1, fromMetric: (cm) => cm / 2.54, toMetric: (inches) => inches * 2.54 };
+
+const UNITS: Record<UnitSystem, Record<Quantity, UnitSpec>> = {
+  metric: { temperature: CELSIUS, speed: KMH, precipitation: MM, snowfall: CM },
+  imperial: { temperature: FAHRENHEIT, speed: MPH, precipitation: INCHES, snowfall: SNOW_INCHES },
+  mixed: { temperature: CELSIUS, speed: MPH, precipitation: MM, snowfall: CM },
+};
+
+const spec = (quantity: Quantity, units: UnitSystem) => UNITS[units][quantity];
+
+export const unitSymbol = (quantity: Quantity, units: UnitSystem) => spec(quantity, units).symbol;
+
+// Metric value -> number in the chosen system, e.g. for form fields and charts
+export const fromMetric = (quantity: Quantity, value: number, units: UnitSystem) => spec(quantity, units).fromMetric(value);
+
+export const toMetric = (quantity: Quantity, value: number, units: UnitSystem) => spec(quantity, units).toMetric(value);
+
+const format = (quantity: Quantity, value: number, { units, locale }: DisplayPreferences) => {
+  const unit = spec(quantity, units);
+  const number = unit.fromMetric(value).toLocaleString(locale, {
+    minimumFractionDigits: unit.decimals,
+    maximumFractionDigits: unit.decimals,
+  });
+  return unit.spaced ? `${number} ${unit.symbol}` : `${number}${unit.symbol}`;
+};
+
+export const formatTemperature = (celsius: number, preferences: DisplayPreferences = DEFAULT_PREFERENCES) =>
+  format('temperature', celsius, preferences);
+
+export const formatSpeed = (kmh: number, preferences: DisplayPreferences = DEFAULT_PREFERENCES) =>
+  format('speed', kmh, preferences);
+
+export const formatPrecipitation = (mm: number, preferences: DisplayPreferences = DEFAULT_PREFERENCES) =>
+  format('precipitation', mm, preferences);
+
+export const formatSnowfall = (cm: number, preferences: DisplayPreferences = DEFAULT_PREFERENCES) =>
+  format('snowfall', cm, preferences);
+
+const isSupportedLocale = (locale: string) => {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+export const isDisplayPreferences = (value: any): value is DisplayPreferences =>
+  !!value &&
+  typeof value === 'object' &&
+  Object.keys(UNITS).includes(value.units) &&
+  typeof value.locale === 'string' &&
+  isSupportedLocale(value.locale) &&
+  (value.language === undefined || isLanguage(value.language));
@@ -0,0 +1,20 @@
+// lib/watchOwnerStore.ts
+// Browser persistence for watched events: the random owner id that scopes this
+// browser's watch list, and when alerts were last turned into notifications.
+const OWNER_KEY = 'weatherbot.watchOwner';
+const SEEN_KEY = 'weatherbot.watchAlertsSeenAt';
+
+export const loadWatchOwner = (): string => {
+  const saved = window.localStorage.getItem(OWNER_KEY);
+  if (saved) return saved;
+  const owner = crypto.randomUUID();
+  window.localStorage.setItem(OWNER_KEY, owner);
+  return owner;
+};
+
+// ISO time of the newest alert already notified; null on first use
+export const loadAlertsSeenAt = (): string | null => window.localStorage.getItem(SEEN_KEY);
+
+export const saveAlertsSeenAt = (iso: string) => {
+  window.localStorage.setItem(SEEN_KEY, iso);
+};
@@ -0,0 +1,335 @@
+// lib/watches.ts
+// Server side of watched events: a Redis or JSON-file store, the checks that compare a
+// fresh analysis with the last one, and alert delivery. The scheduled job in
+// /api/watches/run calls runWatchChecks; browsers pick their alerts up by polling.
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { randomUUID } from 'crypto';
+import { request } from 'https';
+import { lookup, type LookupAddress, type LookupOptions } from 'dns';
+import { BlockList, isIP } from 'net';
+import { buildSharedReport } from './report';
+import { RISK_KEYS } from './risk';
+import { fromIsoDate, isPastDate } from './dates';
+import { REPORT_PATH } from './permalink';
+import { createRedisCommand, redisCredentials } from './redis';
+import { DEFAULT_LANGUAGE, fill, languageOf, messagesFor } from './i18n';
+import type { ActivityProfile, Coordinates, DisplayPreferences, Language, RiskData, WatchAlert, WatchChannel, WatchedEvent, WatchThresholds } from './types';
+
+export interface WatchStore {
+  list: () => Promise<WatchedEvent[]>;
+  get: (id: string) => Promise<WatchedEvent | null>;
+  save: (watch: WatchedEvent) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+}
+
+export interface NewWatch {
+  owner: string;
+  activity: ActivityProfile;
+  location: Coordinates;
+  date: string;
+  preferences: DisplayPreferences;
+  thresholds: WatchThresholds;
+  channel: WatchChannel;
+}
+
+export interface WatchRunSummary {
+  checked: number;
+  alerts: number;
+  expired: number;
+  failed: number;
+}
+
+export const MAX_WATCHES_PER_OWNER = 20;
+const MAX_ALERTS_KEPT = 20;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+const DEFAULT_STORE_PATH = '.data/watches.json';
+const REDIS_KEY = 'watches';
+
+// Writes are chained so two requests in the same process can't interleave a
+// read-modify-write of the file.
+export const createFileWatchStore = (filePath: string): WatchStore => {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<WatchedEvent[]> => {
+    try {
+      return JSON.parse(await readFile(filePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+  };
+
+  const update = (change: (watches: WatchedEvent[]) => WatchedEvent[]) => {
+    const next = queue.then(async () => {
+      const watches = change(await read());
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, JSON.stringify(watches, null, 2));
+    });
+    queue = next.catch(() => undefined);
+    return next;
+  };
+
+  return {
+    list: () => queue.then(read),
+    get: async (id) => (await queue.then(read)).find((watch) => watch.id === id) ?? null,
+    save: (watch) => update((watches) => (watches.some((entry) => entry.id === watch.id)
+      ? watches.map((entry) => (entry.id === watch.id ? watch : entry))
+      : [watch, ...watches])),
+    remove: (id) => update((watches) => watches.filter((watch) => watch.id !== id)),
+  };
+};
+
+// Durable store for hosts without a persistent disk (see lib/redis). Each
+// watch is one field of a hash, so saves from different instances don't
+// overwrite each other.
+export const createRedisWatchStore = (url: string, token: string, key = REDIS_KEY): WatchStore => {
+  const command = createRedisCommand(url, token);
+
+  return {
+    // Hash order is arbitrary; newest first like the file store
+    list: async () => (await command<string[]>('HVALS', key))
+      .map((value) => JSON.parse(value) as WatchedEvent)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt)),
+    get: async (id) => {
+      const value = await command<string | null>('HGET', key, id);
+      return value ? JSON.parse(value) : null;
+    },
+    save: async (watch) => {
+      await command('HSET', key, watch.id, JSON.stringify(watch));
+    },
+    remove: async (id) => {
+      await command('HDEL', key, id);
+    },
+  };
+};
+
+let defaultStore: WatchStore | null = null;
+
+// KV_REST_API_URL and KV_REST_API_TOKEN select Redis. Otherwise watches go to
+// a file; WATCH_STORE_PATH points it elsewhere, e.g. on a mounted volume.
+// Vercel's filesystem is read-only and per-instance, so there Redis is required.
+export const getWatchStore = (): WatchStore => {
+  if (!defaultStore) {
+    const redis = redisCredentials();
+    if (redis) {
+      defaultStore = createRedisWatchStore(redis.url, redis.token);
+    } else if (process.env.VERCEL) {
+      throw new Error('Watches on Vercel need KV_REST_API_URL and KV_REST_API_TOKEN for a Redis store');
+    } else {
+      defaultStore = createFileWatchStore(process.env.WATCH_STORE_PATH ?? DEFAULT_STORE_PATH);
+    }
+  }
+  return defaultStore;
+};
+
+/**
+ * Why the new scores deserve an alert, if at all. A crossing compares with the
+ * previous check, so it fires once per crossing; a change compares with the
+ * baseline, so slow drift still adds up.
+ */
+export const riskChanges = (
+  current: RiskData,
+  previous: RiskData,
+  baseline: RiskData,
+  thresholds: WatchThresholds,
+  language: Language = DEFAULT_LANGUAGE,
+): string[] => {
+  const { alerts, risks } = messagesFor(language);
+  const reasons: string[] = [];
+  for (const key of RISK_KEYS) {
+    const now = Math.round(current[key]);
+    const before = Math.round(previous[key]);
+    const params = { risk: risks[key], threshold: thresholds.crossing, before, now };
+    if (before < thresholds.crossing && now >= thresholds.crossing) {
+      reasons.push(fill(alerts.rose, params));
+    } else if (before >= thresholds.crossing && now < thresholds.crossing) {
+      reasons.push(fill(alerts.fell, params));
+    } else if (Math.abs(now - Math.round(baseline[key])) >= thresholds.change) {
+      const delta = now - Math.round(baseline[key]);
+      reasons.push(fill(delta > 0 ? alerts.up : alerts.down, { ...params, points: Math.abs(delta) }));
+    }
+  }
+  return reasons;
+};
+
+// Rule-based scores only: LLM adjustments vary between runs and would raise
+// alerts on their own.
+const evaluate = async (watch: Pick<WatchedEvent, 'activity' | 'location' | 'date' | 'preferences'>) => {
+  const { analysis } = await buildSharedReport({
+    activity: watch.activity,
+    lat: watch.location.lat,
+    lon: watch.location.lon,
+    date: watch.date,
+    name: watch.location.name,
+    preferences: watch.preferences,
+  }, null);
+  return analysis.risks;
+};
+
+export const createWatch = async (input: NewWatch, store: WatchStore = getWatchStore()): Promise<WatchedEvent> => {
+  const risks = await evaluate(input);
+  const now = new Date().toISOString();
+  const watch: WatchedEvent = {
+    ...input,
+    id: randomUUID(),
+    createdAt: now,
+    lastCheckedAt: now,
+    risks,
+    baseline: risks,
+    alerts: [],
+  };
+  await store.save(watch);
+  return watch;
+};
+
+export const watchReportUrl = (watch: WatchedEvent, baseUrl: string) => {
+  const params = new URLSearchParams({
+    activity: watch.activity.id,
+    lat: watch.location.lat.toFixed(4),
+    lon: watch.location.lon.toFixed(4),
+    date: watch.date,
+    name: watch.location.name,
+    profile: JSON.stringify(watch.activity),
+    units: watch.preferences.units,
+    locale: watch.preferences.locale,
+  });
+  return new URL(`${REPORT_PATH}?${params}`, baseUrl).href;
+};
+
+// Loopback, private, shared, link-local (where cloud metadata endpoints
+// live), multicast and reserved ranges: nothing a webhook should reach
+const BLOCKED_ADDRESSES = new BlockList();
+([['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]] as const)
+  .forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4'));
+([['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const)
+  .forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6'));
+
+export const isPublicAddress = (address: string): boolean => {
+  // IPv4-mapped IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) return isPublicAddress(mapped[1]);
+  const family = isIP(address);
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+// dns.lookup that refuses hosts resolving to a non-public address. It runs
+// for the connection itself, so a host can't pass a check and then point
+// somewhere else.
+const publicLookup = (hostname: string, options: LookupOptions, callback: (...args: unknown[]) => void) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error) return callback(error);
+    if (addresses.length === 0 || addresses.some((entry) => !isPublicAddress(entry.address))) {
+      return callback(new Error(`Webhook host ${hostname} resolves to a non-public address`));
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Redirects aren't followed, so they count as a failed delivery
+const postJson = (url: string, body: string) => new Promise<number>((resolve, reject) => {
+  const outgoing = request(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+    lookup: publicLookup as never,
+    signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+  }, (response) => {
+    response.resume();
+    resolve(response.statusCode ?? 0);
+  });
+  outgoing.on('error', reject);
+  outgoing.end(body);
+});
+
+const deliverWebhook = async (url: string, watch: WatchedEvent, alert: WatchAlert, baseUrl: string) => {
+  // Watches saved before the rules were tightened are checked again here
+  if (!isWebhookUrl(url)) {
+    throw new Error('Webhook URL must be https on a public host');
+  }
+  const status = await postJson(url, JSON.stringify({
+    type: 'watch.alert',
+    watch: { id: watch.id, activity: watch.activity.label, location: watch.location.name, date: watch.date },
+    alert,
+    reportUrl: watchReportUrl(watch, baseUrl),
+  }));
+  if (status < 200 || status >= 300) {
+    throw new Error(`Webhook answered with status ${status}`);
+  }
+};
+
+type CheckResult = Pick<WatchedEvent, 'risks' | 'baseline' | 'alerts' | 'lastCheckedAt' | 'expired'> & { alert: WatchAlert | null };
+
+// Re-scores one watch and records an alert when it crossed a threshold
+export const checkWatch = async (watch: WatchedEvent, baseUrl: string, now = new Date()): Promise<CheckResult> => {
+  const unchanged = { risks: watch.risks, baseline: watch.baseline, alerts: watch.alerts, lastCheckedAt: watch.lastCheckedAt, alert: null };
+  if (isPastDate(fromIsoDate(watch.date), now)) {
+    return { ...unchanged, expired: true };
+  }
+
+  const risks = await evaluate(watch);
+  const reasons = riskChanges(risks, watch.risks, watch.baseline, watch.thresholds, languageOf(watch.preferences));
+  const checked = { ...unchanged, risks, lastCheckedAt: now.toISOString() };
+  if (reasons.length === 0) return checked;
+
+  const alert: WatchAlert = { id: randomUUID(), createdAt: now.toISOString(), reasons, risks, previous: watch.risks, delivered: true };
+  if (watch.channel.type === 'webhook') {
+    try {
+      await deliverWebhook(watch.channel.url, watch, alert, baseUrl);
+    } catch (error) {
+      console.error(`Error delivering alert for watch ${watch.id}:`, error);
+      alert.delivered = false;
+    }
+  }
+  return { ...checked, baseline: risks, alerts: [alert, ...watch.alerts].slice(0, MAX_ALERTS_KEPT), alert };
+};
+
+// One pass over every active watch. Checks run one at a time; watches on the
+// same place and date share cached forecasts. Results are merged into the
+// stored copy, so edits made during the run are kept and deleted watches stay gone.
+export const runWatchChecks = async (baseUrl: string, store: WatchStore = getWatchStore(), now = new Date()): Promise<WatchRunSummary> => {
+  const summary: WatchRunSummary = { checked: 0, alerts: 0, expired: 0, failed: 0 };
+  for (const watch of await store.list()) {
+    if (watch.expired) continue;
+    try {
+      const { alert, ...result } = await checkWatch(watch, baseUrl, now);
+      if (result.expired) summary.expired++;
+      else summary.checked++;
+      if (alert) summary.alerts++;
+
+      const current = await store.get(watch.id);
+      if (current) await store.save({ ...current, ...result });
+    } catch (error) {
+      console.error(`Error checking watch ${watch.id}:`, error);
+      summary.failed++;
+    }
+  }
+  return summary;
+};
+
+// https only, and not a local name or a non-public IP address. Hostnames are
+// resolved and checked again on every delivery.
+export const isWebhookUrl = (value: unknown): value is string => {
+  if (typeof value !== 'string') return false;
+  try {
+    const { protocol, hostname } = new URL(value);
+    const host = hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (protocol !== 'https:' || !host) return false;
+    if (host === 'localhost' || /\.(?:localhost|local|internal)$/.test(host)) return false;
+    return isIP(host) === 0 || isPublicAddress(host);
+  } catch {
+    return false;
+  }
+};
+
+export const isWatchThresholds = (value: any): value is WatchThresholds =>
+  !!value &&
+  [value.crossing, value.change].every((entry) => typeof entry === 'number' && entry >= 1 && entry <= 100);
+
+export const isWatchChannel = (value: any): value is WatchChannel =>
+  !!value && (value.type === 'browser' || (value.type === 'webhook' && isWebhookUrl(value.url)));
+
+// Owners are random ids generated in the browser
+export const isWatchOwner = (value: unknown): value is string =>
+  typeof value === 'string' && /^[\w-]{8,64}$/.test(value);
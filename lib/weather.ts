@@ -0,0 +1,240 @@
+// lib/weather.ts
+import { dayOfYear, listDatesBetween } from './dates';
+import { coordinateKey, createTTLCache } from './cache';
+import { estimateProvenance, forecastProvenance } from './provenance';
+import type { HourlyWeather, NASAWeatherData, TimeWindow } from './types';
+
+// Open-Meteo only forecasts this many days ahead; later dates rely on climatology.
+export const FORECAST_HORIZON_DAYS = 16;
+
+const daysAhead = (date: string, today = new Date()) =>
+  (new Date(`${date}T00:00:00Z`).getTime() - Date.UTC(today.getFullYear(), today.getMonth(), today.getDate())) / 86400000;
+
+export const isWithinForecastHorizon = (date: string, today = new Date()) => {
+  const ahead = daysAhead(date, today);
+  return ahead >= 0 && ahead < FORECAST_HORIZON_DAYS;
+};
+
+// Open-Meteo reruns its models hourly, so a forecast is reused for half an hour
+const FORECAST_TTL_MS = 30 * 60 * 1000;
+
+type DailyForecast = Omit<NASAWeatherData, 'locationName'>;
+
+const forecastCache = createTTLCache<DailyForecast[]>({ ttlMs: FORECAST_TTL_MS });
+
+// The air-quality models only run a few days ahead; later days go without
+export const AIR_QUALITY_HORIZON_DAYS = 5;
+
+const AIR_QUALITY_TIMEOUT_MS = 10000;
+
+const DAILY_PARAMETERS = [
+  'temperature_2m_max', 'temperature_2m_min', 'apparent_temperature_max', 'apparent_temperature_min',
+  'precipitation_sum', 'precipitation_probability_max', 'snowfall_sum', 'weather_code',
+  'wind_speed_10m_max', 'wind_gusts_10m_max', 'uv_index_max', 'relative_humidity_2m_mean', 'cloud_cover_mean',
+];
+
+const HOURLY_PARAMETERS = [
+  'temperature_2m', 'apparent_temperature', 'precipitation_probability', 'precipitation', 'snowfall', 'weather_code',
+  'wind_speed_10m', 'wind_gusts_10m', 'uv_index', 'relative_humidity_2m', 'cloud_cover',
+];
+
+// Open-Meteo sends null for values a model doesn't cover
+const optional = (value: number | null | undefined) => (typeof value === 'number' ? value : undefined);
+
+/**
+ * Hourly US AQI from the Open-Meteo Air Quality API (CAMS), keyed by
+ * "YYYY-MM-DDTHH:mm". Only the part of the range inside the air-quality
+ * horizon is requested, and a failure just leaves air quality out: it is one
+ * hazard among many and not worth failing a forecast over.
+ */
+const requestAirQuality = async (lat: number, lon: number, startDate: string, endDate: string): Promise<Record<string, number>> => {
+  const dates = listDatesBetween(startDate, endDate).filter((date) => daysAhead(date) < AIR_QUALITY_HORIZON_DAYS);
+  if (dates.length === 0) return {};
+
+  try {
+    const response = await fetch(
+      `https://air-quality-api.open-meteo.com/v1/air-quality?latitude=${lat}&longitude=${lon}&hourly=us_aqi&timezone=auto&start_date=${dates[0]}&end_date=${dates[dates.length - 1]}`,
+      { signal: AbortSignal.timeout(AIR_QUALITY_TIMEOUT_MS) },
+    );
+    const data = await response.json();
+    if (!data.hourly) {
+      throw new Error(data.reason ?? 'No air quality data available');
+    }
+    const readings: Record<string, number> = {};
+    data.hourly.time.forEach((time: string, i: number) => {
+      const aqi = optional(data.hourly.us_aqi[i]);
+      if (aqi !== undefined) readings[time] = aqi;
+    });
+    return readings;
+  } catch (error) {
+    console.error('Error fetching air quality:', error);
+    return {};
+  }
+};
+
+const worstAirQuality = (readings: Record<string, number>, date: string) => {
+  const day = Object.keys(readings).filter((time) => time.startsWith(date)).map((time) => readings[time]);
+  return day.length > 0 ? Math.max(...day) : undefined;
+};
+
+const requestDailyForecast = async (lat: number, lon: number, startDate: string, endDate: string): Promise<DailyForecast[]> => {
+  // Using Open-Meteo API which provides NASA GFS data (free)
+  const [response, airQuality] = await Promise.all([
+    fetch(`https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=${DAILY_PARAMETERS.join(',')}&timezone=auto&start_date=${startDate}&end_date=${endDate}`),
+    requestAirQuality(lat, lon, startDate, endDate),
+  ]);
+
+  const data = await response.json();
+
+  if (!data.daily) {
+    throw new Error('No weather data available');
+  }
+
+  const { daily } = data;
+  return daily.time.map((date: string, i: number) => ({
+    temperature: (daily.temperature_2m_max[i] + daily.temperature_2m_min[i]) / 2,
+    temperatureMax: daily.temperature_2m_max[i],
+    temperatureMin: daily.temperature_2m_min[i],
+    precipitation: daily.precipitation_sum[i],
+    humidity: daily.relative_humidity_2m_mean[i],
+    windSpeed: daily.wind_speed_10m_max[i],
+    cloudCover: daily.cloud_cover_mean[i],
+    feelsLikeMax: optional(daily.apparent_temperature_max[i]),
+    feelsLikeMin: optional(daily.apparent_temperature_min[i]),
+    uvIndex: optional(daily.uv_index_max[i]),
+    windGusts: optional(daily.wind_gusts_10m_max[i]),
+    snowfall: optional(daily.snowfall_sum[i]),
+    weatherCode: optional(daily.weather_code[i]),
+    precipitationProbability: optional(daily.precipitation_probability_max[i]),
+    airQuality: worstAirQuality(airQuality, date),
+    lat,
+    lon,
+    date,
+  }));
+};
+
+// Repeat and concurrent requests for the same place and dates share one
+// upstream call; when Open-Meteo is unreachable the last good forecast is
+// returned with `stale` set.
+const fetchDailyForecast = async (lat: number, lon: number, startDate: string, endDate: string, locationName = 'Current Location'): Promise<NASAWeatherData[]> => {
+  const { value, fetchedAt, stale } = await forecastCache.get(
+    `${coordinateKey(lat, lon)}:${startDate}:${endDate}`,
+    () => requestDailyForecast(lat, lon, startDate, endDate),
+  );
+  const issuedAt = new Date(fetchedAt).toISOString();
+  return value.map((day) => ({
+    ...day,
+    locationName,
+    fetchedAt: issuedAt,
+    ...(stale && { stale }),
+    provenance: forecastProvenance(day.date!, issuedAt),
+  }));
+};
+
+// Never rejects: without a forecast the day falls back to seasonal estimates,
+// flagged with `forecastUnavailable` when a forecast should have existed
+export const getNASAWeatherData = async (lat: number, lon: number, date: string, locationName?: string): Promise<NASAWeatherData> => {
+  try {
+    const [day] = await fetchDailyForecast(lat, lon, date, date, locationName);
+    return day;
+  } catch (error) {
+    console.error('Error fetching weather data:', error);
+    return estimateDay(lat, lon, date, locationName, isWithinForecastHorizon(date));
+  }
+};
+
+// One entry per day in [startDate, endDate]. Only the part of the range inside
+// the forecast horizon is requested; the rest uses seasonal fallback data.
+export const getNASAWeatherRange = async (lat: number, lon: number, startDate: string, endDate: string, locationName?: string): Promise<NASAWeatherData[]> => {
+  const dates = listDatesBetween(startDate, endDate);
+  const forecastDates = dates.filter((date) => isWithinForecastHorizon(date));
+  const forecast: Record<string, NASAWeatherData> = {};
+
+  let forecastFailed = false;
+
+  if (forecastDates.length > 0) {
+    try {
+      const days = await fetchDailyForecast(lat, lon, forecastDates[0], forecastDates[forecastDates.length - 1], locationName);
+      days.forEach((day) => { forecast[day.date!] = day; });
+    } catch (error) {
+      console.error('Error fetching weather data:', error);
+      forecastFailed = true;
+    }
+  }
+
+  return dates.map((date) => forecast[date] ?? estimateDay(lat, lon, date, locationName, forecastFailed && isWithinForecastHorizon(date)));
+};
+
+// Hourly readings for the event window, inclusive of both ends. Unlike the daily
+// data there is no seasonal fallback: hour-level detail only exists in the forecast.
+export const getHourlyWeather = async (lat: number, lon: number, date: string, window: TimeWindow): Promise<HourlyWeather[]> => {
+  const [response, airQuality] = await Promise.all([
+    fetch(`https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=${HOURLY_PARAMETERS.join(',')}&timezone=auto&start_date=${date}&end_date=${date}`),
+    requestAirQuality(lat, lon, date, date),
+  ]);
+
+  const data = await response.json();
+
+  if (!data.hourly) {
+    throw new Error('No hourly weather data available');
+  }
+
+  return data.hourly.time
+    .map((time: string, i: number) => ({
+      time: time.slice(11, 16),
+      hour: Number(time.slice(11, 13)),
+      temperature: data.hourly.temperature_2m[i],
+      precipitationProbability: data.hourly.precipitation_probability[i] ?? 0,
+      precipitation: data.hourly.precipitation[i],
+      windSpeed: data.hourly.wind_speed_10m[i],
+      windGusts: data.hourly.wind_gusts_10m[i],
+      humidity: data.hourly.relative_humidity_2m[i],
+      cloudCover: data.hourly.cloud_cover[i],
+      feelsLike: optional(data.hourly.apparent_temperature[i]),
+      uvIndex: optional(data.hourly.uv_index[i]),
+      snowfall: optional(data.hourly.snowfall[i]),
+      weatherCode: optional(data.hourly.weather_code[i]),
+      airQuality: airQuality[time],
+    }))
+    .filter((hour: HourlyWeather) => hour.hour >= window.startHour && hour.hour <= window.endHour);
+};
+
+/**
+ * Rough seasonal normals for when no forecast or history is available. Values
+ * depend only on latitude and day of year, so the same request always gets the
+ * same estimate: annual mean temperature falls away from the equator, the
+ * seasonal swing grows with latitude and peaks in late July (late January in
+ * the south), and the tropics are wetter, more humid and calmer. The UV index
+ * is the usual clear-sky fit to the noon sun angle, 12.5·cos(zenith)^2.42, cut by
+ * about a quarter for the assumed half cloud cover.
+ */
+export const generateFallbackData = (lat: number, lon: number, date: string, locationName = 'Estimated Data'): NASAWeatherData => {
+  const absLat = Math.min(Math.abs(lat), 80);
+  const equatorial = Math.cos((absLat * Math.PI) / 180) ** 2;
+  const season = Math.cos((2 * Math.PI * (dayOfYear(date) - 200)) / 365) * (lat >= 0 ? 1 : -1);
+
+  const annualMean = 27 - 0.0075 * absLat ** 2;
+  const seasonalSwing = Math.min(15, 0.25 * absLat);
+  const declination = -23.44 * Math.cos((2 * Math.PI * (dayOfYear(date) + 10)) / 365);
+  const noonSun = Math.max(0, Math.cos(((lat - declination) * Math.PI) / 180));
+
+  return {
+    temperature: annualMean + seasonalSwing * season,
+    precipitation: 1 + 3 * equatorial,
+    humidity: 60 + 15 * equatorial,
+    windSpeed: 8 + 0.15 * absLat,
+    cloudCover: 50,
+    uvIndex: 12.5 * noonSun ** 2.42 * 0.75,
+    lat,
+    lon,
+    locationName,
+    date,
+    provenance: estimateProvenance(),
+  };
+};
+
+// A seasonal estimate for a day, flagged when a forecast should have covered it
+const estimateDay = (lat: number, lon: number, date: string, locationName: string | undefined, forecastUnavailable: boolean): NASAWeatherData => ({
+  ...generateFallbackData(lat, lon, date, locationName),
+  ...(forecastUnavailable && { forecastUnavailable }),
+});